@@ -0,0 +1,118 @@
+import { readFile } from 'fs/promises';
+import { fromFile } from 'geotiff';
+
+// Geoid undulation grids
+// A geoid model gives the height N of the geoid above the WGS84 ellipsoid, so that
+// ellipsoidal height h = orthometric height H + N. Grids are read from GeoTIFF
+// (e.g. the PROJ geoid models such as us_nga_egm96_15.tif) or NOAA .gtx files and
+// held in memory as a regular lon/lat grid of nodes.
+
+// Value .gtx files use for nodes without data
+const GTX_NO_DATA = -88.8888;
+
+// Read a .gtx grid - a 40-byte big-endian header (south-west node lat/lon, lat/lon
+// spacing, rows, columns) followed by float32 rows from south to north
+const readGtxGrid = async (filePath) => {
+  const buffer = await readFile(filePath);
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const south = view.getFloat64(0);
+  const west = view.getFloat64(8);
+  const stepLat = view.getFloat64(16);
+  const stepLon = view.getFloat64(24);
+  const height = view.getInt32(32);
+  const width = view.getInt32(36);
+
+  if (!(width > 0 && height > 0 && stepLat > 0 && stepLon > 0) || buffer.byteLength < 40 + width * height * 4) {
+    throw new Error('Invalid .gtx geoid grid');
+  }
+
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const value = view.getFloat32(40 + i * 4);
+    data[i] = Math.abs(value - GTX_NO_DATA) < 1e-3 ? NaN : value;
+  }
+
+  return { width, height, originLon: west, originLat: south, stepLon, stepLat, data };
+};
+
+// Read a geographic GeoTIFF grid, taking pixel centres as the grid nodes
+const readGeoTiffGrid = async (filePath) => {
+  const tiff = await fromFile(filePath);
+  const image = await tiff.getImage();
+  const [minX, , , maxY] = image.getBoundingBox();
+  if (Math.abs(minX) > 360 || Math.abs(maxY) > 90) {
+    throw new Error('Geoid grid must use geographic (lon/lat) coordinates');
+  }
+
+  const [resX, resY] = image.getResolution();
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const noDataValue = image.getGDALNoData();
+  const [band] = await image.readRasters({ samples: [0] });
+
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const value = band[i];
+    data[i] = (noDataValue !== null && value === noDataValue) || !isFinite(value) ? NaN : value;
+  }
+
+  // Rows run from north to south
+  return {
+    width,
+    height,
+    originLon: minX + Math.abs(resX) / 2,
+    originLat: maxY - Math.abs(resY) / 2,
+    stepLon: Math.abs(resX),
+    stepLat: -Math.abs(resY),
+    data
+  };
+};
+
+/**
+ * Load a geoid undulation grid from a GeoTIFF or .gtx file
+ */
+export const loadGeoidGrid = (filePath) =>
+  filePath.toLowerCase().endsWith('.gtx') ? readGtxGrid(filePath) : readGeoTiffGrid(filePath);
+
+/**
+ * Geoid undulation N in meters at a WGS84 position by bilinear interpolation
+ * Longitudes are wrapped into the grid (global grids may run 0-360 or -180-180)
+ * Returns null outside the grid or next to no-data nodes
+ */
+export const sampleGeoidUndulation = (grid, lon, lat) => {
+  const { width, height, originLon, originLat, stepLon, stepLat, data } = grid;
+
+  let col = (lon - originLon) / stepLon;
+  const worldColumns = 360 / stepLon;
+  const row = (lat - originLat) / stepLat;
+
+  // A global grid that doesn't repeat its first column at the far edge (e.g. -180 to 179.75)
+  // interpolates across the seam between its last column and its first
+  const wrapsAround = Math.abs(width - worldColumns) < 1e-6 * worldColumns;
+  if (wrapsAround) {
+    col = ((col % width) + width) % width;
+  } else {
+    if (col < 0) col += worldColumns;
+    if (col > width - 1) col -= worldColumns;
+  }
+
+  if (col < 0 || row < 0 || (!wrapsAround && col > width - 1) || row > height - 1) {
+    return null;
+  }
+
+  const col0 = wrapsAround ? Math.floor(col) : Math.min(width - 2, Math.floor(col));
+  const col1 = (col0 + 1) % width;
+  const row0 = Math.min(height - 2, Math.floor(row));
+  const dx = col - col0;
+  const dy = row - row0;
+  const n00 = data[row0 * width + col0];
+  const n10 = data[row0 * width + col1];
+  const n01 = data[(row0 + 1) * width + col0];
+  const n11 = data[(row0 + 1) * width + col1];
+
+  if ([n00, n10, n01, n11].some(isNaN)) {
+    return null;
+  }
+
+  return n00 * (1 - dx) * (1 - dy) + n10 * dx * (1 - dy) + n01 * (1 - dx) * dy + n11 * dx * dy;
+};
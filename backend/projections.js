@@ -0,0 +1,365 @@
+import proj4 from 'proj4';
+
+// Projection registry
+// proj4 only ships a handful of EPSG definitions, so the coordinate systems DTMs
+// commonly arrive in are registered here. Anything else has to be described by the
+// GeoTIFF itself (user-defined GeoKeys or an embedded WKT / ESRI PE string) or be
+// picked or pasted by the user.
+
+const ISRAEL_1993_TOWGS84 = '-24.0024,-17.1032,-17.8444,-0.33077,-1.85269,1.66969,5.4248';
+const PALESTINE_1923_TOWGS84 = '-275.722,94.7824,340.894,-8.001,-4.42,-11.821,1';
+
+const REGISTERED_PROJECTIONS = [
+  {
+    code: 'EPSG:2039',
+    name: 'Israel 1993 / Israeli TM Grid',
+    definition: '+proj=tmerc +lat_0=31.7343936111111 +lon_0=35.2045169444444 +k=1.0000067 ' +
+      `+x_0=219529.584 +y_0=626907.39 +ellps=GRS80 +towgs84=${ISRAEL_1993_TOWGS84} +units=m +no_defs`
+  },
+  {
+    code: 'EPSG:28191',
+    name: 'Palestine 1923 / Palestine Grid',
+    definition: '+proj=cass +lat_0=31.7340969444444 +lon_0=35.2120805555556 +x_0=170251.555 ' +
+      `+y_0=126867.909 +a=6378300.789 +b=6356566.435 +towgs84=${PALESTINE_1923_TOWGS84} +units=m +no_defs`
+  },
+  {
+    code: 'EPSG:28193',
+    name: 'Palestine 1923 / Israeli CS Grid',
+    definition: '+proj=cass +lat_0=31.7340969444444 +lon_0=35.2120805555556 +x_0=170251.555 ' +
+      `+y_0=1126867.909 +a=6378300.789 +b=6356566.435 +towgs84=${PALESTINE_1923_TOWGS84} +units=m +no_defs`
+  },
+  {
+    code: 'EPSG:27700',
+    name: 'OSGB36 / British National Grid',
+    definition: '+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy ' +
+      '+towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs'
+  },
+  {
+    code: 'EPSG:2154',
+    name: 'RGF93 / Lambert-93',
+    definition: '+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 ' +
+      '+ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs'
+  },
+  {
+    code: 'EPSG:3035',
+    name: 'ETRS89 / LAEA Europe',
+    definition: '+proj=laea +lat_0=52 +lon_0=10 +x_0=4321000 +y_0=3210000 ' +
+      '+ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs'
+  },
+  {
+    code: 'EPSG:3857',
+    name: 'WGS 84 / Pseudo-Mercator',
+    definition: '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 ' +
+      '+units=m +nadgrids=@null +wktext +no_defs'
+  }
+];
+
+// UTM zones on WGS 84 (north and south), ETRS89 and NAD83
+for (let zone = 1; zone <= 60; zone++) {
+  REGISTERED_PROJECTIONS.push({
+    code: `EPSG:${32600 + zone}`,
+    name: `WGS 84 / UTM zone ${zone}N`,
+    definition: `+proj=utm +zone=${zone} +datum=WGS84 +units=m +no_defs`
+  }, {
+    code: `EPSG:${32700 + zone}`,
+    name: `WGS 84 / UTM zone ${zone}S`,
+    definition: `+proj=utm +zone=${zone} +south +datum=WGS84 +units=m +no_defs`
+  });
+}
+for (let zone = 28; zone <= 38; zone++) {
+  REGISTERED_PROJECTIONS.push({
+    code: `EPSG:${25800 + zone}`,
+    name: `ETRS89 / UTM zone ${zone}N`,
+    definition: `+proj=utm +zone=${zone} +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs`
+  });
+}
+for (let zone = 1; zone <= 23; zone++) {
+  REGISTERED_PROJECTIONS.push({
+    code: `EPSG:${26900 + zone}`,
+    name: `NAD83 / UTM zone ${zone}N`,
+    definition: `+proj=utm +zone=${zone} +datum=NAD83 +units=m +no_defs`
+  });
+}
+
+const projectionsByCode = new Map(REGISTERED_PROJECTIONS.map(projection => [projection.code, projection]));
+REGISTERED_PROJECTIONS.forEach(({ code, definition }) => proj4.defs(code, definition));
+
+// Coordinate systems suggested to the user when a DTM's CRS can't be detected
+// (UTM zones are left out of the list but accepted by code)
+export const COMMON_PROJECTIONS = REGISTERED_PROJECTIONS
+  .filter(({ name }) => !name.includes('/ UTM zone'))
+  .map(({ code, name }) => ({ code, name }));
+
+// GeoTIFF geodetic codes (GeogEllipsoidGeoKey / GeographicTypeGeoKey) as proj4 parameters
+const ELLIPSOIDS = {
+  7001: '+ellps=airy',
+  7004: '+ellps=bessel',
+  7008: '+ellps=clrk66',
+  7012: '+ellps=clrk80',
+  7019: '+ellps=GRS80',
+  7022: '+ellps=intl',
+  7030: '+ellps=WGS84',
+  7043: '+ellps=WGS72'
+};
+
+const GEOGRAPHIC_DATUMS = {
+  4141: `+ellps=GRS80 +towgs84=${ISRAEL_1993_TOWGS84}`,
+  4171: '+ellps=GRS80 +towgs84=0,0,0,0,0,0,0',
+  4258: '+ellps=GRS80 +towgs84=0,0,0,0,0,0,0',
+  4267: '+datum=NAD27',
+  4269: '+datum=NAD83',
+  4277: '+datum=OSGB36',
+  4326: '+datum=WGS84'
+};
+
+const LINEAR_UNITS = {
+  9001: '+units=m',
+  9002: '+units=ft',
+  9003: '+units=us-ft'
+};
+
+// ProjCoordTransGeoKey values understood when building a user-defined projection
+const COORDINATE_TRANSFORMS = {
+  1: 'Transverse Mercator',
+  7: 'Mercator',
+  8: 'Lambert Conformal Conic (2SP)',
+  9: 'Lambert Conformal Conic (1SP)',
+  11: 'Albers Equal Area',
+  15: 'Polar Stereographic',
+  17: 'Equirectangular',
+  18: 'Cassini-Soldner'
+};
+
+// GeoKey value for "user-defined" in the EPSG-coded keys
+const USER_DEFINED = 32767;
+
+// First of the given GeoKey values that is a number (GeoKeys are optional and have synonyms)
+const pick = (...values) => values.find(value => typeof value === 'number' && isFinite(value));
+
+// Check that proj4 can transform from a definition, throwing a readable error if not
+const validateDefinition = (definition) => {
+  try {
+    proj4(definition, 'EPSG:4326');
+  } catch (e) {
+    throw new Error(`Unrecognised coordinate system definition: ${e?.message || e}`);
+  }
+};
+
+// Name of a WKT coordinate system (its first quoted string)
+const getWktName = (wkt) => wkt.match(/^\w+\[\s*"([^"]*)"/)?.[1] || 'Custom (WKT)';
+
+// ESRI names of registered coordinate systems (.prj files carry no EPSG code)
+const ESRI_NAMES = {
+  Israel_TM_Grid: '2039',
+  Palestine_1923_Palestine_Grid: '28191',
+  Palestine_1923_Israel_CS_Grid: '28193',
+  British_National_Grid: '27700',
+  RGF_1993_Lambert_93: '2154',
+  ETRS_1989_LAEA: '3035',
+  WGS_1984_Web_Mercator_Auxiliary_Sphere: '3857'
+};
+
+// EPSG code of a WKT coordinate system, from its top-level AUTHORITY / ID node or
+// a recognised ESRI name
+const getWktEpsgCode = (wkt) => {
+  const authority = wkt.match(/(?:AUTHORITY|ID)\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]\s*\]\s*$/i)?.[1];
+  if (authority) return authority;
+
+  const name = getWktName(wkt);
+  const utm = name.match(/^(WGS_1984|ETRS_1989|NAD_1983)_UTM_Zone_(\d+)([NS])$/i);
+  if (utm) {
+    const [, datum, zone, hemisphere] = utm;
+    const base = { WGS_1984: hemisphere.toUpperCase() === 'S' ? 32700 : 32600, ETRS_1989: 25800, NAD_1983: 26900 };
+    return String(base[datum.toUpperCase()] + parseInt(zone, 10));
+  }
+  return ESRI_NAMES[name] || null;
+};
+
+/**
+ * Resolve a CRS entered by the user or found in metadata: an EPSG code ("2039" or
+ * "EPSG:2039"), WKT (including ESRI .prj text) or a proj4 string
+ * Returns { code, name, definition }, where definition is what proj4 is given
+ * Throws when the CRS is unknown or proj4 can't use it
+ */
+export const resolveProjection = (text) => {
+  const input = String(text ?? '').trim().replace(/^ESRI PE String\s*=\s*/i, '');
+  if (!input) {
+    throw new Error('No coordinate system given');
+  }
+
+  const epsgMatch = input.match(/^(?:EPSG:)?(\d+)$/i);
+  if (epsgMatch) {
+    const code = `EPSG:${epsgMatch[1]}`;
+    if (code === 'EPSG:4326') {
+      return { code, name: 'WGS 84', definition: code };
+    }
+    const registered = projectionsByCode.get(code);
+    if (!registered) {
+      throw new Error(`${code} is not in the projection registry - paste its WKT or proj4 definition instead`);
+    }
+    return { code, name: registered.name, definition: code };
+  }
+
+  if (input.startsWith('+')) {
+    validateDefinition(input);
+    return { code: null, name: 'Custom (proj4)', definition: input };
+  }
+
+  if (/^\w+\[/.test(input)) {
+    // Prefer the registry definition of a known EPSG code - WKT exported by many tools
+    // omits the datum shift to WGS 84
+    const epsg = getWktEpsgCode(input);
+    if (epsg && projectionsByCode.has(`EPSG:${epsg}`)) {
+      return resolveProjection(epsg);
+    }
+    validateDefinition(input);
+    return { code: epsg ? `EPSG:${epsg}` : null, name: getWktName(input), definition: input };
+  }
+
+  throw new Error('Expected an EPSG code, WKT / ESRI .prj text or a proj4 string');
+};
+
+/**
+ * Self-contained proj4 definition of a resolved projection, usable by a proj4 instance
+ * that doesn't share this registry (e.g. in the browser)
+ */
+export const getStandaloneDefinition = (projection) => {
+  if (projection.code === 'EPSG:4326') {
+    return '+proj=longlat +datum=WGS84 +no_defs';
+  }
+  return projectionsByCode.get(projection.code)?.definition ?? projection.definition;
+};
+
+// Build a proj4 string from user-defined GeoTIFF projection GeoKeys (null if unsupported)
+const buildUserDefinedProjection = (geoKeys) => {
+  const parts = [];
+
+  // ProjectionGeoKey 16001-16060 / 16101-16160 are UTM zones north / south
+  const projection = geoKeys.ProjectionGeoKey;
+  if (projection >= 16001 && projection <= 16060) {
+    parts.push(`+proj=utm +zone=${projection - 16000}`);
+  } else if (projection >= 16101 && projection <= 16160) {
+    parts.push(`+proj=utm +zone=${projection - 16100} +south`);
+  } else {
+    const lat0 = pick(geoKeys.ProjNatOriginLatGeoKey, geoKeys.ProjFalseOriginLatGeoKey, geoKeys.ProjCenterLatGeoKey) ?? 0;
+    const lon0 = pick(geoKeys.ProjNatOriginLongGeoKey, geoKeys.ProjFalseOriginLongGeoKey,
+      geoKeys.ProjCenterLongGeoKey, geoKeys.ProjStraightVertPoleLongGeoKey) ?? 0;
+    const k0 = pick(geoKeys.ProjScaleAtNatOriginGeoKey, geoKeys.ProjScaleAtCenterGeoKey) ?? 1;
+    const x0 = pick(geoKeys.ProjFalseEastingGeoKey, geoKeys.ProjFalseOriginEastingGeoKey) ?? 0;
+    const y0 = pick(geoKeys.ProjFalseNorthingGeoKey, geoKeys.ProjFalseOriginNorthingGeoKey) ?? 0;
+    const lat1 = pick(geoKeys.ProjStdParallel1GeoKey) ?? lat0;
+    const lat2 = pick(geoKeys.ProjStdParallel2GeoKey) ?? lat1;
+    const offsets = `+x_0=${x0} +y_0=${y0}`;
+
+    switch (geoKeys.ProjCoordTransGeoKey) {
+      case 1:
+        parts.push(`+proj=tmerc +lat_0=${lat0} +lon_0=${lon0} +k=${k0} ${offsets}`);
+        break;
+      case 7:
+        parts.push(`+proj=merc +lon_0=${lon0} +k=${k0} ${offsets}`);
+        break;
+      case 8:
+        parts.push(`+proj=lcc +lat_1=${lat1} +lat_2=${lat2} +lat_0=${lat0} +lon_0=${lon0} ${offsets}`);
+        break;
+      case 9:
+        parts.push(`+proj=lcc +lat_1=${lat0} +lat_0=${lat0} +lon_0=${lon0} +k_0=${k0} ${offsets}`);
+        break;
+      case 11:
+        parts.push(`+proj=aea +lat_1=${lat1} +lat_2=${lat2} +lat_0=${lat0} +lon_0=${lon0} ${offsets}`);
+        break;
+      case 15:
+        parts.push(`+proj=stere +lat_0=${lat0 < 0 ? -90 : 90} +lat_ts=${lat0} +lon_0=${lon0} +k_0=${k0} ${offsets}`);
+        break;
+      case 17:
+        parts.push(`+proj=eqc +lat_ts=${lat1} +lon_0=${lon0} ${offsets}`);
+        break;
+      case 18:
+        parts.push(`+proj=cass +lat_0=${lat0} +lon_0=${lon0} ${offsets}`);
+        break;
+      default:
+        return null;
+    }
+  }
+
+  // Datum from the geographic CRS code, or the ellipsoid code / axes
+  const geographicType = geoKeys.GeographicTypeGeoKey;
+  const semiMajor = pick(geoKeys.GeogSemiMajorAxisGeoKey);
+  const semiMinor = pick(geoKeys.GeogSemiMinorAxisGeoKey);
+  const inverseFlattening = pick(geoKeys.GeogInvFlatteningGeoKey);
+  if (GEOGRAPHIC_DATUMS[geographicType]) {
+    parts.push(GEOGRAPHIC_DATUMS[geographicType]);
+  } else if (ELLIPSOIDS[geoKeys.GeogEllipsoidGeoKey]) {
+    parts.push(ELLIPSOIDS[geoKeys.GeogEllipsoidGeoKey]);
+  } else if (semiMajor && (semiMinor || inverseFlattening)) {
+    parts.push(semiMinor ? `+a=${semiMajor} +b=${semiMinor}` : `+a=${semiMajor} +rf=${inverseFlattening}`);
+  } else {
+    return null;
+  }
+
+  parts.push(LINEAR_UNITS[geoKeys.ProjLinearUnitsGeoKey] || '+units=m', '+no_defs');
+  return parts.join(' ');
+};
+
+// Citation text of a GeoTIFF, without the ESRI prefix
+const getCitation = (geoKeys) =>
+  [geoKeys.PCSCitationGeoKey, geoKeys.GTCitationGeoKey]
+    .map(citation => String(citation ?? '').replace(/^ESRI PE String\s*=\s*/i, '').replace(/\|+$/, '').trim())
+    .find(citation => citation.length > 0) || null;
+
+/**
+ * Detect the projected CRS of a GeoTIFF image
+ * In order: a CRS chosen by the user (sidecar .prj text), an EPSG-coded
+ * ProjectedCSTypeGeoKey, WKT embedded in the citation keys, user-defined GeoKeys
+ * Returns { code, name, definition, source } or null when the CRS can't be determined
+ * - there is deliberately no default, a guessed CRS misplaces a DTM by kilometres
+ */
+export const detectProjection = (image, userDefinition = null) => {
+  if (userDefinition) {
+    try {
+      return { ...resolveProjection(userDefinition), source: 'user' };
+    } catch (e) {
+      console.warn(`Ignoring user-defined CRS: ${e.message}`);
+    }
+  }
+
+  let geoKeys;
+  try {
+    geoKeys = image.getGeoKeys();
+  } catch (e) {
+    console.warn('Could not read GeoKeys');
+  }
+  if (!geoKeys) {
+    return null;
+  }
+
+  const projectedType = geoKeys.ProjectedCSTypeGeoKey;
+  if (projectedType && projectedType !== USER_DEFINED) {
+    try {
+      return { ...resolveProjection(String(projectedType)), source: 'geokeys' };
+    } catch (e) {
+      console.warn(e.message);
+    }
+  }
+
+  const citation = getCitation(geoKeys);
+  if (citation && /^\w+\[/.test(citation)) {
+    try {
+      return { ...resolveProjection(citation), source: 'wkt' };
+    } catch (e) {
+      console.warn(`Could not use WKT citation: ${e.message}`);
+    }
+  }
+
+  const definition = buildUserDefinedProjection(geoKeys);
+  if (definition) {
+    try {
+      validateDefinition(definition);
+      const transform = COORDINATE_TRANSFORMS[geoKeys.ProjCoordTransGeoKey] || 'UTM';
+      return { code: null, name: citation || `User-defined ${transform}`, definition, source: 'geokeys' };
+    } catch (e) {
+      console.warn(e.message);
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,134 @@
+import { join } from 'path';
+import { readdir, readFile, unlink, writeFile } from 'fs/promises';
+import { existsSync, mkdirSync } from 'fs';
+
+// Mission projects
+// Projects are saved as JSON files, one per project, named after the project. The file
+// format belongs to the frontend (frontend/src/utils/project.ts), which migrates older
+// versions when loading; the backend only checks the fields it needs to list and store
+// a project, so every version passes through unchanged.
+
+const PROJECT_EXTENSION = '.json';
+
+// Project ids are derived from the name, and used as file names - letters and digits of any
+// script, so Hebrew or Cyrillic names get an id too
+const PROJECT_ID_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N}-]*$/u;
+
+/**
+ * Create the projects directory if it doesn't exist
+ */
+export function ensureProjectsDir(projectsDir) {
+  if (!existsSync(projectsDir)) {
+    mkdirSync(projectsDir, { recursive: true });
+  }
+}
+
+/**
+ * File-safe id of a project name ("Haifa Block 3" -> "haifa-block-3", "Café" -> "cafe")
+ * Accents and vowel points are dropped; the id is at most 80 characters, never splitting one
+ */
+export function getProjectId(name) {
+  const id = name
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+  return Array.from(id).slice(0, 80).join('').replace(/-+$/, '');
+}
+
+export function isValidProjectId(id) {
+  return PROJECT_ID_PATTERN.test(id);
+}
+
+const getProjectPath = (projectsDir, id) => join(projectsDir, `${id}${PROJECT_EXTENSION}`);
+
+/**
+ * Check the fields every project version has
+ * @returns An error message, or null if the project can be stored
+ */
+export function validateProject(project) {
+  if (!project || typeof project !== 'object' || Array.isArray(project)) {
+    return 'Project must be a JSON object';
+  }
+  if (!Number.isInteger(project.version) || project.version < 1) {
+    return 'Project has no valid version';
+  }
+  if (typeof project.name !== 'string' || !getProjectId(project.name)) {
+    return 'Project needs a name with at least one letter or digit';
+  }
+  return null;
+}
+
+// Summary of a project shown in the project list
+function summarizeProject(id, project) {
+  const lines = Array.isArray(project.mission?.lines) ? project.mission.lines : [];
+  return {
+    id,
+    name: project.name,
+    version: project.version,
+    savedAt: project.savedAt ?? null,
+    notes: typeof project.notes === 'string' ? project.notes : '',
+    lineCount: lines.length,
+    pointCount: lines.reduce((total, line) => total + (Array.isArray(line.points) ? line.points.length : 0), 0)
+  };
+}
+
+/**
+ * Summaries of every saved project, most recently saved first
+ * Files that can't be parsed are skipped
+ */
+export async function listProjects(projectsDir) {
+  const files = (await readdir(projectsDir)).filter(file => file.endsWith(PROJECT_EXTENSION));
+  const projects = [];
+  for (const file of files) {
+    const id = file.slice(0, -PROJECT_EXTENSION.length);
+    try {
+      projects.push(summarizeProject(id, JSON.parse(await readFile(join(projectsDir, file), 'utf8'))));
+    } catch (error) {
+      console.warn(`Skipping unreadable project ${file}:`, error.message);
+    }
+  }
+  return projects.sort((a, b) => String(b.savedAt ?? '').localeCompare(String(a.savedAt ?? '')));
+}
+
+/**
+ * Read a saved project
+ * @returns The project, or null if there is none with this id
+ */
+export async function readProject(projectsDir, id) {
+  const path = getProjectPath(projectsDir, id);
+  if (!existsSync(path)) {
+    return null;
+  }
+  return JSON.parse(await readFile(path, 'utf8'));
+}
+
+/**
+ * Write a project under the id of its name
+ * @param overwrite Replace a project saved under the same id
+ * @returns The project summary, or null if the id is taken and overwrite is false
+ */
+export async function writeProject(projectsDir, project, overwrite) {
+  const id = getProjectId(project.name);
+  const path = getProjectPath(projectsDir, id);
+  if (!overwrite && existsSync(path)) {
+    return null;
+  }
+  await writeFile(path, JSON.stringify(project, null, 2));
+  return summarizeProject(id, project);
+}
+
+/**
+ * Delete a saved project
+ * @returns false if there is none with this id
+ */
+export async function deleteProject(projectsDir, id) {
+  const path = getProjectPath(projectsDir, id);
+  if (!existsSync(path)) {
+    return false;
+  }
+  await unlink(path);
+  return true;
+}
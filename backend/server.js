@@ -2,12 +2,16 @@ import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
 import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-import { readFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { readFile, stat, unlink, writeFile } from 'fs/promises';
 import { existsSync, mkdirSync } from 'fs';
 import { fromFile } from 'geotiff';
 import proj4 from 'proj4';
 import dotenv from 'dotenv';
+import { COMMON_PROJECTIONS, detectProjection, getStandaloneDefinition, resolveProjection } from './projections.js';
+import { loadGeoidGrid, sampleGeoidUndulation } from './geoid.js';
+import { readGeoPackage, readShapefileZip } from './vector.js';
+import { deleteProject, ensureProjectsDir, isValidProjectId, listProjects, readProject, validateProject, writeProject } from './projects.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -27,6 +31,8 @@ app.use((req, res, next) => {
 
 // Middleware
 app.use(cors());
+// Projects carry every flight line vertex, so they may exceed the default body limit
+app.use('/api/projects', express.json({ limit: '20mb' }));
 app.use(express.json());
 
 // Create uploads directory if it doesn't exist
@@ -35,6 +41,10 @@ if (!existsSync(uploadsDir)) {
   mkdirSync(uploadsDir, { recursive: true });
 }
 
+// Saved mission projects (PROJECTS_DIR overrides the location)
+const projectsDir = process.env.PROJECTS_DIR || join(__dirname, 'projects');
+ensureProjectsDir(projectsDir);
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -61,9 +71,375 @@ const upload = multer({
   }
 });
 
+// Geoid undulation grids are uploaded as GeoTIFF or NOAA .gtx files
+const geoidUpload = multer({
+  storage,
+  fileFilter: (req, file, cb) => {
+    if (/\.(tif|tiff|geotiff|gtx)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only GeoTIFF or .gtx geoid grids are allowed'));
+    }
+  }
+});
+
+// Vector reference layers are parsed straight from memory - nothing is kept on disk
+const vectorUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (/\.(zip|gpkg)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only zipped Shapefiles (.zip) or GeoPackages (.gpkg) are allowed'));
+    }
+  }
+});
+
 // Serve static files from uploads directory
 app.use('/uploads', express.static(uploadsDir));
 
+// Size of elevation tiles served to the map, plus a 1-pixel buffer on every side
+// so renderers that need neighbouring pixels (e.g. hillshade) have no seams
+const TILE_SIZE = 256;
+const TILE_BUFFER = 1;
+
+// Largest grid served by /api/dtm/:filename/grid along either axis
+const MAX_GRID_SIZE = 1024;
+
+// Longest side of the overview used to estimate raster statistics
+const STATISTICS_OVERVIEW_SIZE = 1024;
+
+// Check if bounds are in projected coordinates (large numbers) vs geographic (lat/lon)
+// Geographic coordinates: lon typically -180 to 180, lat -90 to 90
+const isProjectedBounds = ([minX, minY, maxX, maxY]) =>
+  Math.abs(minX) > 180 || Math.abs(minY) > 90 || Math.abs(maxX) > 180 || Math.abs(maxY) > 90;
+
+// CRS chosen by the user for a DTM is kept next to it as a .prj sidecar file
+const getCrsSidecarPath = (filename) => join(uploadsDir, `${filename}.prj`);
+
+// Whether a filename from a URL names a file directly in the uploads directory -
+// route parameters are URL-decoded, so they may contain path separators
+const isUploadFilename = (filename) => Boolean(filename) && basename(filename) === filename && filename !== '.' && filename !== '..';
+
+// Determine the CRS of a GeoTIFF image (see projections.js)
+// Geographic rasters are taken as WGS84; projected rasters whose CRS can't be
+// detected get null instead of a guess
+const getSourceCrs = async (filename, image) => {
+  if (!isProjectedBounds(image.getBoundingBox())) {
+    return { code: 'EPSG:4326', name: 'WGS 84', definition: null, source: 'geographic' };
+  }
+  const sidecarPath = getCrsSidecarPath(filename);
+  const userDefinition = existsSync(sidecarPath) ? await readFile(sidecarPath, 'utf8') : null;
+  const crs = detectProjection(image, userDefinition);
+  if (!crs) {
+    console.warn(`Could not determine the coordinate system of ${filename}`);
+  }
+  return crs;
+};
+
+// Check a raster value against the no-data value and NaN/Infinity
+const isValidElevation = (value, noDataValue) =>
+  !(noDataValue !== null && noDataValue !== undefined && value === noDataValue) &&
+  !isNaN(value) && isFinite(value);
+
+// Number of bins in the elevation histogram used for histogram-stretch rendering
+const HISTOGRAM_BINS = 256;
+
+// Read the first band of a GeoTIFF resampled so its longest side is at most maxSize
+// GeoTIFF overviews are used when present, so the full raster is never decoded
+const readOverview = async (tiff, image, maxSize) => {
+  const scale = Math.min(1, maxSize / Math.max(image.getWidth(), image.getHeight()));
+  const width = Math.max(1, Math.round(image.getWidth() * scale));
+  const height = Math.max(1, Math.round(image.getHeight() * scale));
+  const rasters = await tiff.readRasters({
+    width,
+    height,
+    samples: [0],
+    resampleMethod: 'nearest'
+  });
+  return { data: rasters[0], width, height };
+};
+
+// Min/max elevation and an elevation histogram, sampled from a low-resolution overview
+// Min/max come from GDAL statistics metadata when present
+const computeRasterStatistics = async (tiff, image) => {
+  const noDataValue = image.getGDALNoData();
+  const { data } = await readOverview(tiff, image, STATISTICS_OVERVIEW_SIZE);
+
+  let min = Infinity;
+  let max = -Infinity;
+  try {
+    const metadata = await image.getGDALMetadata(0);
+    const statsMin = parseFloat(metadata?.STATISTICS_MINIMUM);
+    const statsMax = parseFloat(metadata?.STATISTICS_MAXIMUM);
+    if (isFinite(statsMin) && isFinite(statsMax)) {
+      min = statsMin;
+      max = statsMax;
+    }
+  } catch (e) {
+    // No GDAL metadata - take min/max from the overview
+  }
+
+  if (min > max) {
+    for (let i = 0; i < data.length; i++) {
+      const value = data[i];
+      if (!isValidElevation(value, noDataValue)) continue;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+  }
+
+  if (min > max) {
+    return { min: 0, max: 0, histogram: new Array(HISTOGRAM_BINS).fill(0) };
+  }
+
+  // Histogram bins span [min, max] evenly
+  const histogram = new Array(HISTOGRAM_BINS).fill(0);
+  const range = max - min || 1;
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i];
+    if (!isValidElevation(value, noDataValue)) continue;
+    const bin = Math.floor(((value - min) / range) * HISTOGRAM_BINS);
+    histogram[Math.max(0, Math.min(HISTOGRAM_BINS - 1, bin))]++;
+  }
+
+  return { min, max, histogram };
+};
+
+// DTM session cache
+// Opened GeoTIFFs are kept per filename together with their geokeys, projection
+// transform, statistics and the full-resolution blocks profiles have decoded, so
+// repeated tile and profile requests don't re-open and re-decode the file.
+// Least recently used DTMs, then blocks, are evicted when the entry or byte limits are exceeded.
+const DTM_CACHE_MAX_ENTRIES = parseInt(process.env.DTM_CACHE_MAX_ENTRIES, 10) || 16;
+const DTM_CACHE_MAX_BYTES = (parseInt(process.env.DTM_CACHE_MAX_MB, 10) || 1024) * 1024 * 1024;
+
+const dtmCache = new Map(); // filename -> Promise<entry>, in least to most recently used order
+
+// Profiles decode the elevation band in square blocks of this many pixels, only around the path,
+// so a raster larger than the cache budget never has to be decoded whole
+const DTM_BLOCK_SIZE = 512;
+
+const openDtm = async (filename, filePath, mtimeMs) => {
+  const tiff = await fromFile(filePath);
+  const image = await tiff.getImage();
+  const crs = await getSourceCrs(filename, image);
+  const sourceProj = crs?.definition || null;
+  let geoKeys = null;
+  try {
+    geoKeys = image.getGeoKeys();
+  } catch (e) {
+    // Ignore if we can't get geokeys
+  }
+
+  // WGS84 extent from the transformed corners (unknown without a CRS)
+  const [minX, minY, maxX, maxY] = image.getBoundingBox();
+  const toWgs84 = sourceProj ? proj4(sourceProj, 'EPSG:4326') : null;
+  const corners = [[minX, minY], [minX, maxY], [maxX, minY], [maxX, maxY]]
+    .map(corner => toWgs84 ? toWgs84.forward(corner) : corner);
+  const extent = crs ? {
+    minLon: Math.min(...corners.map(c => c[0])),
+    maxLon: Math.max(...corners.map(c => c[0])),
+    minLat: Math.min(...corners.map(c => c[1])),
+    maxLat: Math.max(...corners.map(c => c[1]))
+  } : null;
+
+  console.log(`DTM cache: opened ${filename}`);
+
+  return {
+    filename,
+    mtimeMs,
+    tiff,
+    image,
+    width: image.getWidth(),
+    height: image.getHeight(),
+    bbox: image.getBoundingBox(),
+    noDataValue: image.getGDALNoData(),
+    fileDirectory: image.getFileDirectory(),
+    geoKeys,
+    crs,
+    sourceProj,
+    toSource: sourceProj ? proj4('EPSG:4326', sourceProj) : null,
+    extent,
+    statistics: null,
+    blocks: new Map(), // block index -> Promise<{ data, width }>, in least to most recently used order
+    rasterBytes: 0
+  };
+};
+
+// Total size of the decoded rasters currently held in the cache
+const getCachedRasterBytes = async () => {
+  const entries = await Promise.all(
+    [...dtmCache.values()].map(promise => promise.catch(() => null))
+  );
+  return entries.reduce((total, entry) => total + (entry?.rasterBytes || 0), 0);
+};
+
+// Drop least recently used DTMs until the cache is within its limits
+const evictDtms = async (keepFilename) => {
+  while (dtmCache.size > DTM_CACHE_MAX_ENTRIES ||
+    (dtmCache.size > 1 && await getCachedRasterBytes() > DTM_CACHE_MAX_BYTES)) {
+    const oldest = [...dtmCache.keys()].find(filename => filename !== keepFilename);
+    if (!oldest) break;
+    dtmCache.delete(oldest);
+    console.log(`DTM cache: evicted ${oldest}`);
+  }
+};
+
+// Get the cache entry for a DTM, opening it if needed (null when the file doesn't exist or
+// the name leads out of the uploads directory)
+const getDtm = async (filename) => {
+  if (!isUploadFilename(filename)) {
+    return null;
+  }
+  const filePath = join(uploadsDir, filename);
+  if (!existsSync(filePath)) {
+    invalidateDtm(filename);
+    return null;
+  }
+
+  const { mtimeMs } = await stat(filePath);
+  let promise = dtmCache.get(filename);
+  if (promise) {
+    const entry = await promise.catch(() => null);
+    if (!entry || entry.mtimeMs !== mtimeMs) {
+      // File was replaced or failed to open - start over
+      dtmCache.delete(filename);
+      promise = null;
+    }
+  }
+
+  if (!promise) {
+    promise = openDtm(filename, filePath, mtimeMs);
+    promise.catch(() => dtmCache.delete(filename));
+  }
+
+  // Mark as most recently used
+  dtmCache.delete(filename);
+  dtmCache.set(filename, promise);
+  await evictDtms(filename);
+
+  return promise;
+};
+
+// Decoded full-resolution blocks of a cached DTM's elevation band, by block index
+// (row * blocks across + column); the blocks not cached yet are read with a window
+// Returns a reader of raw pixel values - undefined for pixels outside the blocks
+const getDtmBlocks = async (entry, blockIndexes) => {
+  const blocksAcross = Math.ceil(entry.width / DTM_BLOCK_SIZE);
+
+  // Refuse a request that couldn't be held within the budget even with everything else evicted
+  const bytesPerPixel = (entry.fileDirectory.BitsPerSample?.[0] || 32) / 8;
+  const neededBytes = blockIndexes.size * DTM_BLOCK_SIZE * DTM_BLOCK_SIZE * bytesPerPixel;
+  if (neededBytes > DTM_CACHE_MAX_BYTES) {
+    const error = new Error(
+      `The path and search radius cover ${(neededBytes / 1048576).toFixed(0)} MB of ${entry.filename} at full resolution, ` +
+      `more than the ${(DTM_CACHE_MAX_BYTES / 1048576).toFixed(0)} MB DTM cache (DTM_CACHE_MAX_MB). Shorten the path or reduce the search radius.`
+    );
+    error.statusCode = 413;
+    throw error;
+  }
+
+  const loaded = new Map();
+  let decoded = 0;
+  for (const index of blockIndexes) {
+    let block = entry.blocks.get(index);
+    if (!block) {
+      const x0 = (index % blocksAcross) * DTM_BLOCK_SIZE;
+      const y0 = Math.floor(index / blocksAcross) * DTM_BLOCK_SIZE;
+      const window = [x0, y0, Math.min(entry.width, x0 + DTM_BLOCK_SIZE), Math.min(entry.height, y0 + DTM_BLOCK_SIZE)];
+      block = entry.image.readRasters({ samples: [0], window }).then(rasters => {
+        entry.rasterBytes += rasters[0].byteLength;
+        return { data: rasters[0], width: window[2] - window[0] };
+      });
+      block.catch(() => entry.blocks.delete(index));
+      decoded++;
+    }
+    // Mark as most recently used
+    entry.blocks.delete(index);
+    entry.blocks.set(index, block);
+    loaded.set(index, await block);
+  }
+  // Make room by evicting other DTMs, then the blocks of this one the request doesn't use
+  await evictDtms(entry.filename);
+  let excess = await getCachedRasterBytes() - DTM_CACHE_MAX_BYTES;
+  for (const [index, block] of entry.blocks) {
+    if (excess <= 0) break;
+    if (loaded.has(index)) continue;
+    entry.blocks.delete(index);
+    const { data } = await block.catch(() => ({ data: null }));
+    if (data) {
+      entry.rasterBytes -= data.byteLength;
+      excess -= data.byteLength;
+    }
+  }
+  if (decoded > 0) {
+    console.log(`DTM cache: decoded ${decoded} block(s) of ${entry.filename} (${(entry.rasterBytes / 1048576).toFixed(1)} MB of it cached)`);
+  }
+
+  return (px, py) => {
+    const block = loaded.get(Math.floor(py / DTM_BLOCK_SIZE) * blocksAcross + Math.floor(px / DTM_BLOCK_SIZE));
+    return block ? block.data[(py % DTM_BLOCK_SIZE) * block.width + (px % DTM_BLOCK_SIZE)] : undefined;
+  };
+};
+
+// Min/max elevation of a cached DTM
+const getDtmStatistics = async (entry) => {
+  if (!entry.statistics) {
+    entry.statistics = computeRasterStatistics(entry.tiff, entry.image);
+    entry.statistics.catch(() => {
+      entry.statistics = null;
+    });
+  }
+  return entry.statistics;
+};
+
+// Forget a DTM - called when the client unloads it
+const invalidateDtm = (filename) => {
+  if (dtmCache.delete(filename)) {
+    console.log(`DTM cache: invalidated ${filename}`);
+  }
+};
+
+// Loaded geoid grids by filename - a geoid model is small next to a DTM and is used
+// by every profile request, so grids stay in memory until the server restarts
+const geoidCache = new Map(); // filename -> Promise<grid>
+
+// Get a geoid grid, loading it if needed (null when the file doesn't exist or the name leads
+// out of the uploads directory)
+const getGeoid = async (filename) => {
+  if (!isUploadFilename(filename)) {
+    return null;
+  }
+  const filePath = join(uploadsDir, filename);
+  if (!existsSync(filePath)) {
+    geoidCache.delete(filename);
+    return null;
+  }
+  if (!geoidCache.has(filename)) {
+    const promise = loadGeoidGrid(filePath);
+    promise.catch(() => geoidCache.delete(filename));
+    geoidCache.set(filename, promise);
+    const grid = await promise;
+    console.log(`Geoid grid loaded: ${filename} (${grid.width}x${grid.height})`);
+  }
+  return geoidCache.get(filename);
+};
+
+// Reply 409 for requests that need the WGS84 position of a DTM whose CRS is unknown
+const sendCrsRequired = (res, filename) => res.status(409).json({
+  error: `Coordinate system of ${filename} is unknown - choose it in the DTM panel`,
+  crsRequired: true
+});
+
+// Every route naming an uploaded file refuses names that lead out of the uploads directory
+app.param('filename', (req, res, next, filename) => {
+  if (!isUploadFilename(filename)) {
+    return res.status(400).json({ error: 'Invalid filename' });
+  }
+  next();
+});
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok' });
@@ -176,17 +552,13 @@ app.post('/api/upload-dtm', upload.single('dtm'), async (req, res) => {
 app.get('/api/dtm/:filename/metadata', async (req, res) => {
   try {
     const filename = req.params.filename;
-    const filePath = join(uploadsDir, filename);
+    const dtm = await getDtm(filename);
 
-    if (!existsSync(filePath)) {
+    if (!dtm) {
       return res.status(404).json({ error: 'File not found' });
     }
 
-    // Parse GeoTIFF to get metadata
-    const tiff = await fromFile(filePath);
-    const image = await tiff.getImage();
-    const bbox = image.getBoundingBox();
-    const [minX, minY, maxX, maxY] = bbox;
+    const [minX, minY, maxX, maxY] = dtm.bbox;
 
     res.json({
       filename,
@@ -197,10 +569,10 @@ app.get('/api/dtm/:filename/metadata', async (req, res) => {
         maxY
       },
       resolution: {
-        width: image.getWidth(),
-        height: image.getHeight()
+        width: dtm.width,
+        height: dtm.height
       },
-      noDataValue: image.getGDALNoData()
+      noDataValue: dtm.noDataValue
     });
   } catch (error) {
     console.error('Error parsing GeoTIFF:', error);
@@ -208,110 +580,115 @@ app.get('/api/dtm/:filename/metadata', async (req, res) => {
   }
 });
 
-// Get DTM raster data for rendering
-app.get('/api/dtm/:filename/raster', async (req, res) => {
-  try {
-    const filename = req.params.filename;
-    const filePath = join(uploadsDir, filename);
-
-    if (!existsSync(filePath)) {
-      return res.status(404).json({ error: 'File not found' });
+// Convert a Web Mercator tile pixel (global pixel coordinates at zoom z) to lon/lat
+const tilePixelToLonLat = (globalX, globalY, z) => {
+  const worldSize = TILE_SIZE * Math.pow(2, z);
+  const lon = (globalX / worldSize) * 360 - 180;
+  const n = Math.PI * (1 - (2 * globalY) / worldSize);
+  const lat = (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+  return [lon, lat];
+};
+
+// Sample a DTM at a grid of WGS84 positions, reading the raster at roughly the grid's
+// resolution - GeoTIFF overviews are used when present, so coarse grids never decode
+// the full-resolution raster
+// Returns row-major Float32 elevations (NaN outside the DTM or for no data), or null
+// when the grid misses the DTM entirely
+const sampleDtmGrid = async (dtm, width, height, gridToLonLat) => {
+  const { tiff, noDataValue, toSource } = dtm;
+  const [minX, minY, maxX, maxY] = dtm.bbox;
+
+  // Source coordinates of every grid point
+  const sourceX = new Float64Array(width * height);
+  const sourceY = new Float64Array(width * height);
+  let gridMinX = Infinity, gridMinY = Infinity, gridMaxX = -Infinity, gridMaxY = -Infinity;
+
+  for (let j = 0; j < height; j++) {
+    for (let i = 0; i < width; i++) {
+      const [lon, lat] = gridToLonLat(i, j);
+      const [sx, sy] = toSource ? toSource.forward([lon, lat]) : [lon, lat];
+      const index = j * width + i;
+      sourceX[index] = sx;
+      sourceY[index] = sy;
+      if (sx < gridMinX) gridMinX = sx;
+      if (sx > gridMaxX) gridMaxX = sx;
+      if (sy < gridMinY) gridMinY = sy;
+      if (sy > gridMaxY) gridMaxY = sy;
     }
+  }
 
-    console.log(`Processing GeoTIFF: ${filename}`);
+  // Part of the DTM covered by the grid
+  const readMinX = Math.max(minX, gridMinX);
+  const readMaxX = Math.min(maxX, gridMaxX);
+  const readMinY = Math.max(minY, gridMinY);
+  const readMaxY = Math.min(maxY, gridMaxY);
 
-    // Parse GeoTIFF
-    const tiff = await fromFile(filePath);
-    const image = await tiff.getImage();
-    const width = image.getWidth();
-    const height = image.getHeight();
+  if (readMinX >= readMaxX || readMinY >= readMaxY) {
+    return null;
+  }
 
-    console.log(`GeoTIFF dimensions: ${width}x${height} (${width * height} pixels)`);
+  // Read the covered window at roughly the grid's resolution
+  const gridResX = (gridMaxX - gridMinX) / width;
+  const gridResY = (gridMaxY - gridMinY) / height;
+  const readWidth = Math.max(1, Math.min(2 * width, Math.ceil((readMaxX - readMinX) / gridResX)));
+  const readHeight = Math.max(1, Math.min(2 * height, Math.ceil((readMaxY - readMinY) / gridResY)));
+
+  const rasters = await tiff.readRasters({
+    bbox: [readMinX, readMinY, readMaxX, readMaxY],
+    width: readWidth,
+    height: readHeight,
+    samples: [0],
+    resampleMethod: 'nearest'
+  });
+  const window = rasters[0];
+
+  const grid = new Float32Array(width * height);
+  for (let index = 0; index < grid.length; index++) {
+    const sx = sourceX[index];
+    const sy = sourceY[index];
+    if (sx < readMinX || sx >= readMaxX || sy <= readMinY || sy > readMaxY) {
+      grid[index] = NaN;
+      continue;
+    }
+    const col = Math.min(readWidth - 1, Math.floor(((sx - readMinX) / (readMaxX - readMinX)) * readWidth));
+    const row = Math.min(readHeight - 1, Math.floor(((readMaxY - sy) / (readMaxY - readMinY)) * readHeight));
+    const value = window[row * readWidth + col];
+    grid[index] = isValidElevation(value, noDataValue) ? value : NaN;
+  }
 
-    // Read full resolution raster data - no downsampling
-    let rasters;
-    let data;
+  return grid;
+};
 
-    try {
-      console.log('Reading full resolution raster data...');
-      rasters = await image.readRasters();
-      let rawData = rasters[0];
-      console.log(`Raw data type: ${rawData.constructor.name}, length: ${rawData.length}`);
-
-      // Convert to array (keep full resolution)
-      // Use a more efficient method that doesn't cause stack overflow
-      if (ArrayBuffer.isView(rawData) && !Array.isArray(rawData)) {
-        console.log('Converting TypedArray to regular array (full resolution)...');
-        const totalLength = rawData.length;
-        const chunkSize = 100000; // Smaller chunks to avoid stack overflow
-        const result = new Array(totalLength);
-
-        // Copy in chunks without using spread operator
-        for (let i = 0; i < totalLength; i += chunkSize) {
-          const end = Math.min(i + chunkSize, totalLength);
-          for (let j = i; j < end; j++) {
-            result[j] = rawData[j];
-          }
-          if (i % (chunkSize * 10) === 0) {
-            console.log(`Converted ${((i / totalLength) * 100).toFixed(1)}%...`);
-          }
-        }
-        data = result;
-        console.log(`Conversion complete: ${data.length} values`);
-      } else {
-        data = rawData;
-        console.log(`Data already in array format: ${data.length} values`);
-      }
+// Get DTM metadata and statistics for rendering
+// Elevation values are served separately as binary tiles (see /tiles/:z/:x/:y)
+app.get('/api/dtm/:filename/raster', async (req, res) => {
+  try {
+    const filename = req.params.filename;
+    const dtm = await getDtm(filename);
 
-      console.log(`Final data length: ${data.length}`);
-    } catch (readError) {
-      console.error('Error reading rasters:', readError);
-      console.error('Stack:', readError.stack);
-      throw new Error(`Failed to read GeoTIFF raster data: ${readError.message}`);
+    if (!dtm) {
+      return res.status(404).json({ error: 'File not found' });
     }
 
-    // Calculate statistics (handle no-data values) - use efficient methods for large arrays
-    const noDataValue = image.getGDALNoData();
+    console.log(`Processing GeoTIFF: ${filename}`);
 
-    // Calculate min/max without creating intermediate arrays
-    let min = Infinity;
-    let max = -Infinity;
-    let hasValidData = false;
+    const { width, height, noDataValue } = dtm;
 
-    for (let i = 0; i < data.length; i++) {
-      const value = data[i];
-      if (noDataValue !== null && noDataValue !== undefined && value === noDataValue) {
-        continue; // Skip no-data values
-      }
-      if (isNaN(value) || !isFinite(value)) {
-        continue; // Skip invalid values
-      }
-      hasValidData = true;
-      if (value < min) min = value;
-      if (value > max) max = value;
-    }
+    console.log(`GeoTIFF dimensions: ${width}x${height} (${width * height} pixels)`);
 
-    if (!hasValidData) {
-      min = 0;
-      max = 0;
-    }
+    const { min, max, histogram } = await getDtmStatistics(dtm);
 
     console.log(`Elevation range: ${min} to ${max}`);
 
     // Get bounds - check if we need coordinate transformation
-    const bbox = image.getBoundingBox();
+    const bbox = dtm.bbox;
     const [minX, minY, maxX, maxY] = bbox;
-
-    // Check if bounds are in projected coordinates (large numbers) vs geographic (lat/lon)
-    // Geographic coordinates: lon typically -180 to 180, lat -90 to 90
-    // Projected coordinates: typically much larger numbers
-    const isProjected = Math.abs(minX) > 180 || Math.abs(minY) > 90 ||
-      Math.abs(maxX) > 180 || Math.abs(maxY) > 90;
+    const isProjected = isProjectedBounds(bbox);
+    const { crs, extent } = dtm;
 
     console.log(`Bounds: [${minX}, ${minY}, ${maxX}, ${maxY}]`);
-    console.log(`Coordinate system: ${isProjected ? 'Projected (needs transformation)' : 'Geographic (WGS84)'}`);
+    console.log(`Coordinate system: ${crs ? `${crs.name} (${crs.source})` : 'unknown'}`);
 
-    // Prepare response - use full resolution
     const responseData = {
       width: width,
       height: height,
@@ -319,18 +696,25 @@ app.get('/api/dtm/:filename/raster', async (req, res) => {
       originalHeight: height,
       min,
       max,
+      histogram,
       bounds: bbox,
+      // WGS84 [minLon, minLat, maxLon, maxLat], null until the CRS is known
+      wgs84Bounds: extent ? [extent.minLon, extent.minLat, extent.maxLon, extent.maxLat] : null,
+      crs: crs ? { code: crs.code, name: crs.name, source: crs.source } : null,
+      crsRequired: !crs,
       noDataValue: noDataValue,
-      isProjected: isProjected
+      isProjected: isProjected,
+      tileSize: TILE_SIZE,
+      tileBuffer: TILE_BUFFER,
+      tileUrl: `/api/dtm/${encodeURIComponent(filename)}/tiles/{z}/{x}/{y}`
     };
 
     // Try to get coordinate system info for transformation
     try {
-      const geoKeys = image.getGeoKeys();
-      const fileDirectory = image.getFileDirectory();
+      const { geoKeys, fileDirectory } = dtm;
 
-      // Get CRS information
-      responseData.crs = {
+      // Raw CRS GeoKeys
+      responseData.geoKeys = {
         geographicType: geoKeys?.GeographicTypeGeoKey || null,
         projectedCSType: geoKeys?.ProjectedCSTypeGeoKey || null,
         geogCitation: geoKeys?.GeogCitationGeoKey || null,
@@ -352,29 +736,14 @@ app.get('/api/dtm/:filename/raster', async (req, res) => {
         responseData.epsg = geoKeys.GeographicTypeGeoKey;
       }
 
-      console.log('CRS Info:', JSON.stringify(responseData.crs, null, 2));
+      console.log('CRS GeoKeys:', JSON.stringify(responseData.geoKeys, null, 2));
       console.log('EPSG Code:', responseData.epsg);
     } catch (e) {
       console.error('Error getting CRS info:', e);
       // Ignore if we can't get CRS info
     }
 
-    console.log('Preparing to send response...');
-    console.log(`Data array length: ${data.length}`);
-
-    // Add data to response
-    try {
-      responseData.data = data;
-      console.log('Serializing JSON response...');
-      const jsonString = JSON.stringify(responseData);
-      console.log(`JSON size: ${(jsonString.length / 1024 / 1024).toFixed(2)} MB`);
-
-      res.json(responseData);
-      console.log('Response sent successfully');
-    } catch (jsonError) {
-      console.error('Error serializing JSON:', jsonError);
-      throw new Error(`Failed to serialize response: ${jsonError.message}. Data may be too large.`);
-    }
+    res.json(responseData);
   } catch (error) {
     console.error('Error processing GeoTIFF:', error);
     console.error('Stack:', error.stack);
@@ -386,114 +755,375 @@ app.get('/api/dtm/:filename/raster', async (req, res) => {
   }
 });
 
-// Get elevation data along a path
-// This endpoint samples the DTM at points along the path, including interpolated points along line segments
-app.post('/api/elevation-profile', async (req, res) => {
+// Get a Web Mercator (z/x/y) elevation tile as binary little-endian Float32 values
+// The tile is (TILE_SIZE + 2 * TILE_BUFFER) pixels square, row by row from the top;
+// pixels outside the DTM or with no data are NaN. Returns 204 when the tile misses the DTM.
+app.get('/api/dtm/:filename/tiles/:z/:x/:y', async (req, res) => {
   try {
-    const { coordinates, dtmPath, radiusMeters } = req.body;
+    const filename = req.params.filename;
+    const z = parseInt(req.params.z, 10);
+    const x = parseInt(req.params.x, 10);
+    const y = parseInt(req.params.y, 10);
 
-    if (!coordinates || !Array.isArray(coordinates) || coordinates.length < 2) {
-      return res.status(400).json({ error: 'Invalid coordinates array' });
+    if ([z, x, y].some(v => isNaN(v) || v < 0)) {
+      return res.status(400).json({ error: 'Invalid tile coordinates' });
     }
 
-    if (!dtmPath) {
-      return res.status(400).json({ error: 'DTM path is required' });
+    const dtm = await getDtm(filename);
+    if (!dtm) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    if (!dtm.crs) {
+      return sendCrsRequired(res, filename);
     }
 
-    // Default radius is 50 meters if not specified
-    const radius = radiusMeters || 50;
+    // Tile pixel centres, including the buffer
+    const size = TILE_SIZE + 2 * TILE_BUFFER;
+    const tile = await sampleDtmGrid(dtm, size, size, (i, j) => tilePixelToLonLat(
+      x * TILE_SIZE + i - TILE_BUFFER + 0.5,
+      y * TILE_SIZE + j - TILE_BUFFER + 0.5,
+      z
+    ));
 
-    // Extract filename from path
-    const filename = dtmPath.split('/').pop();
-    if (!filename) {
-      return res.status(400).json({ error: 'Invalid DTM path' });
+    if (!tile) {
+      return res.status(204).end();
     }
 
-    const filePath = join(uploadsDir, filename);
-    if (!existsSync(filePath)) {
-      return res.status(404).json({ error: 'DTM file not found' });
+    res.set('Content-Type', 'application/octet-stream');
+    res.set('Cache-Control', 'private, max-age=3600');
+    res.send(Buffer.from(tile.buffer));
+  } catch (error) {
+    console.error('Error serving DTM tile:', error);
+    res.status(500).json({
+      error: error.message,
+      filename: req.params.filename
+    });
+  }
+});
+
+// Get DTM elevations on a regular WGS84 grid covering a bounding box (e.g. the map view)
+// Query: bbox=west,south,east,north, width and height (grid points, at most MAX_GRID_SIZE)
+// Returns binary little-endian Float32 values row by row from the north-west corner, grid
+// points at cell centres; no-data points are NaN. Returns 204 when the box misses the DTM.
+app.get('/api/dtm/:filename/grid', async (req, res) => {
+  try {
+    const filename = req.params.filename;
+    const bbox = String(req.query.bbox || '').split(',').map(Number);
+    const width = parseInt(req.query.width, 10);
+    const height = parseInt(req.query.height, 10);
+
+    if (bbox.length !== 4 || bbox.some(v => !isFinite(v)) || bbox[0] >= bbox[2] || bbox[1] >= bbox[3]) {
+      return res.status(400).json({ error: 'Invalid bbox - expected west,south,east,north' });
+    }
+    if ([width, height].some(v => isNaN(v) || v < 2 || v > MAX_GRID_SIZE)) {
+      return res.status(400).json({ error: `Grid width and height must be between 2 and ${MAX_GRID_SIZE}` });
     }
 
-    console.log(`Sampling elevation profile from DTM: ${filename}`);
-    console.log(`Number of input coordinates: ${coordinates.length}`);
+    const dtm = await getDtm(filename);
+    if (!dtm) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    if (!dtm.crs) {
+      return sendCrsRequired(res, filename);
+    }
 
-    // Load the GeoTIFF
-    const tiff = await fromFile(filePath);
-    const image = await tiff.getImage();
-    const width = image.getWidth();
-    const height = image.getHeight();
-    const bbox = image.getBoundingBox();
-    const [minX, minY, maxX, maxY] = bbox;
+    const [west, south, east, north] = bbox;
+    const grid = await sampleDtmGrid(dtm, width, height, (i, j) => [
+      west + ((i + 0.5) / width) * (east - west),
+      north - ((j + 0.5) / height) * (north - south)
+    ]);
 
-    // Check if DTM uses projected coordinates
-    const isProjected = Math.abs(minX) > 180 || Math.abs(minY) > 90 ||
-      Math.abs(maxX) > 180 || Math.abs(maxY) > 90;
+    if (!grid) {
+      return res.status(204).end();
+    }
+
+    res.set('Content-Type', 'application/octet-stream');
+    res.send(Buffer.from(grid.buffer));
+  } catch (error) {
+    console.error('Error sampling DTM grid:', error);
+    res.status(500).json({
+      error: error.message,
+      filename: req.params.filename
+    });
+  }
+});
 
-    // Get coordinate system info for transformation
-    let sourceProj = null;
+// Coordinate systems suggested when a DTM's CRS can't be detected
+app.get('/api/projections', (req, res) => {
+  res.json({ projections: COMMON_PROJECTIONS });
+});
+
+// Resolve a coordinate system for client-side reprojection (e.g. of projected GeoJSON)
+// Body: { definition } - an EPSG code, WKT / ESRI .prj text or a proj4 string
+// Returns { code, name, definition } where definition is a proj4 string or WKT proj4 can use on its own
+app.post('/api/projections/resolve', (req, res) => {
+  try {
+    const projection = resolveProjection(req.body?.definition);
+    res.json({ code: projection.code, name: projection.name, definition: getStandaloneDefinition(projection) });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Set the CRS of a DTM, overriding what was detected
+// Body: { definition } - an EPSG code, WKT / ESRI .prj text or a proj4 string
+app.post('/api/dtm/:filename/crs', async (req, res) => {
+  try {
+    const filename = req.params.filename;
+    if (!existsSync(join(uploadsDir, filename))) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    let crs;
     try {
-      const geoKeys = image.getGeoKeys();
-      if (geoKeys?.ProjectedCSTypeGeoKey) {
-        sourceProj = `EPSG:${geoKeys.ProjectedCSTypeGeoKey}`;
-      } else if (geoKeys?.GeographicTypeGeoKey) {
-        sourceProj = `EPSG:${geoKeys.GeographicTypeGeoKey}`;
-      }
+      crs = resolveProjection(req.body?.definition);
     } catch (e) {
-      console.warn('Could not determine EPSG code, will attempt coordinate conversion');
+      return res.status(400).json({ error: e.message });
     }
 
-    // If projected and no EPSG found, try to infer from bounds
-    if (isProjected && !sourceProj) {
-      // Default to UTM Zone 36N if we can't determine
-      sourceProj = 'EPSG:32636';
-      console.warn('Using default projection EPSG:32636');
+    await writeFile(getCrsSidecarPath(filename), String(req.body.definition).trim());
+    invalidateDtm(filename);
+    console.log(`CRS of ${filename} set to ${crs.name}`);
+
+    res.json({ success: true, crs: { code: crs.code, name: crs.name, source: 'user' } });
+  } catch (error) {
+    console.error('Error setting DTM CRS:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Forget a user-chosen CRS so it is detected from the GeoTIFF again
+app.delete('/api/dtm/:filename/crs', async (req, res) => {
+  try {
+    const filename = req.params.filename;
+    if (!existsSync(join(uploadsDir, filename))) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    const sidecarPath = getCrsSidecarPath(filename);
+    if (existsSync(sidecarPath)) {
+      await unlink(sidecarPath);
     }
+    invalidateDtm(filename);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing DTM CRS:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    // Read the raster data
-    const rasters = await image.readRasters();
-    const elevationData = rasters[0];
-    const noDataValue = image.getGDALNoData();
+// Drop a DTM from the session cache - called when the client unloads it
+app.delete('/api/dtm/:filename/cache', (req, res) => {
+  invalidateDtm(req.params.filename);
+  res.json({ success: true });
+});
 
-    // Get pixel scale and tie points for coordinate conversion
-    const fileDirectory = image.getFileDirectory();
-    const modelPixelScale = fileDirectory.ModelPixelScaleTag;
-    const modelTiepoint = fileDirectory.ModelTiepointTag;
+// Upload a geoid undulation grid (GeoTIFF or .gtx) for vertical datum conversion
+app.post('/api/upload-geoid', geoidUpload.single('geoid'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
 
-    // Helper function to convert geographic coordinates to pixel coordinates
-    const geoToPixel = (lon, lat) => {
-      let x = lon;
-      let y = lat;
+  try {
+    const grid = await getGeoid(req.file.filename);
+    res.json({
+      success: true,
+      filename: req.file.filename,
+      path: `/uploads/${req.file.filename}`,
+      width: grid.width,
+      height: grid.height
+    });
+  } catch (error) {
+    console.error('Error reading geoid grid:', error);
+    res.status(400).json({ error: `Could not read geoid grid: ${error.message}` });
+  }
+});
 
-      // Transform from WGS84 to DTM coordinate system if needed
-      if (isProjected && sourceProj) {
-        try {
-          [x, y] = proj4('EPSG:4326', sourceProj, [lon, lat]);
-        } catch (transformError) {
-          console.error('Coordinate transformation error:', transformError);
-          return null;
-        }
-      }
+// Import the polygon and line layers of a zipped Shapefile or GeoPackage as reference layers
+// Returns { success, filename, layers: [{ name, crs, features, skipped }] } with WGS84 GeoJSON features
+app.post('/api/upload-vector', vectorUpload.single('vector'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
 
-      // Calculate pixel coordinates using model transformation
-      if (modelPixelScale && modelTiepoint) {
-        // ModelTiepoint: [I, J, K, X, Y, Z] where (I,J) is pixel location and (X,Y,Z) is geo location
-        // ModelPixelScale: [ScaleX, ScaleY, ScaleZ]
-        const [tieI, tieJ, tieK, geoX, geoY, geoZ] = modelTiepoint;
-        const [scaleX, scaleY, scaleZ] = modelPixelScale;
+  try {
+    const isGeoPackage = req.file.originalname.toLowerCase().endsWith('.gpkg');
+    const layers = isGeoPackage
+      ? await readGeoPackage(req.file.buffer)
+      : readShapefileZip(req.file.buffer);
+    console.log(`Read ${layers.length} vector layer(s) from ${req.file.originalname}`);
+    res.json({ success: true, filename: req.file.originalname, layers });
+  } catch (error) {
+    console.error('Error reading vector file:', error);
+    res.status(400).json({ error: `Could not read ${req.file.originalname}: ${error.message}` });
+  }
+});
 
-        // Invert the transformation: pixel = (geo - geoOrigin) / scale + tiePoint
-        const pixelX = Math.round((x - geoX) / scaleX + tieI);
-        const pixelY = Math.round((geoY - y) / scaleY + tieJ); // Note: Y is typically inverted
+// Geoid undulations (meters, ellipsoidal minus orthometric height) at WGS84 positions
+// Body: { coordinates: [lon, lat][] } - returns { undulations: (number | null)[] }, null outside the grid
+app.post('/api/geoid/:filename/undulations', async (req, res) => {
+  try {
+    const { coordinates } = req.body;
+    if (!Array.isArray(coordinates)) {
+      return res.status(400).json({ error: 'Invalid coordinates array' });
+    }
 
-        return { pixelX, pixelY };
-      } else {
-        // Fallback: use bounding box (assumes north-up, west-left orientation)
-        const pixelX = Math.round(((x - minX) / (maxX - minX)) * width);
-        const pixelY = Math.round(((maxY - y) / (maxY - minY)) * height);
+    const grid = await getGeoid(req.params.filename);
+    if (!grid) {
+      return res.status(404).json({ error: 'Geoid grid not found' });
+    }
 
-        return { pixelX, pixelY };
+    res.json({
+      undulations: coordinates.map(([lon, lat]) => sampleGeoidUndulation(grid, lon, lat))
+    });
+  } catch (error) {
+    console.error('Error sampling geoid grid:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Uploaded files a project refers to (its DTMs and geoid grid) that are no longer on the server
+const getMissingProjectFiles = (project) => {
+  const paths = [
+    ...(Array.isArray(project.dtmSources) ? project.dtmSources : []),
+    ...(project.verticalDatum?.geoidSource ? [project.verticalDatum.geoidSource] : [])
+  ];
+  return paths.filter(path => {
+    const filename = String(path).split('/').pop();
+    return !isUploadFilename(filename) || !existsSync(join(uploadsDir, filename));
+  });
+};
+
+// List the saved mission projects - returns { projects: [{ id, name, version, savedAt, notes, lineCount, pointCount }] }
+app.get('/api/projects', async (req, res) => {
+  try {
+    res.json({ projects: await listProjects(projectsDir) });
+  } catch (error) {
+    console.error('Error listing projects:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Save a mission project under the id of its name
+// Body: { project, overwrite } - answers 409 when the name is taken and overwrite is not set
+app.post('/api/projects', async (req, res) => {
+  try {
+    const { project, overwrite } = req.body;
+    const validationError = validateProject(project);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const summary = await writeProject(projectsDir, project, overwrite === true);
+    if (!summary) {
+      return res.status(409).json({ error: `A project named "${project.name}" already exists` });
+    }
+    console.log(`Saved project ${summary.id}`);
+    res.json({ success: true, project: summary });
+  } catch (error) {
+    console.error('Error saving project:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Check which uploaded files of a project kept elsewhere (e.g. an autosaved session) are gone
+// Body: { project } - returns { missingFiles }
+app.post('/api/projects/missing-files', (req, res) => {
+  const { project } = req.body;
+  if (!project || typeof project !== 'object') {
+    return res.status(400).json({ error: 'No project provided' });
+  }
+  res.json({ missingFiles: getMissingProjectFiles(project) });
+});
+
+// Load a mission project - returns { project, missingFiles } where missingFiles lists the
+// DTMs and geoid grid it refers to that are no longer uploaded
+app.get('/api/projects/:id', async (req, res) => {
+  try {
+    if (!isValidProjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid project id' });
+    }
+    const project = await readProject(projectsDir, req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json({ project, missingFiles: getMissingProjectFiles(project) });
+  } catch (error) {
+    console.error('Error loading project:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/projects/:id', async (req, res) => {
+  try {
+    if (!isValidProjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid project id' });
+    }
+    if (!await deleteProject(projectsDir, req.params.id)) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get elevation data along a path
+// This endpoint samples the DTM at points along the path, including interpolated points along line segments
+app.post('/api/elevation-profile', async (req, res) => {
+  try {
+    const { coordinates, dtmPath, dtmPaths, radiusMeters, interpolation, geoidPath } = req.body;
+
+    if (!coordinates || !Array.isArray(coordinates) || coordinates.length < 2) {
+      return res.status(400).json({ error: 'Invalid coordinates array' });
+    }
+
+    // Several DTMs may be loaded as a mosaic - a single dtmPath is still accepted
+    const paths = Array.isArray(dtmPaths) ? dtmPaths : (dtmPath ? [dtmPath] : []);
+    if (paths.length === 0) {
+      return res.status(400).json({ error: 'DTM path is required' });
+    }
+
+    // Default radius is 50 meters if not specified
+    const radius = radiusMeters || 50;
+
+    // Elevation interpolation method - nearest pixel unless the client asks otherwise
+    const interpolationMethod = interpolation || 'nearest';
+    if (!['nearest', 'bilinear', 'bicubic'].includes(interpolationMethod)) {
+      return res.status(400).json({ error: `Invalid interpolation method: ${interpolationMethod}` });
+    }
+
+    // Extract filenames from paths
+    const filenames = paths.map(path => String(path).split('/').pop());
+    if (filenames.some(filename => !filename)) {
+      return res.status(400).json({ error: 'Invalid DTM path' });
+    }
+
+    const dtms = [];
+    for (const filename of filenames) {
+      const dtm = await getDtm(filename);
+      if (!dtm) {
+        return res.status(404).json({ error: `DTM file not found: ${filename}` });
       }
-    };
+      if (!dtm.crs) {
+        return sendCrsRequired(res, filename);
+      }
+      dtms.push(dtm);
+    }
+
+    // Optional geoid grid - each point then reports its undulation for datum conversion
+    let geoid = null;
+    if (geoidPath) {
+      const geoidFilename = String(geoidPath).split('/').pop();
+      geoid = geoidFilename ? await getGeoid(geoidFilename) : null;
+      if (!geoid) {
+        return res.status(404).json({ error: `Geoid grid not found: ${geoidFilename}` });
+      }
+    }
+
+    console.log(`Sampling elevation profile from DTM mosaic: ${filenames.join(', ')}`);
+    console.log(`Number of input coordinates: ${coordinates.length}`);
+    console.log(`Interpolation method: ${interpolationMethod}`);
 
     // Helper function to calculate distance between two coordinates (Haversine formula)
     const calculateDistance = (coord1, coord2) => {
@@ -527,195 +1157,368 @@ app.post('/api/elevation-profile', async (req, res) => {
       return points;
     };
 
-    // Sample elevation at a coordinate
-    const sampleElevation = (lon, lat) => {
-      const pixel = geoToPixel(lon, lat);
-      if (!pixel) {
-        return null;
-      }
+    // Build the sampling functions for one DTM of the mosaic, decoding the raster around the points
+    const createSampler = async (dtm, points) => {
+      // Cached GeoTIFF and projection
+      const { width, height, noDataValue, fileDirectory, toSource } = dtm;
+      const [minX, minY, maxX, maxY] = dtm.bbox;
+      const isProjected = toSource !== null;
+
+      // Get pixel scale and tie points for coordinate conversion
+      const modelPixelScale = fileDirectory.ModelPixelScaleTag;
+      const modelTiepoint = fileDirectory.ModelTiepointTag;
+
+      // Helper function to convert geographic coordinates to pixel coordinates
+      // rasterX/rasterY are continuous (pixel edges at whole numbers, centres at +0.5), and
+      // pixelX/pixelY the pixel containing the point - the one whose centre is nearest
+      const geoToPixel = (lon, lat) => {
+        let x = lon;
+        let y = lat;
+
+        // Transform from WGS84 to DTM coordinate system if needed
+        if (toSource) {
+          try {
+            [x, y] = toSource.forward([lon, lat]);
+          } catch (transformError) {
+            console.error('Coordinate transformation error:', transformError);
+            return null;
+          }
+        }
 
-      const { pixelX, pixelY } = pixel;
+        // Calculate pixel coordinates using model transformation
+        if (modelPixelScale && modelTiepoint) {
+          // ModelTiepoint: [I, J, K, X, Y, Z] where (I,J) is pixel location and (X,Y,Z) is geo location
+          // ModelPixelScale: [ScaleX, ScaleY, ScaleZ]
+          const [tieI, tieJ, tieK, geoX, geoY, geoZ] = modelTiepoint;
+          const [scaleX, scaleY, scaleZ] = modelPixelScale;
 
-      // Clamp pixel coordinates to valid range
-      const clampedX = Math.max(0, Math.min(width - 1, pixelX));
-      const clampedY = Math.max(0, Math.min(height - 1, pixelY));
+          // Invert the transformation: pixel = (geo - geoOrigin) / scale + tiePoint
+          const rasterX = (x - geoX) / scaleX + tieI;
+          const rasterY = (geoY - y) / scaleY + tieJ; // Note: Y is typically inverted
 
-      // Calculate array index (raster data is stored row by row, top to bottom)
-      const index = clampedY * width + clampedX;
+          return { pixelX: Math.floor(rasterX), pixelY: Math.floor(rasterY), rasterX, rasterY };
+        } else {
+          // Fallback: use bounding box (assumes north-up, west-left orientation)
+          const rasterX = ((x - minX) / (maxX - minX)) * width;
+          const rasterY = ((maxY - y) / (maxY - minY)) * height;
 
-      // Get elevation value from raster data
-      let elevation = elevationData[index];
+          return { pixelX: Math.floor(rasterX), pixelY: Math.floor(rasterY), rasterX, rasterY };
+        }
+      };
 
-      // Handle no-data values
-      if (noDataValue !== null && noDataValue !== undefined && elevation === noDataValue) {
-        elevation = null;
-      } else if (isNaN(elevation) || !isFinite(elevation)) {
-        elevation = null;
+      // Blocks of the raster the profile reads: the search radius around each point, and the
+      // pixels interpolation uses next to it
+      const blockIndexes = new Set();
+      const blocksAcross = Math.ceil(width / DTM_BLOCK_SIZE);
+      for (const [lon, lat] of points) {
+        const radiusDegLat = radius / 111320;
+        const radiusDegLon = radius / (111320 * Math.cos(lat * Math.PI / 180));
+        const pixels = [
+          geoToPixel(lon, lat),
+          geoToPixel(lon - radiusDegLon, lat - radiusDegLat),
+          geoToPixel(lon + radiusDegLon, lat + radiusDegLat)
+        ].filter(Boolean);
+        if (pixels.length === 0) continue;
+        const x0 = Math.max(0, Math.min(...pixels.map(p => p.pixelX)) - 2);
+        const x1 = Math.min(width - 1, Math.max(...pixels.map(p => p.pixelX)) + 2);
+        const y0 = Math.max(0, Math.min(...pixels.map(p => p.pixelY)) - 2);
+        const y1 = Math.min(height - 1, Math.max(...pixels.map(p => p.pixelY)) + 2);
+        if (x0 > x1 || y0 > y1) continue; // Off this DTM
+        for (let by = Math.floor(y0 / DTM_BLOCK_SIZE); by <= Math.floor(y1 / DTM_BLOCK_SIZE); by++) {
+          for (let bx = Math.floor(x0 / DTM_BLOCK_SIZE); bx <= Math.floor(x1 / DTM_BLOCK_SIZE); bx++) {
+            blockIndexes.add(by * blocksAcross + bx);
+          }
+        }
       }
+      const readPixel = await getDtmBlocks(dtm, blockIndexes);
 
-      return elevation !== null ? elevation : null;
-    };
+      // Read a single pixel, returning null for no-data, invalid or out-of-range pixels
+      const getPixelValue = (px, py) => {
+        if (px < 0 || px >= width || py < 0 || py >= height) {
+          return null;
+        }
+        const value = readPixel(px, py);
+        if (noDataValue !== null && noDataValue !== undefined && value === noDataValue) {
+          return null;
+        }
+        if (isNaN(value) || !isFinite(value)) {
+          return null;
+        }
+        return value;
+      };
 
-    // Calculate min and max elevation within a given radius (in meters)
-    const getMinMaxElevationInRadius = (centerLon, centerLat, radiusMeters) => {
-      // Convert radius from meters to degrees (approximate)
-      // At equator: 1 degree ≈ 111,320 meters
-      // Adjust for latitude: degrees_lon = meters / (111,320 * cos(lat))
-      // degrees_lat = meters / 111,320
-      const metersPerDegreeLat = 111320;
-      const metersPerDegreeLon = 111320 * Math.cos(centerLat * Math.PI / 180);
-
-      const radiusDegLat = radiusMeters / metersPerDegreeLat;
-      const radiusDegLon = radiusMeters / metersPerDegreeLon;
-
-      // Calculate bounding box for the circular area
-      const minLon = centerLon - radiusDegLon;
-      const maxLon = centerLon + radiusDegLon;
-      const minLat = centerLat - radiusDegLat;
-      const maxLat = centerLat + radiusDegLat;
-
-      // Convert bounding box corners to pixels
-      const minPixel = geoToPixel(minLon, minLat);
-      const maxPixel = geoToPixel(maxLon, maxLat);
-
-      if (!minPixel || !maxPixel) {
-        return { min: null, max: null };
-      }
+      // Bilinear interpolation between the four surrounding pixel centres
+      // Void pixels are dropped and the remaining weights renormalised, so a single
+      // no-data pixel doesn't pull the result towards the no-data value
+      const sampleBilinear = (rasterX, rasterY) => {
+        const u = rasterX - 0.5;
+        const v = rasterY - 0.5;
+        const x0 = Math.floor(u);
+        const y0 = Math.floor(v);
+        const fx = u - x0;
+        const fy = v - y0;
+
+        let sum = 0;
+        let weightSum = 0;
+        const neighbours = [
+          [x0, y0, (1 - fx) * (1 - fy)],
+          [x0 + 1, y0, fx * (1 - fy)],
+          [x0, y0 + 1, (1 - fx) * fy],
+          [x0 + 1, y0 + 1, fx * fy]
+        ];
+        for (const [px, py, weight] of neighbours) {
+          const value = getPixelValue(
+            Math.max(0, Math.min(width - 1, px)),
+            Math.max(0, Math.min(height - 1, py))
+          );
+          if (value === null || weight === 0) continue;
+          sum += value * weight;
+          weightSum += weight;
+        }
 
-      // Get pixel bounds to sample
-      const minPixelX = Math.max(0, Math.min(width - 1, minPixel.pixelX));
-      const maxPixelX = Math.max(0, Math.min(width - 1, maxPixel.pixelX));
-      const minPixelY = Math.max(0, Math.min(height - 1, minPixel.pixelY));
-      const maxPixelY = Math.max(0, Math.min(height - 1, maxPixel.pixelY));
-
-      // Sample pixels within the bounding box and check if they're within radius
-      let minElevation = Infinity;
-      let maxElevation = -Infinity;
-      let hasValidData = false;
-
-      // Calculate center pixel for distance checking
-      const centerPixel = geoToPixel(centerLon, centerLat);
-      if (!centerPixel) {
-        return { min: null, max: null };
-      }
+        return weightSum > 0 ? sum / weightSum : null;
+      };
 
-      // Estimate pixel resolution for efficient sampling
-      // Calculate approximate meters per pixel
-      let metersPerPixelX, metersPerPixelY;
-      if (modelPixelScale) {
-        const [scaleX, scaleY] = modelPixelScale;
-        // Scale is in units per pixel - convert to meters if needed
-        // For geographic coordinates, we need to account for latitude
-        if (isProjected) {
-          metersPerPixelX = scaleX;
-          metersPerPixelY = scaleY;
-        } else {
-          // Approximate conversion for geographic coordinates
-          metersPerPixelX = scaleX * 111320 * Math.cos(centerLat * Math.PI / 180);
-          metersPerPixelY = scaleY * 111320;
+      // Cubic convolution kernel (Catmull-Rom, a = -0.5)
+      const cubicWeight = (t) => {
+        const a = -0.5;
+        const x = Math.abs(t);
+        if (x <= 1) return (a + 2) * x * x * x - (a + 3) * x * x + 1;
+        if (x < 2) return a * x * x * x - 5 * a * x * x + 8 * a * x - 4 * a;
+        return 0;
+      };
+
+      // Bicubic interpolation over the surrounding 4x4 pixels
+      // Falls back to bilinear when any of them is void, since the kernel's negative lobes
+      // would otherwise amplify the gap into a spike
+      const sampleBicubic = (rasterX, rasterY) => {
+        const u = rasterX - 0.5;
+        const v = rasterY - 0.5;
+        const x0 = Math.floor(u);
+        const y0 = Math.floor(v);
+        const fx = u - x0;
+        const fy = v - y0;
+
+        let sum = 0;
+        for (let j = -1; j <= 2; j++) {
+          const wy = cubicWeight(j - fy);
+          for (let i = -1; i <= 2; i++) {
+            const value = getPixelValue(
+              Math.max(0, Math.min(width - 1, x0 + i)),
+              Math.max(0, Math.min(height - 1, y0 + j))
+            );
+            if (value === null) {
+              return sampleBilinear(rasterX, rasterY);
+            }
+            sum += value * cubicWeight(i - fx) * wy;
+          }
+        }
+        return sum;
+      };
+
+      // Sample elevation at a coordinate
+      const sampleElevation = (lon, lat) => {
+        const pixel = geoToPixel(lon, lat);
+        if (!pixel) {
+          return null;
+        }
+
+        const { pixelX, pixelY, rasterX, rasterY } = pixel;
+
+        if (interpolationMethod === 'bilinear' || interpolationMethod === 'bicubic') {
+          const interpolated = interpolationMethod === 'bicubic'
+            ? sampleBicubic(rasterX, rasterY)
+            : sampleBilinear(rasterX, rasterY);
+          if (interpolated !== null) {
+            return interpolated;
+          }
+          // All neighbours void - fall through to the nearest-pixel lookup
+        }
+
+        // Clamp pixel coordinates to valid range
+        const clampedX = Math.max(0, Math.min(width - 1, pixelX));
+        const clampedY = Math.max(0, Math.min(height - 1, pixelY));
+
+        // Get elevation value from raster data
+        let elevation = readPixel(clampedX, clampedY);
+
+        // Handle no-data values
+        if (noDataValue !== null && noDataValue !== undefined && elevation === noDataValue) {
+          elevation = null;
+        } else if (isNaN(elevation) || !isFinite(elevation)) {
+          elevation = null;
         }
-      } else {
-        // Fallback: estimate from bounding box
-        const pixelWidth = maxX - minX;
-        const pixelHeight = maxY - minY;
-        if (isProjected) {
-          metersPerPixelX = pixelWidth / width;
-          metersPerPixelY = pixelHeight / height;
+
+        return elevation !== null ? elevation : null;
+      };
+
+      // Calculate min and max elevation within a given radius (in meters)
+      const getMinMaxElevationInRadius = (centerLon, centerLat, radiusMeters) => {
+        // Convert radius from meters to degrees (approximate)
+        // At equator: 1 degree ≈ 111,320 meters
+        // Adjust for latitude: degrees_lon = meters / (111,320 * cos(lat))
+        // degrees_lat = meters / 111,320
+        const metersPerDegreeLat = 111320;
+        const metersPerDegreeLon = 111320 * Math.cos(centerLat * Math.PI / 180);
+
+        const radiusDegLat = radiusMeters / metersPerDegreeLat;
+        const radiusDegLon = radiusMeters / metersPerDegreeLon;
+
+        // Calculate bounding box for the circular area
+        const minLon = centerLon - radiusDegLon;
+        const maxLon = centerLon + radiusDegLon;
+        const minLat = centerLat - radiusDegLat;
+        const maxLat = centerLat + radiusDegLat;
+
+        // Convert bounding box corners to pixels
+        const minPixel = geoToPixel(minLon, minLat);
+        const maxPixel = geoToPixel(maxLon, maxLat);
+
+        if (!minPixel || !maxPixel) {
+          return { min: null, max: null };
+        }
+
+        // Get pixel bounds to sample
+        const minPixelX = Math.max(0, Math.min(width - 1, minPixel.pixelX));
+        const maxPixelX = Math.max(0, Math.min(width - 1, maxPixel.pixelX));
+        const minPixelY = Math.max(0, Math.min(height - 1, minPixel.pixelY));
+        const maxPixelY = Math.max(0, Math.min(height - 1, maxPixel.pixelY));
+
+        // Sample pixels within the bounding box and check if they're within radius
+        let minElevation = Infinity;
+        let maxElevation = -Infinity;
+        let hasValidData = false;
+
+        // Calculate center pixel for distance checking
+        const centerPixel = geoToPixel(centerLon, centerLat);
+        if (!centerPixel) {
+          return { min: null, max: null };
+        }
+
+        // Estimate pixel resolution for efficient sampling
+        // Calculate approximate meters per pixel
+        let metersPerPixelX, metersPerPixelY;
+        if (modelPixelScale) {
+          const [scaleX, scaleY] = modelPixelScale;
+          // Scale is in units per pixel - convert to meters if needed
+          // For geographic coordinates, we need to account for latitude
+          if (isProjected) {
+            metersPerPixelX = scaleX;
+            metersPerPixelY = scaleY;
+          } else {
+            // Approximate conversion for geographic coordinates
+            metersPerPixelX = scaleX * 111320 * Math.cos(centerLat * Math.PI / 180);
+            metersPerPixelY = scaleY * 111320;
+          }
         } else {
-          metersPerPixelX = (pixelWidth / width) * 111320 * Math.cos(centerLat * Math.PI / 180);
-          metersPerPixelY = (pixelHeight / height) * 111320;
+          // Fallback: estimate from bounding box
+          const pixelWidth = maxX - minX;
+          const pixelHeight = maxY - minY;
+          if (isProjected) {
+            metersPerPixelX = pixelWidth / width;
+            metersPerPixelY = pixelHeight / height;
+          } else {
+            metersPerPixelX = (pixelWidth / width) * 111320 * Math.cos(centerLat * Math.PI / 180);
+            metersPerPixelY = (pixelHeight / height) * 111320;
+          }
         }
-      }
 
-      // Calculate step size to sample approximately 100-200 points within radius
-      const estimatedPixelsInRadius = Math.max(10, Math.min(200, (radiusMeters / Math.min(metersPerPixelX, metersPerPixelY))));
-      const stepSize = Math.max(1, Math.floor(Math.sqrt((maxPixelX - minPixelX) * (maxPixelY - minPixelY) / estimatedPixelsInRadius)));
-
-      // Sample pixels with step size
-      for (let py = minPixelY; py <= maxPixelY; py += stepSize) {
-        for (let px = minPixelX; px <= maxPixelX; px += stepSize) {
-          // Convert pixel back to geographic coordinates to check distance
-          let sampleLon, sampleLat;
-
-          if (modelPixelScale && modelTiepoint) {
-            const [tieI, tieJ, tieK, geoX, geoY, geoZ] = modelTiepoint;
-            const [scaleX, scaleY, scaleZ] = modelPixelScale;
-
-            // Convert pixel to geo coordinates
-            const geoX_coord = (px - tieI) * scaleX + geoX;
-            const geoY_coord = geoY - (py - tieJ) * scaleY;
-
-            // Transform back to WGS84 if needed
-            if (isProjected && sourceProj) {
-              try {
-                [sampleLon, sampleLat] = proj4(sourceProj, 'EPSG:4326', [geoX_coord, geoY_coord]);
-              } catch (e) {
-                continue;
+        // Calculate step size to sample approximately 100-200 points within radius
+        const estimatedPixelsInRadius = Math.max(10, Math.min(200, (radiusMeters / Math.min(metersPerPixelX, metersPerPixelY))));
+        const stepSize = Math.max(1, Math.floor(Math.sqrt((maxPixelX - minPixelX) * (maxPixelY - minPixelY) / estimatedPixelsInRadius)));
+
+        // Sample pixels with step size
+        for (let py = minPixelY; py <= maxPixelY; py += stepSize) {
+          for (let px = minPixelX; px <= maxPixelX; px += stepSize) {
+            // Convert pixel back to geographic coordinates to check distance
+            let sampleLon, sampleLat;
+
+            if (modelPixelScale && modelTiepoint) {
+              const [tieI, tieJ, tieK, geoX, geoY, geoZ] = modelTiepoint;
+              const [scaleX, scaleY, scaleZ] = modelPixelScale;
+
+              // Convert pixel to geo coordinates
+              const geoX_coord = (px - tieI) * scaleX + geoX;
+              const geoY_coord = geoY - (py - tieJ) * scaleY;
+
+              // Transform back to WGS84 if needed
+              if (toSource) {
+                try {
+                  [sampleLon, sampleLat] = toSource.inverse([geoX_coord, geoY_coord]);
+                } catch (e) {
+                  continue;
+                }
+              } else {
+                sampleLon = geoX_coord;
+                sampleLat = geoY_coord;
               }
             } else {
-              sampleLon = geoX_coord;
-              sampleLat = geoY_coord;
+              // Fallback: use bounding box interpolation
+              sampleLon = minX + ((px / width) * (maxX - minX));
+              sampleLat = maxY - ((py / height) * (maxY - minY));
             }
-          } else {
-            // Fallback: use bounding box interpolation
-            sampleLon = minX + ((px / width) * (maxX - minX));
-            sampleLat = maxY - ((py / height) * (maxY - minY));
-          }
 
-          // Check if this pixel is within the circular radius
-          const distance = calculateDistance([centerLon, centerLat], [sampleLon, sampleLat]);
-          if (distance > radiusMeters) {
-            continue; // Skip pixels outside the radius
-          }
+            // Check if this pixel is within the circular radius
+            const distance = calculateDistance([centerLon, centerLat], [sampleLon, sampleLat]);
+            if (distance > radiusMeters) {
+              continue; // Skip pixels outside the radius
+            }
 
-          // Get elevation at this pixel
-          const index = py * width + px;
-          if (index < 0 || index >= elevationData.length) continue;
+            // Get elevation at this pixel
+            let elevation = readPixel(px, py);
+            if (elevation === undefined) continue;
 
-          let elevation = elevationData[index];
+            // Handle no-data values
+            if (noDataValue !== null && noDataValue !== undefined && elevation === noDataValue) {
+              continue;
+            }
+            if (isNaN(elevation) || !isFinite(elevation)) {
+              continue;
+            }
 
-          // Handle no-data values
-          if (noDataValue !== null && noDataValue !== undefined && elevation === noDataValue) {
-            continue;
-          }
-          if (isNaN(elevation) || !isFinite(elevation)) {
-            continue;
+            // Update min/max
+            if (elevation < minElevation) minElevation = elevation;
+            if (elevation > maxElevation) maxElevation = elevation;
+            hasValidData = true;
           }
+        }
 
-          // Update min/max
-          if (elevation < minElevation) minElevation = elevation;
-          if (elevation > maxElevation) maxElevation = elevation;
-          hasValidData = true;
+        // Also check immediate neighbors of center pixel for accuracy
+        const centerX = Math.round(centerPixel.pixelX);
+        const centerY = Math.round(centerPixel.pixelY);
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            const px = centerX + dx;
+            const py = centerY + dy;
+            if (px < 0 || px >= width || py < 0 || py >= height) continue;
+
+            let elevation = readPixel(px, py);
+            if (elevation === undefined) continue;
+            if (noDataValue !== null && noDataValue !== undefined && elevation === noDataValue) continue;
+            if (isNaN(elevation) || !isFinite(elevation)) continue;
+
+            if (elevation < minElevation) minElevation = elevation;
+            if (elevation > maxElevation) maxElevation = elevation;
+            hasValidData = true;
+          }
         }
-      }
 
-      // Also check immediate neighbors of center pixel for accuracy
-      const centerX = Math.round(centerPixel.pixelX);
-      const centerY = Math.round(centerPixel.pixelY);
-      for (let dy = -2; dy <= 2; dy++) {
-        for (let dx = -2; dx <= 2; dx++) {
-          const px = centerX + dx;
-          const py = centerY + dy;
-          if (px < 0 || px >= width || py < 0 || py >= height) continue;
-
-          const index = py * width + px;
-          if (index < 0 || index >= elevationData.length) continue;
-
-          let elevation = elevationData[index];
-          if (noDataValue !== null && noDataValue !== undefined && elevation === noDataValue) continue;
-          if (isNaN(elevation) || !isFinite(elevation)) continue;
-
-          if (elevation < minElevation) minElevation = elevation;
-          if (elevation > maxElevation) maxElevation = elevation;
-          hasValidData = true;
+        if (!hasValidData) {
+          return { min: null, max: null };
         }
-      }
 
-      if (!hasValidData) {
-        return { min: null, max: null };
-      }
+        return { min: minElevation, max: maxElevation };
+      };
 
-      return { min: minElevation, max: maxElevation };
+      // Whether a coordinate falls on this DTM's raster
+      const covers = (lon, lat) => {
+        const pixel = geoToPixel(lon, lat);
+        return pixel !== null &&
+          pixel.rasterX >= 0 && pixel.rasterX < width &&
+          pixel.rasterY >= 0 && pixel.rasterY < height;
+      };
+
+      return { filename: dtm.filename, extent: dtm.extent, covers, sampleElevation, getMinMaxElevationInRadius };
     };
 
     // Generate sampling points along the entire path
@@ -742,6 +1545,59 @@ app.post('/api/elevation-profile', async (req, res) => {
 
     console.log(`Generated ${allPoints.length} sampling points along the path`);
 
+    // Only sample the DTMs the path (plus search radius) actually crosses
+    const radiusDegrees = radius / (111320 * Math.cos(coordinates[0][1] * Math.PI / 180));
+    const pathLons = coordinates.map(c => c[0]);
+    const pathLats = coordinates.map(c => c[1]);
+    const pathMinLon = Math.min(...pathLons) - radiusDegrees;
+    const pathMaxLon = Math.max(...pathLons) + radiusDegrees;
+    const pathMinLat = Math.min(...pathLats) - radiusDegrees;
+    const pathMaxLat = Math.max(...pathLats) + radiusDegrees;
+    const samplers = await Promise.all(
+      dtms
+        .filter(({ extent }) =>
+          extent.maxLon >= pathMinLon && extent.minLon <= pathMaxLon &&
+          extent.maxLat >= pathMinLat && extent.minLat <= pathMaxLat
+        )
+        .map(dtm => createSampler(dtm, allPoints))
+    );
+
+    // DTMs whose extent comes within radiusMeters of a coordinate
+    const getNearbySamplers = (lon, lat, radiusMeters) => {
+      const radiusDegLat = radiusMeters / 111320;
+      const radiusDegLon = radiusMeters / (111320 * Math.cos(lat * Math.PI / 180));
+      return samplers.filter(({ extent }) =>
+        lon + radiusDegLon >= extent.minLon && lon - radiusDegLon <= extent.maxLon &&
+        lat + radiusDegLat >= extent.minLat && lat - radiusDegLat <= extent.maxLat
+      );
+    };
+
+    // Sample the mosaic - the first DTM covering the point with valid data wins, so
+    // overlapping tiles fill each other's voids
+    const sampleMosaicElevation = (lon, lat) => {
+      for (const sampler of getNearbySamplers(lon, lat, 0)) {
+        if (!sampler.covers(lon, lat)) continue;
+        const elevation = sampler.sampleElevation(lon, lat);
+        if (elevation !== null) {
+          return elevation;
+        }
+      }
+      return null;
+    };
+
+    // Min/max within the radius across every DTM the search circle touches
+    const getMosaicMinMaxElevationInRadius = (lon, lat, radiusMeters) => {
+      let min = null;
+      let max = null;
+      for (const sampler of getNearbySamplers(lon, lat, radiusMeters)) {
+        const result = sampler.getMinMaxElevationInRadius(lon, lat, radiusMeters);
+        if (result.min === null || result.max === null) continue;
+        min = min === null ? result.min : Math.min(min, result.min);
+        max = max === null ? result.max : Math.max(max, result.max);
+      }
+      return { min, max };
+    };
+
     // Sample elevation at all points
     const profile = [];
     let cumulativeDistance = 0;
@@ -755,14 +1611,14 @@ app.post('/api/elevation-profile', async (req, res) => {
       }
 
       // Sample elevation at the point
-      const elevation = sampleElevation(lon, lat);
+      const elevation = sampleMosaicElevation(lon, lat);
 
       // Calculate min/max elevation within radius
       let minElevation = undefined;
       let maxElevation = undefined;
 
       try {
-        const result = getMinMaxElevationInRadius(lon, lat, radius);
+        const result = getMosaicMinMaxElevationInRadius(lon, lat, radius);
         if (result.min !== null && result.max !== null) {
           minElevation = result.min;
           maxElevation = result.max;
@@ -778,7 +1634,8 @@ app.post('/api/elevation-profile', async (req, res) => {
         longitude: lon,
         latitude: lat,
         minElevation: minElevation,
-        maxElevation: maxElevation
+        maxElevation: maxElevation,
+        ...(geoid && { geoidUndulation: sampleGeoidUndulation(geoid, lon, lat) })
       });
     }
 
@@ -801,7 +1658,7 @@ app.post('/api/elevation-profile', async (req, res) => {
     res.json({ profile });
   } catch (error) {
     console.error('Error calculating elevation profile:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       error: error.message,
       stack: error.stack
     });
@@ -0,0 +1,444 @@
+import { inflateRawSync } from 'zlib';
+import proj4 from 'proj4';
+import initSqlJs from 'sql.js';
+import { resolveProjection } from './projections.js';
+
+// Vector reference layers
+// Survey boundaries and lines arrive as zipped Shapefiles or GeoPackages. Their
+// polygon and line features are read here, reprojected to WGS84 with the projection
+// registry, and returned as GeoJSON-style features. Point layers are skipped.
+
+const SQL = initSqlJs();
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_FLAG_ENCRYPTED = 0x1;
+// Sizes, offsets and counts saturate at these values when the real ones are in a ZIP64 record
+const ZIP64_MARKER_16 = 0xffff;
+const ZIP64_MARKER_32 = 0xffffffff;
+
+const ZIP64_ERROR = 'ZIP64 archives are not supported - zip the files again without ZIP64';
+
+// Read the files of a ZIP archive (stored or deflated entries) into a Map by path
+// Sizes come from the central directory, so entries streamed with a data descriptor
+// after their data read like any other
+const readZip = (buffer) => {
+  let endOffset = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive, or the upload is truncated');
+  }
+
+  const files = new Map();
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  if (entryCount === ZIP64_MARKER_16 || offset === ZIP64_MARKER_32) {
+    throw new Error(ZIP64_ERROR);
+  }
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > endOffset || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) continue;
+    if (compressedSize === ZIP64_MARKER_32 || size === ZIP64_MARKER_32 || localOffset === ZIP64_MARKER_32) {
+      throw new Error(ZIP64_ERROR);
+    }
+    if (flags & ZIP_FLAG_ENCRYPTED) {
+      throw new Error(`${name} is encrypted - zip the files again without a password`);
+    }
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      throw new Error(`Corrupt ZIP entry ${name}`);
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      throw new Error(`The ZIP archive is truncated - ${name} is incomplete. Upload it again`);
+    }
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      try {
+        files.set(name, inflateRawSync(data));
+      } catch (error) {
+        throw new Error(`${name} can't be decompressed: ${error.message}`);
+      }
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+  }
+  return files;
+};
+
+// Shapefile shape types, with their Z and M variants
+const SHAPE_POLYLINE = [3, 13, 23];
+const SHAPE_POLYGON = [5, 15, 25];
+
+// Clockwise rings are outer rings in a Shapefile, counter-clockwise rings are holes
+const isClockwise = (ring) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += (ring[i + 1][0] - ring[i][0]) * (ring[i + 1][1] + ring[i][1]);
+  }
+  return sum > 0;
+};
+
+// Read the parts of a PolyLine or Polygon record as arrays of [x, y]
+const readShapeParts = (view, start) => {
+  const numParts = view.getInt32(start + 36, true);
+  const numPoints = view.getInt32(start + 40, true);
+  const pointsStart = start + 44 + numParts * 4;
+  const parts = [];
+  for (let part = 0; part < numParts; part++) {
+    const first = view.getInt32(start + 44 + part * 4, true);
+    const last = part + 1 < numParts ? view.getInt32(start + 44 + (part + 1) * 4, true) : numPoints;
+    const coordinates = [];
+    for (let i = first; i < last; i++) {
+      coordinates.push([view.getFloat64(pointsStart + i * 16, true), view.getFloat64(pointsStart + i * 16 + 8, true)]);
+    }
+    parts.push(coordinates);
+  }
+  return parts;
+};
+
+// Group Shapefile rings into polygons: each clockwise ring starts a polygon, the
+// counter-clockwise rings after it are its holes
+const ringsToGeometry = (rings) => {
+  const polygons = [];
+  rings.forEach(ring => {
+    if (isClockwise(ring) || polygons.length === 0) {
+      polygons.push([ring]);
+    } else {
+      polygons[polygons.length - 1].push(ring);
+    }
+  });
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+};
+
+// Read the geometries of a .shp file (null for skipped records)
+const readShp = (buffer) => {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const geometries = [];
+  let offset = 100;
+  while (offset + 8 <= buffer.length) {
+    const contentLength = view.getInt32(offset + 4) * 2;
+    const start = offset + 8;
+    const shapeType = view.getInt32(start, true);
+
+    if (SHAPE_POLYLINE.includes(shapeType)) {
+      const parts = readShapeParts(view, start);
+      geometries.push(parts.length === 1
+        ? { type: 'LineString', coordinates: parts[0] }
+        : { type: 'MultiLineString', coordinates: parts });
+    } else if (SHAPE_POLYGON.includes(shapeType)) {
+      geometries.push(ringsToGeometry(readShapeParts(view, start)));
+    } else {
+      geometries.push(null);
+    }
+    offset = start + contentLength;
+  }
+  return geometries;
+};
+
+// Read the attribute records of a .dbf file
+const readDbf = (buffer) => {
+  const recordCount = buffer.readUInt32LE(4);
+  const headerLength = buffer.readUInt16LE(8);
+  const recordLength = buffer.readUInt16LE(10);
+
+  const fields = [];
+  for (let offset = 32; offset < headerLength - 1 && buffer[offset] !== 0x0d; offset += 32) {
+    fields.push({
+      name: buffer.toString('latin1', offset, offset + 11).replace(/\0.*$/, ''),
+      type: String.fromCharCode(buffer[offset + 11]),
+      length: buffer[offset + 16]
+    });
+  }
+
+  const records = [];
+  for (let i = 0; i < recordCount; i++) {
+    let offset = headerLength + i * recordLength + 1; // Skip the deletion flag
+    const record = {};
+    fields.forEach(field => {
+      const text = buffer.toString('utf8', offset, offset + field.length).trim();
+      offset += field.length;
+      if (field.type === 'N' || field.type === 'F') {
+        record[field.name] = text === '' ? null : Number(text);
+      } else if (field.type === 'L') {
+        record[field.name] = /^[YyTt]$/.test(text) ? true : /^[NnFf]$/.test(text) ? false : null;
+      } else {
+        record[field.name] = text;
+      }
+    });
+    records.push(record);
+  }
+  return records;
+};
+
+// GeoPackage geometry blob: "GP" header with an optional envelope, followed by WKB
+const ENVELOPE_SIZES = [0, 32, 48, 48, 64];
+
+const readGpkgGeometry = (blob) => {
+  const buffer = Buffer.from(blob);
+  if (buffer.length < 8 || buffer[0] !== 0x47 || buffer[1] !== 0x50) {
+    throw new Error('Not a GeoPackage geometry');
+  }
+  const flags = buffer[3];
+  if (flags & 0x10) {
+    return null; // Empty geometry
+  }
+  const envelopeSize = ENVELOPE_SIZES[(flags >> 1) & 0x07] ?? 0;
+  return readWkb(buffer, 8 + envelopeSize).geometry;
+};
+
+// WKB geometry types, ignoring Z/M variants
+const WKB_TYPES = {
+  1: 'Point',
+  2: 'LineString',
+  3: 'Polygon',
+  4: 'MultiPoint',
+  5: 'MultiLineString',
+  6: 'MultiPolygon',
+  7: 'GeometryCollection'
+};
+
+// Parse a WKB geometry (ISO and EWKB Z/M flavours) into a GeoJSON geometry
+const readWkb = (buffer, start) => {
+  let offset = start;
+  const littleEndian = buffer[offset] === 1;
+  const readUInt32 = () => {
+    const value = littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  };
+  const readDouble = () => {
+    const value = littleEndian ? buffer.readDoubleLE(offset) : buffer.readDoubleBE(offset);
+    offset += 8;
+    return value;
+  };
+  offset += 1;
+
+  const rawType = readUInt32();
+  const isoType = rawType & 0x0fffffff;
+  const baseType = isoType % 1000;
+  const isoDimensions = Math.floor(isoType / 1000);
+  const hasZ = (rawType & 0x80000000) !== 0 || isoDimensions === 1 || isoDimensions === 3;
+  const hasM = (rawType & 0x40000000) !== 0 || isoDimensions === 2 || isoDimensions === 3;
+  const dimensions = 2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0);
+
+  const readPoint = () => {
+    const x = readDouble();
+    const y = readDouble();
+    offset += (dimensions - 2) * 8;
+    return [x, y];
+  };
+  const readPoints = () => Array.from({ length: readUInt32() }, readPoint);
+  const readMembers = () => Array.from({ length: readUInt32() }, () => {
+    const member = readWkb(buffer, offset);
+    offset = member.offset;
+    return member.geometry;
+  });
+
+  const type = WKB_TYPES[baseType];
+  let geometry;
+  switch (type) {
+    case 'Point':
+      geometry = { type, coordinates: readPoint() };
+      break;
+    case 'LineString':
+    case 'MultiPoint':
+      geometry = type === 'LineString'
+        ? { type, coordinates: readPoints() }
+        : { type, coordinates: readMembers().map(point => point.coordinates) };
+      break;
+    case 'Polygon':
+      geometry = { type, coordinates: Array.from({ length: readUInt32() }, readPoints) };
+      break;
+    case 'MultiLineString':
+    case 'MultiPolygon':
+      geometry = { type, coordinates: readMembers().map(member => member.coordinates) };
+      break;
+    case 'GeometryCollection':
+      geometry = { type, geometries: readMembers() };
+      break;
+    default:
+      throw new Error(`Unsupported WKB geometry type ${rawType}`);
+  }
+  return { geometry, offset };
+};
+
+// Split geometry collections and keep the line and polygon geometries
+const LINE_AND_POLYGON_TYPES = ['LineString', 'MultiLineString', 'Polygon', 'MultiPolygon'];
+
+const flattenGeometry = (geometry) => {
+  if (!geometry) return [];
+  if (geometry.type === 'GeometryCollection') {
+    return geometry.geometries.flatMap(flattenGeometry);
+  }
+  return LINE_AND_POLYGON_TYPES.includes(geometry.type) ? [geometry] : [];
+};
+
+// Apply a point transform to every coordinate of a line or polygon geometry
+const transformGeometry = (geometry, transform) => {
+  const depth = { LineString: 1, MultiLineString: 2, Polygon: 2, MultiPolygon: 3 }[geometry.type];
+  const map = (coordinates, level) =>
+    level === 0 ? transform(coordinates) : coordinates.map(child => map(child, level - 1));
+  return { type: geometry.type, coordinates: map(geometry.coordinates, depth) };
+};
+
+// Transform from a source CRS to WGS84 lon/lat (identity for geographic data)
+const getTransform = (projection) => {
+  if (!projection || projection.code === 'EPSG:4326') {
+    return (point) => point;
+  }
+  const converter = proj4(projection.definition, 'EPSG:4326');
+  return (point) => converter.forward(point);
+};
+
+// Build a layer from source-CRS features, reprojected to WGS84
+const buildLayer = (name, projection, sourceFeatures) => {
+  const transform = getTransform(projection);
+  let skipped = 0;
+  const features = [];
+  sourceFeatures.forEach(({ geometry, properties }) => {
+    const geometries = flattenGeometry(geometry);
+    if (geometries.length === 0) {
+      skipped++;
+    }
+    geometries.forEach(part => {
+      features.push({ type: 'Feature', geometry: transformGeometry(part, transform), properties });
+    });
+  });
+
+  const lonLatFeature = features.find(feature => feature.geometry.coordinates.flat(Infinity).every(value => isFinite(value)));
+  if (features.length > 0 && !lonLatFeature) {
+    throw new Error(`Layer ${name} could not be reprojected`);
+  }
+
+  return {
+    name,
+    crs: projection ? { code: projection.code, name: projection.name } : null,
+    features,
+    skipped
+  };
+};
+
+// Projection of a layer without CRS information: geographic if the coordinates look like lon/lat
+const assumeGeographic = (name, features) => {
+  const looksGeographic = features.every(({ geometry }) =>
+    flattenGeometry(geometry).every(part =>
+      part.coordinates.flat(Infinity).every((value, index) => Math.abs(value) <= (index % 2 === 0 ? 180 : 90))
+    )
+  );
+  if (!looksGeographic) {
+    throw new Error(`Layer ${name} has no coordinate system (.prj) and its coordinates are not longitude/latitude`);
+  }
+  return null;
+};
+
+/**
+ * Read the polygon and line layers of a zipped Shapefile (one layer per .shp)
+ * Returns [{ name, crs, features, skipped }] with coordinates in WGS84
+ */
+export const readShapefileZip = (buffer) => {
+  const files = readZip(buffer);
+  const lowerCaseNames = new Map([...files.keys()].map(path => [path.toLowerCase(), path]));
+  const getSidecar = (base, extension) => {
+    const path = lowerCaseNames.get(`${base}.${extension}`);
+    return path ? files.get(path) : null;
+  };
+
+  const shapefiles = [...lowerCaseNames.keys()].filter(path => path.endsWith('.shp'));
+  if (shapefiles.length === 0) {
+    throw new Error('The ZIP archive contains no Shapefile (.shp)');
+  }
+
+  return shapefiles.map(shpPath => {
+    const base = shpPath.slice(0, -4);
+    const name = lowerCaseNames.get(shpPath).split('/').pop().slice(0, -4);
+    const geometries = readShp(files.get(lowerCaseNames.get(shpPath)));
+    const dbf = getSidecar(base, 'dbf');
+    const records = dbf ? readDbf(dbf) : [];
+    const sourceFeatures = geometries.map((geometry, index) => ({ geometry, properties: records[index] ?? {} }));
+
+    const prj = getSidecar(base, 'prj');
+    const projection = prj
+      ? resolveProjection(prj.toString('utf8'))
+      : assumeGeographic(name, sourceFeatures);
+    return buildLayer(name, projection, sourceFeatures);
+  });
+};
+
+// Projection of a GeoPackage spatial reference system (null for undefined/geographic systems)
+const resolveGpkgSrs = (srs) => {
+  if (!srs || srs.srs_id <= 0) {
+    return null;
+  }
+  if (String(srs.organization).toUpperCase() === 'EPSG') {
+    try {
+      return resolveProjection(`EPSG:${srs.organization_coordsys_id}`);
+    } catch {
+      // Not in the registry - fall back to the WKT definition
+    }
+  }
+  return resolveProjection(srs.definition);
+};
+
+/**
+ * Read the polygon and line layers of a GeoPackage (one layer per feature table)
+ * Returns [{ name, crs, features, skipped }] with coordinates in WGS84
+ */
+export const readGeoPackage = async (buffer) => {
+  const { Database } = await SQL;
+  const db = new Database(new Uint8Array(buffer));
+  try {
+    const query = (sql) => {
+      const [result] = db.exec(sql);
+      return result ? result.values.map(row => Object.fromEntries(row.map((value, i) => [result.columns[i], value]))) : [];
+    };
+
+    const tables = query(`
+      SELECT g.table_name, g.column_name, s.srs_id, s.organization, s.organization_coordsys_id, s.definition
+      FROM gpkg_geometry_columns g
+      LEFT JOIN gpkg_spatial_ref_sys s ON s.srs_id = g.srs_id
+    `);
+    if (tables.length === 0) {
+      throw new Error('The GeoPackage contains no feature tables');
+    }
+
+    return tables.map(table => {
+      const quote = (identifier) => `"${String(identifier).replace(/"/g, '""')}"`;
+      const rows = query(`SELECT * FROM ${quote(table.table_name)}`);
+      const sourceFeatures = rows.map(row => {
+        const { [table.column_name]: blob, ...properties } = row;
+        return { geometry: blob ? readGpkgGeometry(blob) : null, properties };
+      });
+      return buildLayer(table.table_name, resolveGpkgSrs(table), sourceFeatures);
+    });
+  } catch (error) {
+    if (/no such table/.test(error.message)) {
+      throw new Error('The file is not a GeoPackage');
+    }
+    throw error;
+  } finally {
+    db.close();
+  }
+};
@@ -1,14 +1,29 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import MapPanel from './components/MapPanel';
 import ElevationProfile from './components/ElevationProfile';
-import { useFlightPath } from './hooks/useFlightPath';
-import { useElevationProfile } from './hooks/useElevationProfile';
+import GeoJSONImportDialog from './components/GeoJSONImportDialog';
+import ProjectDialog from './components/ProjectDialog';
+import MissionSummary from './components/MissionSummary';
+import { NewFlightLine, useFlightPath } from './hooks/useFlightPath';
+import { requestLineProfile, useElevationProfile } from './hooks/useElevationProfile';
+import { ClearanceIssue } from './utils/clearance';
+import { getVertexAGL, getVertexAltitude, getVertexGroundElevations } from './utils/altitude';
+import { DEFAULT_VERTICAL_DATUM, VERTICAL_DATUM_LABELS, fetchDatumOffsets } from './utils/verticalDatum';
+import { WAYPOINT_FORMATS, Waypoint, WaypointFormat } from './utils/waypoints';
+import { DEFAULT_FLIGHT_PARAMETERS, MissionProject, PROJECT_VERSION, findMissingFiles, loadProject, saveProject } from './utils/project';
+import { AutosavedSession, clearAutosave, hasSessionContent, readAutosave, writeAutosave } from './utils/autosave';
+import { calculateMissionSummary } from './utils/missionSummary';
+import { TURN_STYLE_LABELS, TurnStyle, generateTurns } from './utils/turns';
+import { AIRCRAFT_PROFILES, AircraftProfile, PerformanceIssue, findAircraftPreset } from './utils/aircraft';
 import './App.css';
 
+export type AltitudeReference = 'AGL' | 'MSL';
+
 export interface Coordinate {
   lng: number;
   lat: number;
-  height?: number; // Optional flight height in meters (AGL - Above Ground Level)
+  height?: number; // Optional flight height in meters (AGL, or altitude when altitudeReference is MSL)
+  altitudeReference?: AltitudeReference; // How height is interpreted - defaults to AGL
 }
 
 export interface ElevationPoint {
@@ -17,8 +32,98 @@ export interface ElevationPoint {
   longitude: number;
   latitude: number;
   flightHeight?: number; // Interpolated flight height (AGL) at this point
+  altitudeReference?: AltitudeReference; // Altitude reference of the segment containing this point
   minElevation?: number; // Minimum elevation in DTM within radius
   maxElevation?: number; // Maximum elevation in DTM within radius
+  geoidUndulation?: number | null; // Geoid height above the ellipsoid, when a geoid grid is loaded (null outside it)
+  lineId?: string; // Flight line the point belongs to, in a profile of the whole mission
+}
+
+// A named flight line of the mission
+export interface FlightLine {
+  id: string;
+  name: string;
+  color: string;
+  defaultHeight: number | null; // AGL height of vertices without their own height (null = nominal height)
+  enabled: boolean; // Disabled lines are kept in the mission but left out of exports
+  points: Coordinate[];
+}
+
+// Ordered flight lines of a mission; editing tools act on the active line
+export interface Mission {
+  lines: FlightLine[];
+  activeLineId: string;
+}
+
+// Whether the elevation profile shows the active line or every enabled line one after another
+export type ProfileView = 'selected' | 'all';
+
+// Start of a flight line in a profile of the whole mission
+export interface ProfileLineStart {
+  distance: number;
+  name: string;
+  color: string;
+}
+
+// Orthometric heights are above the geoid (mean sea level), ellipsoidal heights above the WGS84 ellipsoid
+export type VerticalDatum = 'orthometric' | 'ellipsoidal';
+
+export interface VerticalDatumSettings {
+  dtmDatum: VerticalDatum; // Datum of the DTM elevations (and of MSL vertex altitudes)
+  outputDatum: VerticalDatum; // Datum altitudes are reported and exported in
+  geoidSource: string | null; // Uploaded geoid undulation grid, needed to convert between the two
+}
+
+export type InterpolationMethod = 'nearest' | 'bilinear' | 'bicubic';
+
+export interface SensorModel {
+  fovDegrees: number; // Full scan field of view in degrees
+  pulseRate: number; // Laser pulse repetition rate in kHz
+  scanRate: number; // Scan lines per second in Hz
+}
+
+// Flight, sensor and sampling settings of the header, saved with a mission project
+export interface FlightParameters {
+  nominalFlightHeight: number;
+  safetyHeight: number;
+  resolutionHeight: number;
+  searchRadius: number;
+  groundSpeed: number; // m/s
+  climbRate: number; // m/s
+  turnRadius: number; // m
+  turnStyle: TurnStyle; // Shape of the turns generated between lines, 'none' to leave them out
+  runInLength: number; // m
+  runOutLength: number; // m
+  aircraft: AircraftProfile;
+  interpolationMethod: InterpolationMethod;
+  sensorModel: SensorModel;
+  sidelapPercent: number;
+  targetDensity: number; // pts/m²
+}
+
+export interface HighlightedSection {
+  points: Coordinate[]; // Stretch of the path to zoom to and highlight on the map
+  color: string;
+}
+
+// Line and polygon geometries of reference layers, in WGS84 [lng, lat]
+export type ReferenceGeometry =
+  | { type: 'LineString'; coordinates: number[][] }
+  | { type: 'MultiLineString'; coordinates: number[][][] }
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+export interface ReferenceFeature {
+  geometry: ReferenceGeometry;
+  properties: Record<string, any>;
+}
+
+// Imported boundaries and lines shown on the map for reference (not part of the flight path)
+export interface ReferenceLayer {
+  id: string;
+  name: string;
+  features: ReferenceFeature[];
+  visible: boolean;
 }
 
 interface DTMInfo {
@@ -31,52 +136,517 @@ interface DTMInfo {
   };
 }
 
+// Split values listed for the vertices of several lines into one array per line
+function splitByLine<T>(values: T[], lines: FlightLine[]): T[][] {
+  let start = 0;
+  return lines.map(line => values.slice(start, start += line.points.length));
+}
+
+// Wait after the last change before writing the session to browser storage
+const AUTOSAVE_DELAY_MS = 500;
+
+// Map highlight colour of each clearance and performance issue type
+const ISSUE_COLORS: Record<ClearanceIssue['type'] | PerformanceIssue['type'], string> = {
+  safety: '#ef4444',
+  resolution: '#f97316',
+  climb: '#a21caf',
+  descent: '#a21caf',
+  ceiling: '#0ea5e9'
+};
+
+// Release DTMs from the backend session cache
+function releaseDtmCaches(paths: string[]) {
+  paths.forEach(path => {
+    const filename = path.split('/').pop();
+    if (filename) {
+      fetch(`/api/dtm/${filename}/cache`, { method: 'DELETE' }).catch(error =>
+        console.warn('Failed to release DTM cache:', error)
+      );
+    }
+  });
+}
+
 function App() {
-  const [dtmSource, setDtmSource] = useState<string | null>(null);
+  // DTMs loaded together as a mosaic, in load order
+  const [dtmSources, setDtmSources] = useState<string[]>([]);
+  // Bumped when a DTM's coordinate system changes, so its placement and samples are refreshed
+  const [dtmRevision, setDtmRevision] = useState<number>(0);
   // @ts-ignore
-  const [dtmInfo, setDtmInfo] = useState<DTMInfo | null>(null);
-  const [nominalFlightHeight, setNominalFlightHeight] = useState<number>(200);
-  const [safetyHeight, setSafetyHeight] = useState<number>(140);
-  const [resolutionHeight, setResolutionHeight] = useState<number>(270);
-  const [searchRadius, setSearchRadius] = useState<number>(50);
+  const [dtmInfo, setDtmInfo] = useState<DTMInfo[]>([]);
+  const [nominalFlightHeight, setNominalFlightHeight] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.nominalFlightHeight);
+  const [safetyHeight, setSafetyHeight] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.safetyHeight);
+  const [resolutionHeight, setResolutionHeight] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.resolutionHeight);
+  const [searchRadius, setSearchRadius] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.searchRadius);
+  const [sensorModel, setSensorModel] = useState<SensorModel>(DEFAULT_FLIGHT_PARAMETERS.sensorModel);
+  const [sidelapPercent, setSidelapPercent] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.sidelapPercent);
+  const [groundSpeed, setGroundSpeed] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.groundSpeed);
+  const [climbRate, setClimbRate] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.climbRate);
+  const [turnRadius, setTurnRadius] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.turnRadius);
+  const [turnStyle, setTurnStyle] = useState<TurnStyle>(DEFAULT_FLIGHT_PARAMETERS.turnStyle);
+  const [runInLength, setRunInLength] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.runInLength);
+  const [runOutLength, setRunOutLength] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.runOutLength);
+  const [aircraft, setAircraft] = useState<AircraftProfile>(DEFAULT_FLIGHT_PARAMETERS.aircraft);
+  const [interpolationMethod, setInterpolationMethod] = useState<InterpolationMethod>(DEFAULT_FLIGHT_PARAMETERS.interpolationMethod);
+  const [verticalDatum, setVerticalDatum] = useState<VerticalDatumSettings>(DEFAULT_VERTICAL_DATUM);
+  const [referenceLayers, setReferenceLayers] = useState<ReferenceLayer[]>([]);
+  // WGS84 extents of the loaded DTMs, for checking imported coordinates against coverage
+  const [dtmExtents, setDtmExtents] = useState<number[][]>([]);
+  const [geoJSONImportFile, setGeoJSONImportFile] = useState<File | null>(null);
+  const [waypointFormat, setWaypointFormat] = useState<WaypointFormat>('plan');
+  const [waypointFrame, setWaypointFrame] = useState<AltitudeReference>('AGL');
+  const [targetDensity, setTargetDensity] = useState<number>(DEFAULT_FLIGHT_PARAMETERS.targetDensity);
   const [selectedPoint, setSelectedPoint] = useState<Coordinate | null>(null);
+  const [highlightedSection, setHighlightedSection] = useState<HighlightedSection | null>(null);
+  const [profileView, setProfileView] = useState<ProfileView>('selected');
+  // Open mission project - an empty name means the mission hasn't been saved yet
+  const [projectName, setProjectName] = useState<string>('');
+  const [projectNotes, setProjectNotes] = useState<string>('');
+  const [projectSavedAt, setProjectSavedAt] = useState<string | null>(null);
+  const [showProjectDialog, setShowProjectDialog] = useState<boolean>(false);
+  // Current map view [minLng, minLat, maxLng, maxLat], and a saved view to show again
+  const [viewExtent, setViewExtent] = useState<number[] | null>(null);
+  const [restoreViewExtent, setRestoreViewExtent] = useState<number[] | null>(null);
+  // Session autosaved before the last reload, until the user restores or discards it
+  const [autosavedSession, setAutosavedSession] = useState<AutosavedSession | null>(() => {
+    const session = readAutosave();
+    return session && hasSessionContent(session) ? session : null;
+  });
   
   // @ts-ignore
-  const {flightPath, addPoint, addPoints,updatePoint, deletePoint, insertPoints, setFlightPath, exportGeoJSON,importGeoJSON,undo, redo, canUndo, canRedo
+  const {mission, lines, activeLine, flightPath, addPoint, addPoints,updatePoint, deletePoint, insertPoints, setFlightPath, addLine, addLines, selectLine, updateLine, deleteLine, moveLine, clearMission, loadMission, restoreMission, getHistory, exportGeoJSON,exportKML,importKML,exportWaypoints,undo, redo, canUndo, canRedo
   } = useFlightPath();
 
+  // Vertices of the active line without their own height fly at the line's default height
+  const activeLineHeight = activeLine.defaultHeight ?? nominalFlightHeight;
+  // Enabled lines with at least one segment, in flight order - these are profiled and exported
+  const missionLines = useMemo(() => lines.filter(line => line.enabled && line.points.length >= 2), [lines]);
+
   const { elevationProfile, loading, calculateProfile } = useElevationProfile();
+  const {
+    elevationProfile: missionLinesProfile,
+    loading: missionLoading,
+    calculateMissionProfile
+  } = useElevationProfile();
+
+  // A mission of just the active line reuses its profile instead of sampling it twice
+  const missionIsActiveLine = missionLines.length === 1 && missionLines[0].id === activeLine.id;
+  const missionProfile = missionIsActiveLine ? elevationProfile : missionLinesProfile;
 
   // Calculate elevation profile when flight path changes
   React.useEffect(() => {
     if (flightPath.length === 0) {
       // Clear profile when flight path is empty
-      calculateProfile([], dtmSource || '', nominalFlightHeight, searchRadius);
-    } else if (flightPath.length >= 2 && dtmSource) {
-      calculateProfile(flightPath, dtmSource, nominalFlightHeight, searchRadius);
+      calculateProfile([], dtmSources, activeLineHeight, searchRadius, interpolationMethod);
+    } else if (flightPath.length >= 2 && dtmSources.length > 0) {
+      calculateProfile(flightPath, dtmSources, activeLineHeight, searchRadius, interpolationMethod, verticalDatum.geoidSource);
+    }
+  }, [flightPath, dtmSources, dtmRevision, activeLineHeight, searchRadius, interpolationMethod, verticalDatum.geoidSource, calculateProfile]);
+
+  // Profile of every enabled line one after another, for the mission view and the swath display
+  React.useEffect(() => {
+    if (!missionIsActiveLine) {
+      calculateMissionProfile(missionLines, dtmSources, nominalFlightHeight, searchRadius, interpolationMethod, verticalDatum.geoidSource);
     }
-  }, [flightPath, dtmSource, nominalFlightHeight, searchRadius, calculateProfile]);
+  }, [missionLines, missionIsActiveLine, dtmSources, dtmRevision, nominalFlightHeight, searchRadius, interpolationMethod, verticalDatum.geoidSource, calculateMissionProfile]);
+
+  const showMission = profileView === 'all';
+  const missionPoints = useMemo(() => missionLines.flatMap(line => line.points), [missionLines]);
+
+  // Where each line starts in the mission profile
+  const lineStarts = useMemo((): ProfileLineStart[] => {
+    if (!showMission || missionIsActiveLine) return [];
+    return missionLines.flatMap(line => {
+      const start = missionProfile.find(point => point.lineId === line.id);
+      return start ? [{ distance: start.distance, name: line.name, color: line.color }] : [];
+    });
+  }, [showMission, missionLines, missionIsActiveLine, missionProfile]);
+
+  // Flyable turns between consecutive enabled lines
+  const turns = useMemo(
+    () => generateTurns(missionLines, { style: turnStyle, turnRadius, runInLength, runOutLength }),
+    [missionLines, turnStyle, turnRadius, runInLength, runOutLength]
+  );
+
+  // Lengths, flight time, climb and energy use of the enabled lines, for quoting
+  const missionSummary = useMemo(() => {
+    if (missionLines.length === 0 || missionProfile.length === 0) return null;
+    return calculateMissionSummary(missionLines, missionProfile, {
+      groundSpeed,
+      climbRate,
+      turnRadius,
+      turns: turnStyle === 'none' ? null : turns,
+      nominalFlightHeight,
+      aircraft
+    });
+  }, [missionLines, missionProfile, groundSpeed, climbRate, turnRadius, turnStyle, turns, nominalFlightHeight, aircraft]);
 
   const handlePathPointHover = useCallback((point: Coordinate | null) => {
     setSelectedPoint(point);
   }, []);
 
+  const handleIssueSelect = useCallback((issue: ClearanceIssue | PerformanceIssue) => {
+    setHighlightedSection({
+      points: issue.points,
+      color: ISSUE_COLORS[issue.type]
+    });
+  }, []);
+
+  // A preset also sets the speed, climb rate and turn radius the mission is planned with
+  const handleAircraftPresetChange = (index: number) => {
+    const preset = AIRCRAFT_PROFILES[index];
+    if (!preset) return;
+    setAircraft({ ...preset });
+    setGroundSpeed(preset.cruiseSpeed);
+    setClimbRate(preset.maxClimbRate);
+    setTurnRadius(preset.minTurnRadius);
+  };
+
   const handleDtmLoad = useCallback((source: string, info?: any) => {
-    setDtmSource(source);
+    setDtmSources(prev => prev.includes(source) ? prev : [...prev, source]);
     if (info) {
-      setDtmInfo({
-        path: source,
-        bounds: info.bounds
-      });
+      setDtmInfo(prev => [
+        ...prev.filter(dtm => dtm.path !== source),
+        { path: source, bounds: info.bounds }
+      ]);
+    }
+  }, []);
+
+  // Unload one DTM of the mosaic, or all of them when no source is given
+  const handleDtmUnload = useCallback((source?: string) => {
+    const unloaded = source ? [source] : dtmSources;
+    releaseDtmCaches(unloaded);
+    const remaining = dtmSources.filter(path => !unloaded.includes(path));
+    setDtmSources(remaining);
+    setDtmInfo(prev => prev.filter(dtm => remaining.includes(dtm.path)));
+    // Clear the mission when the last DTM is unloaded
+    if (remaining.length === 0) {
+      clearMission();
+    }
+  }, [dtmSources, clearMission]);
+
+  // Redraw the DTMs and resample the mission in the corrected coordinate system
+  const handleDtmCrsChange = useCallback(() => {
+    setDtmRevision(prev => prev + 1);
+  }, []);
+
+  // Upload a geoid undulation grid used to convert between orthometric and ellipsoidal heights
+  const handleGeoidFile = useCallback(async (file: File) => {
+    const formData = new FormData();
+    formData.append('geoid', file);
+    try {
+      const response = await fetch('/api/upload-geoid', { method: 'POST', body: formData });
+      const result = await response.json().catch(() => ({ error: 'Unknown error' }));
+      if (!response.ok) {
+        throw new Error(result.error || `Upload failed: ${response.status}`);
+      }
+      setVerticalDatum(prev => ({ ...prev, geoidSource: result.path }));
+    } catch (error) {
+      console.error('Error loading geoid grid:', error);
+      alert(`Failed to load geoid grid: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }, []);
 
-  const handleDtmUnload = useCallback(() => {
-    setDtmSource(null);
-    setDtmInfo(null);
-    // Clear all flight path points when unloading DTM
-    setFlightPath([]);
-  }, [setFlightPath]);
+  // Ground elevation under every vertex of each line, sampled from the DTM mosaic
+  const fetchLineGroundElevations = useCallback(async (exportLines: FlightLine[]): Promise<number[][]> => {
+    const profiles = await Promise.all(exportLines.map(line =>
+      requestLineProfile(line.points, dtmSources, line.defaultHeight ?? nominalFlightHeight, searchRadius, interpolationMethod)
+    ));
+    return exportLines.map((line, index) => {
+      const groundElevations = getVertexGroundElevations(line.points, profiles[index]);
+      if (groundElevations.some(elevation => elevation === null || isNaN(elevation))) {
+        throw new Error(`no terrain elevations for ${line.name}`);
+      }
+      return groundElevations as number[];
+    });
+  }, [dtmSources, nominalFlightHeight, searchRadius, interpolationMethod]);
+
+  // Export the mission with its MSL altitudes in the output datum
+  const handleExportGeoJSON = useCallback(async () => {
+    const { dtmDatum, outputDatum, geoidSource } = verticalDatum;
+    const exportLines = lines.filter(line => line.points.length >= 2);
+    if (dtmDatum === outputDatum || !exportLines.some(line => line.points.some(p => p.altitudeReference === 'MSL'))) {
+      exportGeoJSON(outputDatum);
+      return;
+    }
+
+    try {
+      const offsets = await fetchDatumOffsets(dtmDatum, outputDatum, geoidSource, exportLines.flatMap(line => line.points));
+      const lineOffsets = splitByLine(offsets, exportLines);
+      exportGeoJSON(outputDatum, Object.fromEntries(exportLines.map((line, index) => [line.id, lineOffsets[index]])));
+    } catch (error) {
+      alert(
+        `MSL altitudes can't be converted to ${VERTICAL_DATUM_LABELS[outputDatum].toLowerCase()} heights: ` +
+        `${error instanceof Error ? error.message : 'Unknown error'}.\n\n` +
+        `They are exported as ${VERTICAL_DATUM_LABELS[dtmDatum].toLowerCase()} heights instead.`
+      );
+      exportGeoJSON(dtmDatum);
+    }
+  }, [verticalDatum, lines, exportGeoJSON]);
+
+  const handleGeoJSONImport = useCallback((flightLines: NewFlightLine[] | null, referenceLayer: ReferenceLayer | null) => {
+    if (flightLines) {
+      addLines(flightLines);
+    }
+    if (referenceLayer) {
+      setReferenceLayers(prev => [...prev, referenceLayer]);
+    }
+    setGeoJSONImportFile(null);
+  }, [addLines]);
+
+  const handleCloseGeoJSONImport = useCallback(() => setGeoJSONImportFile(null), []);
+
+  // The mission with its parameters, DTMs and map view, in the project file format
+  const buildProject = useCallback((name: string, notes: string): MissionProject => ({
+    version: PROJECT_VERSION,
+    name,
+    notes,
+    savedAt: new Date().toISOString(),
+    mission,
+    parameters: {
+      nominalFlightHeight,
+      safetyHeight,
+      resolutionHeight,
+      searchRadius,
+      groundSpeed,
+      climbRate,
+      turnRadius,
+      turnStyle,
+      runInLength,
+      runOutLength,
+      aircraft,
+      interpolationMethod,
+      sensorModel,
+      sidelapPercent,
+      targetDensity
+    },
+    verticalDatum,
+    dtmSources,
+    viewExtent
+  }), [mission, nominalFlightHeight, safetyHeight, resolutionHeight, searchRadius, groundSpeed, climbRate, turnRadius, turnStyle, runInLength, runOutLength, aircraft, interpolationMethod, sensorModel, sidelapPercent, targetDensity, verticalDatum, dtmSources, viewExtent]);
+
+  /**
+   * Save the mission as a project on the backend
+   * @returns false when a project of this name exists and overwrite is not set
+   */
+  const handleSaveProject = useCallback(async (name: string, notes: string, overwrite: boolean) => {
+    const project = buildProject(name, notes);
+    const summary = await saveProject(project, overwrite);
+    if (!summary) return false;
+    setProjectName(name);
+    setProjectNotes(notes);
+    setProjectSavedAt(project.savedAt);
+    return true;
+  }, [buildProject]);
+
+  // Save the open project again, or ask for a name when the mission hasn't been saved yet
+  const handleQuickSave = useCallback(async () => {
+    if (!projectName) {
+      setShowProjectDialog(true);
+      return;
+    }
+    try {
+      await handleSaveProject(projectName, projectNotes, true);
+    } catch (error) {
+      console.error('Error saving project:', error);
+      alert(`Failed to save project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [projectName, projectNotes, handleSaveProject]);
+
+  /**
+   * Take over the parameters, DTMs and map view of a saved project (or session)
+   * @param missingFiles DTM and geoid files of the project no longer on the server, which are left out
+   */
+  const applyProject = useCallback((project: MissionProject, missingFiles: string[]) => {
+    if (missingFiles.length > 0) {
+      alert(
+        'These files of the project are no longer on the server and were left out:\n\n' +
+        missingFiles.map(path => path.split('/').pop()?.replace(/^\d+-/, '')).join('\n') +
+        '\n\nLoad them again to continue planning with them.'
+      );
+    }
+
+    const projectDtms = project.dtmSources.filter(source => !missingFiles.includes(source));
+    releaseDtmCaches(dtmSources.filter(source => !projectDtms.includes(source)));
+    setDtmSources(projectDtms);
+    setDtmInfo([]);
+
+    const { parameters } = project;
+    setNominalFlightHeight(parameters.nominalFlightHeight);
+    setSafetyHeight(parameters.safetyHeight);
+    setResolutionHeight(parameters.resolutionHeight);
+    setSearchRadius(parameters.searchRadius);
+    setGroundSpeed(parameters.groundSpeed);
+    setClimbRate(parameters.climbRate);
+    setTurnRadius(parameters.turnRadius);
+    setTurnStyle(parameters.turnStyle);
+    setRunInLength(parameters.runInLength);
+    setRunOutLength(parameters.runOutLength);
+    setAircraft(parameters.aircraft);
+    setInterpolationMethod(parameters.interpolationMethod);
+    setSensorModel(parameters.sensorModel);
+    setSidelapPercent(parameters.sidelapPercent);
+    setTargetDensity(parameters.targetDensity);
+    setVerticalDatum({
+      ...project.verticalDatum,
+      geoidSource: project.verticalDatum.geoidSource && !missingFiles.includes(project.verticalDatum.geoidSource)
+        ? project.verticalDatum.geoidSource
+        : null
+    });
+
+    setRestoreViewExtent(project.viewExtent);
+    setProjectName(project.name);
+    setProjectNotes(project.notes);
+  }, [dtmSources]);
+
+  /**
+   * Replace the mission, parameters, DTMs and map view with those of a saved project
+   * @returns false when the user keeps the current mission
+   */
+  const handleOpenProject = useCallback(async (id: string) => {
+    const hasPoints = lines.some(line => line.points.length > 0);
+    if (hasPoints && !window.confirm('Opening a project replaces the current mission, and it cannot be undone. Continue?')) {
+      return false;
+    }
+    const { project, missingFiles } = await loadProject(id);
+    applyProject(project, missingFiles);
+    loadMission(project.mission);
+    setProjectSavedAt(project.savedAt || null);
+    return true;
+  }, [lines, applyProject, loadMission]);
+
+  // Continue the autosaved session, with its undo history
+  const handleRestoreSession = useCallback(async () => {
+    if (!autosavedSession) return;
+    const { entries, index } = getHistory();
+    const current: AutosavedSession = { project: buildProject(projectName, projectNotes), history: entries, historyIndex: index };
+    if (hasSessionContent(current) && !window.confirm('Restoring the previous session replaces the work you did since opening the page. Continue?')) {
+      return;
+    }
+    const { project, history, historyIndex } = autosavedSession;
+    let missingFiles: string[] = [];
+    try {
+      missingFiles = await findMissingFiles(project);
+    } catch (error) {
+      console.warn('Failed to check the files of the autosaved session:', error);
+    }
+    applyProject(project, missingFiles);
+    restoreMission(history, historyIndex, project.mission);
+    setProjectSavedAt(null);
+    setAutosavedSession(null);
+  }, [autosavedSession, getHistory, buildProject, projectName, projectNotes, applyProject, restoreMission]);
+
+  const handleDiscardSession = useCallback(() => {
+    clearAutosave();
+    setAutosavedSession(null);
+  }, []);
+
+  // Keep the working session in browser storage. While the previous session waits for an answer it is
+  // held in memory, and stays in storage too until there is new work to keep in its place
+  React.useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      const { entries, index } = getHistory();
+      const session: AutosavedSession = { project: buildProject(projectName, projectNotes), history: entries, historyIndex: index };
+      if (autosavedSession && !hasSessionContent(session)) return;
+      writeAutosave(session);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [autosavedSession, buildProject, getHistory, projectName, projectNotes]);
+
+  const handleCloseProjectDialog = useCallback(() => setShowProjectDialog(false), []);
+
+  // Export the enabled lines as KML/KMZ at absolute altitudes - terrain plus AGL height,
+  // converted to orthometric heights since KML altitudes refer to the geoid
+  const handleExportKML = useCallback(async (format: 'kml' | 'kmz') => {
+    let groundElevations: number[][];
+    try {
+      groundElevations = await fetchLineGroundElevations(missionLines);
+    } catch (error) {
+      alert(`Terrain elevations are not available for every vertex: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+    const altitudes = missionLines.map((line, lineIndex) => line.points.map((vertex, index) =>
+      getVertexAltitude(vertex, groundElevations[lineIndex][index], line.defaultHeight ?? nominalFlightHeight)
+    ));
+    const toExportLines = (lineAltitudes: number[][]) => missionLines.map((line, index) => ({
+      name: line.name,
+      color: line.color,
+      points: line.points,
+      altitudes: lineAltitudes[index]
+    }));
+
+    const { dtmDatum, geoidSource } = verticalDatum;
+    try {
+      const offsets = await fetchDatumOffsets(dtmDatum, 'orthometric', geoidSource, missionLines.flatMap(line => line.points));
+      const lineOffsets = splitByLine(offsets, missionLines);
+      exportKML(toExportLines(altitudes.map((lineAltitudes, lineIndex) =>
+        lineAltitudes.map((altitude, index) => altitude + lineOffsets[lineIndex][index])
+      )), format);
+    } catch (error) {
+      alert(
+        `Altitudes can't be converted to orthometric heights for KML: ` +
+        `${error instanceof Error ? error.message : 'Unknown error'}.\n\n` +
+        `They are exported as ${VERTICAL_DATUM_LABELS[dtmDatum].toLowerCase()} heights instead.`
+      );
+      exportKML(toExportLines(altitudes), format);
+    }
+  }, [verticalDatum, missionLines, nominalFlightHeight, fetchLineGroundElevations, exportKML]);
+
+  // Export the enabled lines as waypoints in flight order, with per-vertex altitudes in the chosen frame -
+  // above the ground under each vertex for AGL, or terrain plus height in the output datum for MSL
+  const handleExportWaypoints = useCallback(async () => {
+    let groundElevations: number[][];
+    try {
+      groundElevations = await fetchLineGroundElevations(missionLines);
+    } catch (error) {
+      alert(`Terrain elevations are not available for every vertex: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+    const { dtmDatum, outputDatum, geoidSource } = verticalDatum;
+    const points = missionLines.flatMap(line => line.points);
+
+    // MAVLink absolute altitudes are above mean sea level whatever the output datum
+    const { label, mavlink } = WAYPOINT_FORMATS[waypointFormat];
+    let datum: VerticalDatum = mavlink ? 'orthometric' : outputDatum;
+    let offsets: number[];
+    try {
+      offsets = await fetchDatumOffsets(dtmDatum, datum, geoidSource, points);
+    } catch (error) {
+      if (mavlink) {
+        alert(
+          `Altitudes can't be converted to orthometric heights for ${label}: ` +
+          `${error instanceof Error ? error.message : 'Unknown error'}.\n\n` +
+          `MAVLink altitudes and the home position are above mean sea level, and exporting the DTM's ` +
+          `${VERTICAL_DATUM_LABELS[dtmDatum].toLowerCase()} heights would put them off by the geoid undulation ` +
+          `(tens of metres). Load a geoid grid covering the mission to export this format.`
+        );
+        return;
+      }
+      alert(
+        `Altitudes can't be converted to ${VERTICAL_DATUM_LABELS[outputDatum].toLowerCase()} heights: ` +
+        `${error instanceof Error ? error.message : 'Unknown error'}.\n\n` +
+        `They are exported as ${VERTICAL_DATUM_LABELS[dtmDatum].toLowerCase()} heights instead.`
+      );
+      datum = dtmDatum;
+      offsets = points.map(() => 0);
+    }
+    const lineOffsets = splitByLine(offsets, missionLines);
+
+    const waypoints: Waypoint[] = missionLines.flatMap((line, lineIndex) => line.points.map((vertex, index) => {
+      const ground = groundElevations[lineIndex][index];
+      const offset = lineOffsets[lineIndex][index];
+      const lineHeight = line.defaultHeight ?? nominalFlightHeight;
+      return {
+        line: line.name,
+        lat: vertex.lat,
+        lng: vertex.lng,
+        altitude: waypointFrame === 'AGL'
+          ? getVertexAGL(vertex, ground, lineHeight)
+          : getVertexAltitude(vertex, ground, lineHeight) + offset,
+        groundElevation: ground + offset
+      };
+    }));
+    exportWaypoints(waypointFormat, { reference: waypointFrame, datum }, waypoints, groundSpeed);
+  }, [verticalDatum, missionLines, nominalFlightHeight, groundSpeed, waypointFormat, waypointFrame, fetchLineGroundElevations, exportWaypoints]);
 
   // Handle keyboard shortcuts for undo/redo
   React.useEffect(() => {
@@ -110,6 +680,52 @@ function App() {
       <div className="app-header">
         <h1>LiDAR Mission Planner</h1>
         <div className="header-controls">
+          <div className="header-group">
+            <div className="group-title">Project</div>
+            <div className="group-column">
+              <span
+                className="project-name"
+                title={projectSavedAt ? `Saved ${new Date(projectSavedAt).toLocaleString()}` : 'Not saved in this session'}
+              >
+                {projectName || 'Unsaved mission'}
+              </span>
+              <button
+                onClick={handleQuickSave}
+                className="btn btn-secondary"
+                title={projectName ? `Save the mission to project "${projectName}"` : 'Save the mission as a new project'}
+              >
+                Save Project
+              </button>
+              <button
+                onClick={() => setShowProjectDialog(true)}
+                className="btn btn-secondary"
+                title="Open, save as or delete mission projects"
+              >
+                Projects...
+              </button>
+            </div>
+          </div>
+          <div className="header-group">
+            <div className="group-title">Aircraft</div>
+            <div className="group-inputs">
+              <label>
+                <span className="input-label">Profile</span>
+                <select
+                  value={findAircraftPreset(aircraft)}
+                  onChange={(e) => handleAircraftPresetChange(Number(e.target.value))}
+                  className="modern-input"
+                  title={`Cruise ${aircraft.cruiseSpeed} m/s, climb ${aircraft.maxClimbRate} m/s, descent ${aircraft.maxDescentRate} m/s, min turn radius ${aircraft.minTurnRadius} m, ceiling ${aircraft.serviceCeiling} m`}
+                >
+                  {findAircraftPreset(aircraft) === -1 && (
+                    <option value={-1}>Custom: {aircraft.name}</option>
+                  )}
+                  {AIRCRAFT_PROFILES.map((preset, index) => (
+                    <option key={preset.name} value={index}>{preset.name}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
           <div className="header-group">
             <div className="group-title">Flight Parameters</div>
             <div className="group-inputs">
@@ -157,6 +773,226 @@ function App() {
                   className="modern-input"
                 />
               </label>
+              <label>
+                <span className="input-label">Ground Speed (m/s)</span>
+                <input
+                  type="number"
+                  value={groundSpeed}
+                  onChange={(e) => setGroundSpeed(Number(e.target.value))}
+                  min="1"
+                  step="5"
+                  className="modern-input"
+                />
+              </label>
+              <label>
+                <span className="input-label">Climb Rate (m/s)</span>
+                <input
+                  type="number"
+                  value={climbRate}
+                  onChange={(e) => setClimbRate(Number(e.target.value))}
+                  min="0.5"
+                  step="0.5"
+                  className="modern-input"
+                  title="Best rate of climb - used for the flight time of steep climbs"
+                />
+              </label>
+              <label>
+                <span className="input-label">Turn Radius (m)</span>
+                <input
+                  type="number"
+                  value={turnRadius}
+                  onChange={(e) => setTurnRadius(Number(e.target.value))}
+                  min="0"
+                  step="50"
+                  className="modern-input"
+                  title="Radius of the turns between flight lines"
+                />
+              </label>
+              <label>
+                <span className="input-label">Turns</span>
+                <select
+                  value={turnStyle}
+                  onChange={(e) => setTurnStyle(e.target.value as TurnStyle)}
+                  className="modern-input"
+                  title="Generate flyable turns between consecutive lines and show them on the map"
+                >
+                  {(Object.keys(TURN_STYLE_LABELS) as TurnStyle[]).map(style => (
+                    <option key={style} value={style}>{TURN_STYLE_LABELS[style]}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span className="input-label">Run-in (m)</span>
+                <input
+                  type="number"
+                  value={runInLength}
+                  onChange={(e) => setRunInLength(Number(e.target.value))}
+                  min="0"
+                  step="50"
+                  className="modern-input"
+                  disabled={turnStyle === 'none'}
+                  title="Straight flown on a line's heading before its first point"
+                />
+              </label>
+              <label>
+                <span className="input-label">Run-out (m)</span>
+                <input
+                  type="number"
+                  value={runOutLength}
+                  onChange={(e) => setRunOutLength(Number(e.target.value))}
+                  min="0"
+                  step="50"
+                  className="modern-input"
+                  disabled={turnStyle === 'none'}
+                  title="Straight flown on a line's heading past its last point"
+                />
+              </label>
+              <label>
+                <span className="input-label">Interpolation</span>
+                <select
+                  value={interpolationMethod}
+                  onChange={(e) => setInterpolationMethod(e.target.value as InterpolationMethod)}
+                  className="modern-input"
+                  title="How DTM elevations are sampled between pixel centres"
+                >
+                  <option value="nearest">Nearest</option>
+                  <option value="bilinear">Bilinear</option>
+                  <option value="bicubic">Bicubic</option>
+                </select>
+              </label>
+            </div>
+          </div>
+          <div className="header-group">
+            <div className="group-title">Sensor</div>
+            <div className="group-inputs">
+              <label>
+                <span className="input-label">Scan FOV (°)</span>
+                <input
+                  type="number"
+                  value={sensorModel.fovDegrees}
+                  onChange={(e) => setSensorModel({ ...sensorModel, fovDegrees: Number(e.target.value) })}
+                  min="1"
+                  max="179"
+                  step="1"
+                  className="modern-input"
+                />
+              </label>
+              <label>
+                <span className="input-label">Pulse Rate (kHz)</span>
+                <input
+                  type="number"
+                  value={sensorModel.pulseRate}
+                  onChange={(e) => setSensorModel({ ...sensorModel, pulseRate: Number(e.target.value) })}
+                  min="1"
+                  step="50"
+                  className="modern-input"
+                />
+              </label>
+              <label>
+                <span className="input-label">Scan Rate (Hz)</span>
+                <input
+                  type="number"
+                  value={sensorModel.scanRate}
+                  onChange={(e) => setSensorModel({ ...sensorModel, scanRate: Number(e.target.value) })}
+                  min="1"
+                  step="10"
+                  className="modern-input"
+                />
+              </label>
+              <label>
+                <span className="input-label">Sidelap (%)</span>
+                <input
+                  type="number"
+                  value={sidelapPercent}
+                  onChange={(e) => setSidelapPercent(Number(e.target.value))}
+                  min="0"
+                  max="95"
+                  step="5"
+                  className="modern-input"
+                />
+              </label>
+              <label>
+                <span className="input-label">Target Density (pts/m²)</span>
+                <input
+                  type="number"
+                  value={targetDensity}
+                  onChange={(e) => setTargetDensity(Number(e.target.value))}
+                  min="0"
+                  step="1"
+                  className="modern-input"
+                />
+              </label>
+            </div>
+          </div>
+          <div className="header-group">
+            <div className="group-title">Vertical Datum</div>
+            <div className="group-inputs">
+              <label>
+                <span className="input-label">DTM Heights</span>
+                <select
+                  value={verticalDatum.dtmDatum}
+                  onChange={(e) => setVerticalDatum({ ...verticalDatum, dtmDatum: e.target.value as VerticalDatum })}
+                  className="modern-input datum-input"
+                  title="Vertical datum of the DTM elevations and of MSL vertex altitudes"
+                >
+                  {(Object.keys(VERTICAL_DATUM_LABELS) as VerticalDatum[]).map(datum => (
+                    <option key={datum} value={datum}>{VERTICAL_DATUM_LABELS[datum]}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span className="input-label">Report In</span>
+                <select
+                  value={verticalDatum.outputDatum}
+                  onChange={(e) => setVerticalDatum({ ...verticalDatum, outputDatum: e.target.value as VerticalDatum })}
+                  className={`modern-input datum-input ${verticalDatum.outputDatum !== verticalDatum.dtmDatum && !verticalDatum.geoidSource ? 'input-warning' : ''}`}
+                  title={verticalDatum.outputDatum !== verticalDatum.dtmDatum && !verticalDatum.geoidSource
+                    ? 'Load a geoid grid to convert between orthometric and ellipsoidal heights'
+                    : 'Vertical datum of the elevation profile, CSV and flight-plan exports'}
+                >
+                  {(Object.keys(VERTICAL_DATUM_LABELS) as VerticalDatum[]).map(datum => (
+                    <option key={datum} value={datum}>{VERTICAL_DATUM_LABELS[datum]}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="geoid-field">
+                <span className="input-label">Geoid Grid</span>
+                <input
+                  type="file"
+                  accept=".tif,.tiff,.gtx"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) {
+                      handleGeoidFile(file);
+                    }
+                    e.target.value = '';
+                  }}
+                  style={{ display: 'none' }}
+                  id="load-geoid"
+                />
+                <span className="geoid-controls">
+                  <label
+                    htmlFor="load-geoid"
+                    className="btn btn-secondary"
+                    title={verticalDatum.geoidSource
+                      ? `Geoid: ${verticalDatum.geoidSource.split('/').pop()?.replace(/^\d+-/, '')} - click to replace`
+                      : 'Load a geoid undulation grid (GeoTIFF or .gtx)'}
+                  >
+                    {verticalDatum.geoidSource
+                      ? verticalDatum.geoidSource.split('/').pop()?.replace(/^\d+-/, '')
+                      : 'Load Geoid'}
+                  </label>
+                  {verticalDatum.geoidSource && (
+                    <button
+                      onClick={() => setVerticalDatum({ ...verticalDatum, geoidSource: null })}
+                      className="btn btn-secondary"
+                      title="Unload the geoid grid"
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              </div>
             </div>
           </div>
           <div className="header-group">
@@ -164,10 +1000,10 @@ function App() {
             <div className="group-columns">
               <div className="group-column">
                 <button 
-                  onClick={exportGeoJSON} 
+                  onClick={handleExportGeoJSON} 
                   className="btn btn-secondary"
-                  disabled={flightPath.length < 2}
-                  title={flightPath.length < 2 ? 'Draw at least 2 points to export GeoJSON' : 'Export flight path as GeoJSON'}
+                  disabled={lines.every(line => line.points.length < 2)}
+                  title={lines.every(line => line.points.length < 2) ? 'Draw at least 2 points to export GeoJSON' : 'Export every flight line as GeoJSON'}
                 >
                   Export GeoJSON
                 </button>
@@ -177,30 +1013,125 @@ function App() {
                   onChange={(e) => {
                     const file = e.target.files?.[0];
                     if (file) {
-                      importGeoJSON(file);
+                      setGeoJSONImportFile(file);
                     }
+                    e.target.value = '';
                   }}
                   style={{ display: 'none' }}
                   id="import-geojson"
-                  disabled={!dtmSource}
+                  disabled={dtmSources.length === 0}
                 />
                 <label 
                   htmlFor="import-geojson" 
-                  className={`btn btn-secondary ${!dtmSource ? 'disabled' : ''}`}
-                  style={!dtmSource ? { opacity: 0.5, cursor: 'not-allowed', pointerEvents: 'none' } : {}}
-                  title={!dtmSource ? 'Load a DTM first to import GeoJSON' : 'Import flight path from GeoJSON file'}
+                  className={`btn btn-secondary ${dtmSources.length === 0 ? 'disabled' : ''}`}
+                  style={dtmSources.length === 0 ? { opacity: 0.5, cursor: 'not-allowed', pointerEvents: 'none' } : {}}
+                  title={dtmSources.length === 0 ? 'Load a DTM first to import GeoJSON' : 'Import flight lines and overlays from a GeoJSON file'}
                 >
                   Import GeoJSON
                 </label>
               </div>
+              <div className="group-column">
+                <button
+                  onClick={() => handleExportKML('kml')}
+                  className="btn btn-secondary"
+                  disabled={missionLines.length === 0 || dtmSources.length === 0}
+                  title={missionLines.length === 0 ? 'Enable a line with at least 2 points to export KML' : 'Export the enabled flight lines as KML with absolute altitudes'}
+                >
+                  Export KML
+                </button>
+                <button
+                  onClick={() => handleExportKML('kmz')}
+                  className="btn btn-secondary"
+                  disabled={missionLines.length === 0 || dtmSources.length === 0}
+                  title={missionLines.length === 0 ? 'Enable a line with at least 2 points to export KMZ' : 'Export the enabled flight lines as KMZ with absolute altitudes'}
+                >
+                  Export KMZ
+                </button>
+                <input
+                  type="file"
+                  accept=".kml,.kmz"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) {
+                      importKML(file, verticalDatum.dtmDatum);
+                    }
+                    e.target.value = '';
+                  }}
+                  style={{ display: 'none' }}
+                  id="import-kml"
+                  disabled={dtmSources.length === 0}
+                />
+                <label
+                  htmlFor="import-kml"
+                  className={`btn btn-secondary ${dtmSources.length === 0 ? 'disabled' : ''}`}
+                  style={dtmSources.length === 0 ? { opacity: 0.5, cursor: 'not-allowed', pointerEvents: 'none' } : {}}
+                  title={dtmSources.length === 0 ? 'Load a DTM first to import KML' : 'Import flight lines from a KML or KMZ file'}
+                >
+                  Import KML/KMZ
+                </label>
+              </div>
+              <div className="group-column">
+                <select
+                  value={waypointFormat}
+                  onChange={(e) => setWaypointFormat(e.target.value as WaypointFormat)}
+                  className="modern-input waypoint-input"
+                  title="Waypoint file format"
+                >
+                  {(Object.keys(WAYPOINT_FORMATS) as WaypointFormat[]).map(format => (
+                    <option key={format} value={format}>{WAYPOINT_FORMATS[format].label}</option>
+                  ))}
+                </select>
+                <select
+                  value={waypointFrame}
+                  onChange={(e) => setWaypointFrame(e.target.value as AltitudeReference)}
+                  className="modern-input waypoint-input"
+                  title="Altitude frame of the exported waypoints"
+                >
+                  <option value="AGL">Altitude AGL</option>
+                  <option value="MSL">Altitude MSL</option>
+                </select>
+                <button
+                  onClick={handleExportWaypoints}
+                  className="btn btn-secondary"
+                  disabled={missionLines.length === 0 || dtmSources.length === 0}
+                  title={missionLines.length === 0 ? 'Enable a line with at least 2 points to export waypoints' : 'Export the enabled flight lines in order as autopilot waypoints'}
+                >
+                  Export Waypoints
+                </button>
+              </div>
             </div>
           </div>
         </div>
       </div>
+      {autosavedSession && (
+        <div className="restore-banner">
+          <span>
+            Your previous session from {new Date(autosavedSession.project.savedAt).toLocaleString()}
+            {autosavedSession.project.name && ` (${autosavedSession.project.name})`} was autosaved.
+            Restore it? Work you start meanwhile is autosaved in its place.
+          </span>
+          <button onClick={handleRestoreSession} className="btn btn-primary">Restore</button>
+          <button onClick={handleDiscardSession} className="btn btn-secondary">Discard</button>
+        </div>
+      )}
       <div className="app-panels">
         <MapPanel
-          dtmSource={dtmSource}
+          dtmSources={dtmSources}
+          dtmRevision={dtmRevision}
           flightPath={flightPath}
+          elevationProfile={elevationProfile}
+          lines={lines}
+          activeLineId={activeLine.id}
+          missionProfile={missionProfile}
+          onSelectLine={selectLine}
+          onAddLine={addLine}
+          onAddLines={addLines}
+          onUpdateLine={updateLine}
+          onDeleteLine={deleteLine}
+          onMoveLine={moveLine}
+          highlightedSection={highlightedSection}
+          referenceLayers={referenceLayers}
+          onReferenceLayersChange={setReferenceLayers}
           onPathPointHover={handlePathPointHover}
           onPathChange={setFlightPath}
           onAddPoint={addPoint}
@@ -209,22 +1140,65 @@ function App() {
           onDeletePoint={deletePoint}
           onDtmLoad={handleDtmLoad}
           onDtmUnload={handleDtmUnload}
-          nominalFlightHeight={nominalFlightHeight}
+          onDtmCrsChange={handleDtmCrsChange}
+          onDtmExtentsChange={setDtmExtents}
+          onViewExtentChange={setViewExtent}
+          restoreViewExtent={restoreViewExtent}
+          nominalFlightHeight={activeLineHeight}
+          sensorModel={sensorModel}
+          sidelapPercent={sidelapPercent}
+          minTurnRadius={aircraft.minTurnRadius}
+          turns={turns}
           onUndo={undo}
           onRedo={redo}
           canUndo={canUndo}
           canRedo={canRedo}
         />
-        <ElevationProfile
-          elevationProfile={elevationProfile}
-          loading={loading}
-          nominalFlightHeight={nominalFlightHeight}
-          safetyHeight={safetyHeight}
-          resolutionHeight={resolutionHeight}
-          selectedPoint={selectedPoint}
-          flightPath={flightPath}
-        />
+        <div className="side-panels">
+          <ElevationProfile
+            elevationProfile={showMission ? missionProfile : elevationProfile}
+            loading={showMission && !missionIsActiveLine ? missionLoading : loading}
+            nominalFlightHeight={activeLineHeight}
+            safetyHeight={safetyHeight}
+            resolutionHeight={resolutionHeight}
+            sensorModel={sensorModel}
+            groundSpeed={groundSpeed}
+            targetDensity={targetDensity}
+            selectedPoint={selectedPoint}
+            flightPath={showMission ? missionPoints : flightPath}
+            verticalDatum={verticalDatum}
+            onIssueSelect={handleIssueSelect}
+            aircraft={aircraft}
+            profileView={profileView}
+            onProfileViewChange={setProfileView}
+            lineStarts={lineStarts}
+          />
+          <MissionSummary
+            summary={missionSummary}
+            loading={!missionIsActiveLine && missionLoading}
+            aircraft={aircraft}
+            onAircraftChange={setAircraft}
+          />
+        </div>
       </div>
+      {geoJSONImportFile && (
+        <GeoJSONImportDialog
+          file={geoJSONImportFile}
+          dtmExtents={dtmExtents}
+          dtmDatum={verticalDatum.dtmDatum}
+          onImport={handleGeoJSONImport}
+          onClose={handleCloseGeoJSONImport}
+        />
+      )}
+      {showProjectDialog && (
+        <ProjectDialog
+          projectName={projectName}
+          projectNotes={projectNotes}
+          onSave={handleSaveProject}
+          onOpen={handleOpenProject}
+          onClose={handleCloseProjectDialog}
+        />
+      )}
     </div>
   );
 }
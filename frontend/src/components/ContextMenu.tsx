@@ -8,6 +8,7 @@ interface ContextMenuProps {
   onDelete: () => void;
   onEdit: () => void;
   onSetHeight: () => void;
+  onSetAltitudeReference: () => void;
 }
 
 const ContextMenu: React.FC<ContextMenuProps> = ({
@@ -16,7 +17,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
   onClose,
   onDelete,
   onEdit,
-  onSetHeight
+  onSetHeight,
+  onSetAltitudeReference
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -80,6 +82,12 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
       >
         Set Flight Height
       </div>
+      <div
+        className="context-menu-item"
+        onClick={() => handleMenuItemClick(onSetAltitudeReference)}
+      >
+        Set Altitude Reference
+      </div>
     </div>
   );
 };
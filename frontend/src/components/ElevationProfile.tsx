@@ -1,6 +1,10 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import * as d3 from 'd3';
-import { ElevationPoint, Coordinate } from '../App';
+import { ElevationPoint, Coordinate, ProfileLineStart, ProfileView, SensorModel, VerticalDatumSettings } from '../App';
+import { getPointDensity } from '../utils/lidar';
+import { ClearanceIssue, detectClearanceIssues } from '../utils/clearance';
+import { AircraftProfile, PerformanceIssue, detectPerformanceIssues } from '../utils/aircraft';
+import { VERTICAL_DATUM_LABELS, convertProfileDatum } from '../utils/verticalDatum';
 import './ElevationProfile.css';
 
 interface ElevationProfileProps {
@@ -9,22 +13,84 @@ interface ElevationProfileProps {
   nominalFlightHeight: number;
   safetyHeight: number;
   resolutionHeight: number;
+  sensorModel: SensorModel;
+  groundSpeed: number;
+  targetDensity: number;
   selectedPoint: Coordinate | null;
   flightPath: Coordinate[];
+  /** Heights are shown and exported in verticalDatum.outputDatum when a geoid grid allows it */
+  verticalDatum: VerticalDatumSettings;
+  onIssueSelect: (issue: ClearanceIssue | PerformanceIssue) => void;
+  /** Climb and descent rates and ceiling the path is checked against */
+  aircraft: AircraftProfile;
+  profileView: ProfileView;
+  onProfileViewChange: (view: ProfileView) => void;
+  /** Where each flight line starts, when the profile covers the whole mission */
+  lineStarts: ProfileLineStart[];
 }
 
 const ElevationProfile: React.FC<ElevationProfileProps> = ({
-  elevationProfile,
+  elevationProfile: sampledProfile,
   loading,
   nominalFlightHeight,
   safetyHeight,
   resolutionHeight,
+  sensorModel,
+  groundSpeed,
+  targetDensity,
   selectedPoint,
-  flightPath
+  flightPath,
+  verticalDatum,
+  onIssueSelect,
+  aircraft,
+  profileView,
+  onProfileViewChange,
+  lineStarts
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Ground and min/max elevations in the reporting datum (flight heights are AGL either way)
+  const { profile: elevationProfile, datum, datumUnavailable } = useMemo(
+    () => convertProfileDatum(sampledProfile, verticalDatum),
+    [sampledProfile, verticalDatum]
+  );
+  const datumLabel = VERTICAL_DATUM_LABELS[datum].toLowerCase();
+
+  const clearanceIssues = useMemo(
+    () => detectClearanceIssues(elevationProfile, nominalFlightHeight, safetyHeight, resolutionHeight),
+    [elevationProfile, nominalFlightHeight, safetyHeight, resolutionHeight]
+  );
+
+  // Find original flight path vertices in the elevation profile
+  // Match by coordinates (with small tolerance for floating point precision)
+  const originalVertices = useMemo(() => {
+    if (elevationProfile.length === 0) return [];
+    return flightPath.map((vertex, vertexIndex) => {
+      // Find the closest elevation point to this vertex
+      let closestPoint = elevationProfile[0];
+      let closestDistance = Infinity;
+
+      for (const point of elevationProfile) {
+        const dist = Math.sqrt(
+          Math.pow(point.longitude - vertex.lng, 2) +
+          Math.pow(point.latitude - vertex.lat, 2)
+        );
+        if (dist < closestDistance) {
+          closestDistance = dist;
+          closestPoint = point;
+        }
+      }
+
+      return { point: closestPoint, index: vertexIndex };
+    });
+  }, [elevationProfile, flightPath]);
+
+  const performanceIssues = useMemo(
+    () => detectPerformanceIssues(elevationProfile, originalVertices.map(vertex => vertex.point), aircraft, nominalFlightHeight),
+    [elevationProfile, originalVertices, aircraft, nominalFlightHeight]
+  );
+
   useEffect(() => {
     if (!svgRef.current || !containerRef.current || elevationProfile.length === 0) {
       return;
@@ -35,7 +101,7 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
     const svg = d3.select(svgRef.current);
     svg.selectAll('*').remove(); // Clear previous render
 
-    const margin = { top: 20, right: 30, bottom: 60, left: 80 };
+    const margin = { top: 20, right: 80, bottom: 60, left: 80 };
     const legendWidth = 160; // Space for legend outside the graph
     const width = containerRef.current.clientWidth - margin.left - margin.right - legendWidth;
     const height = 400 - margin.top - margin.bottom;
@@ -86,6 +152,68 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
       .domain([minElevation - 20, maxElevation + 20])
       .range([height, 0]);
 
+    // Point density on a secondary y-axis
+    const densities = elevationProfile.map(d => getPointDensity(d, sensorModel, groundSpeed, nominalFlightHeight));
+    const maxDensity = Math.max(...densities, targetDensity);
+    const densityScale = d3.scaleLinear()
+      .domain([0, (maxDensity || 1) * 1.1])
+      .range([height, 0]);
+
+    // Shade intervals where density falls below the target (behind everything else)
+    const lowDensityIntervals: [number, number][] = [];
+    for (let i = 0; i < elevationProfile.length - 1; i++) {
+      if (densities[i] < targetDensity || densities[i + 1] < targetDensity) {
+        const last = lowDensityIntervals[lowDensityIntervals.length - 1];
+        if (last && last[1] === elevationProfile[i].distance) {
+          last[1] = elevationProfile[i + 1].distance;
+        } else {
+          lowDensityIntervals.push([elevationProfile[i].distance, elevationProfile[i + 1].distance]);
+        }
+      }
+    }
+
+    g.selectAll('.low-density-interval')
+      .data(lowDensityIntervals)
+      .enter()
+      .append('rect')
+      .attr('class', 'low-density-interval')
+      .attr('x', d => xScale(d[0]))
+      .attr('width', d => Math.max(1, xScale(d[1]) - xScale(d[0])))
+      .attr('y', 0)
+      .attr('height', height)
+      .attr('fill', '#8B5CF6')
+      .attr('opacity', 0.12);
+
+    // Clearance violations: red below the safety line, orange above the resolution line
+    g.selectAll('.clearance-issue-band')
+      .data(clearanceIssues)
+      .enter()
+      .append('rect')
+      .attr('class', 'clearance-issue-band')
+      .attr('x', d => xScale(d.startDistance))
+      .attr('width', d => Math.max(2, xScale(d.endDistance) - xScale(d.startDistance)))
+      .attr('y', 0)
+      .attr('height', height)
+      .attr('fill', d => d.type === 'safety' ? '#ef4444' : '#f97316')
+      .attr('opacity', 0.2)
+      .style('cursor', 'pointer')
+      .on('click', (_, d) => onIssueSelect(d));
+
+    // Segments the aircraft can't climb or descend at cruise speed (violet), and stretches above its ceiling (blue)
+    g.selectAll('.performance-issue-band')
+      .data(performanceIssues)
+      .enter()
+      .append('rect')
+      .attr('class', 'performance-issue-band')
+      .attr('x', d => xScale(d.startDistance))
+      .attr('width', d => Math.max(2, xScale(d.endDistance) - xScale(d.startDistance)))
+      .attr('y', 0)
+      .attr('height', height)
+      .attr('fill', d => d.type === 'ceiling' ? '#0ea5e9' : '#a21caf')
+      .attr('opacity', 0.18)
+      .style('cursor', 'pointer')
+      .on('click', (_, d) => onIssueSelect(d));
+
     // Draw ground elevation line
     const groundLine = d3.line<ElevationPoint>()
       .x(d => xScale(d.distance))
@@ -113,6 +241,29 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
       .attr('stroke-dasharray', '5,5')
       .attr('d', flightLine);
 
+    // Draw point density line (purple) on the secondary axis
+    const densityLine = d3.line<number>()
+      .x((_, i) => xScale(elevationProfile[i].distance))
+      .y(d => densityScale(d))
+      .curve(d3.curveMonotoneX);
+
+    g.append('path')
+      .datum(densities)
+      .attr('fill', 'none')
+      .attr('stroke', '#8B5CF6')
+      .attr('stroke-width', 1.5)
+      .attr('d', densityLine);
+
+    // Target density reference line
+    g.append('line')
+      .attr('x1', 0)
+      .attr('x2', width)
+      .attr('y1', densityScale(targetDensity))
+      .attr('y2', densityScale(targetDensity))
+      .attr('stroke', '#8B5CF6')
+      .attr('stroke-width', 1)
+      .attr('stroke-dasharray', '2,3');
+
     // Draw safety line (yellow) - safetyHeight meters above max elevation
     // Use maxElevation if available, otherwise use regular elevation
     const safetyLine = d3.line<ElevationPoint>()
@@ -252,27 +403,6 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
         .curve(d3.curveMonotoneX)
       );
 
-    // Find original flight path vertices in the elevation profile
-    // Match by coordinates (with small tolerance for floating point precision)
-    const originalVertices = flightPath.map((vertex, vertexIndex) => {
-      // Find the closest elevation point to this vertex
-      let closestPoint = elevationProfile[0];
-      let closestDistance = Infinity;
-      
-      for (const point of elevationProfile) {
-        const dist = Math.sqrt(
-          Math.pow(point.longitude - vertex.lng, 2) + 
-          Math.pow(point.latitude - vertex.lat, 2)
-        );
-        if (dist < closestDistance) {
-          closestDistance = dist;
-          closestPoint = point;
-        }
-      }
-      
-      return { point: closestPoint, index: vertexIndex };
-    });
-
     // Add data points only for original flight path vertices
     g.selectAll('.ground-point')
       .data(originalVertices)
@@ -308,6 +438,28 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
       .style('font-weight', '500')
       .text(d => d.index + 1);
 
+    // Mark where each flight line starts in a profile of the whole mission
+    if (lineStarts.length > 1) {
+      lineStarts.forEach(start => {
+        g.append('line')
+          .attr('x1', xScale(start.distance))
+          .attr('x2', xScale(start.distance))
+          .attr('y1', 0)
+          .attr('y2', height)
+          .attr('stroke', start.color)
+          .attr('stroke-width', 1.5)
+          .attr('stroke-dasharray', '2,4');
+
+        g.append('text')
+          .attr('x', xScale(start.distance) + 4)
+          .attr('y', 12)
+          .attr('fill', start.color)
+          .style('font-size', '12px')
+          .style('font-weight', '600')
+          .text(start.name);
+      });
+    }
+
     // Add axes
     const xAxis = d3.axisBottom(xScale)
       .ticks(10)
@@ -345,7 +497,23 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
       .attr('fill', 'black')
       .style('text-anchor', 'middle')
       .style('font-size', '14px')
-      .text('Elevation (meters)');
+      .text(`Elevation (meters, ${datumLabel})`);
+
+    const densityAxisGroup = g.append('g')
+      .attr('transform', `translate(${width},0)`)
+      .call(d3.axisRight(densityScale).ticks(8));
+
+    densityAxisGroup.selectAll('text')
+      .style('font-size', '12px');
+
+    densityAxisGroup.append('text')
+      .attr('transform', 'rotate(90)')
+      .attr('y', -50)
+      .attr('x', height / 2)
+      .attr('fill', 'black')
+      .style('text-anchor', 'middle')
+      .style('font-size', '14px')
+      .text('Point Density (pts/m²)');
 
     // Highlight selected point (only for user-imported points, not interpolated ones)
     if (selectedPoint && flightPath.length > 0) {
@@ -370,14 +538,20 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
 
     // Add legend outside the graph area
     const legend = svg.append('g')
-      .attr('transform', `translate(${width + margin.left + 10}, ${margin.top + 20})`);
+      .attr('transform', `translate(${width + margin.left + margin.right - 20}, ${margin.top + 20})`);
 
     const legendData = [
       { label: 'Ground Elevation', color: '#8B4513', style: 'solid' },
       { label: 'Flight Altitude', color: '#1E90FF', style: 'dashed' },
       ...(pointsWithMinMax.length > 0 ? [{ label: 'Min/Max Elevation', color: '#FF6B6B', style: 'solid' }] : []),
       { label: `Safety (+${safetyHeight}m)`, color: '#FFD700', style: 'dashed' },
-      { label: `Resolution (+${resolutionHeight}m)`, color: '#32CD32', style: 'dashed' }
+      { label: `Resolution (+${resolutionHeight}m)`, color: '#32CD32', style: 'dashed' },
+      { label: 'Point Density', color: '#8B5CF6', style: 'solid' },
+      ...(lowDensityIntervals.length > 0 ? [{ label: `Below ${targetDensity} pts/m²`, color: '#C4B5FD', style: 'solid' }] : []),
+      ...(clearanceIssues.some(i => i.type === 'safety') ? [{ label: 'Below Safety', color: '#fca5a5', style: 'solid' }] : []),
+      ...(clearanceIssues.some(i => i.type === 'resolution') ? [{ label: 'Above Resolution', color: '#fdba74', style: 'solid' }] : []),
+      ...(performanceIssues.some(i => i.type !== 'ceiling') ? [{ label: 'Too Steep', color: '#e879f9', style: 'solid' }] : []),
+      ...(performanceIssues.some(i => i.type === 'ceiling') ? [{ label: 'Above Ceiling', color: '#7dd3fc', style: 'solid' }] : [])
     ];
 
     // Calculate the width of the longest label
@@ -431,7 +605,7 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
         .text(item.label);
     });
 
-  }, [elevationProfile, nominalFlightHeight, safetyHeight, resolutionHeight, selectedPoint, flightPath]);
+  }, [elevationProfile, datumLabel, nominalFlightHeight, safetyHeight, resolutionHeight, sensorModel, groundSpeed, targetDensity, selectedPoint, flightPath, originalVertices, clearanceIssues, performanceIssues, onIssueSelect, lineStarts]);
 
   const exportPNG = () => {
     if (!svgRef.current) return;
@@ -482,7 +656,19 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
   const exportCSV = () => {
     if (elevationProfile.length === 0) return;
 
-    const headers = ['Distance (m)', 'Ground Elevation (m)', 'Flight Altitude (m)', 'AGL (m)', 'Longitude', 'Latitude'];
+    // Absolute heights are labelled with the datum they are in
+    const hasUndulations = elevationProfile.some(point => point.geoidUndulation !== undefined && point.geoidUndulation !== null);
+    const headers = [
+      'Distance (m)',
+      `Ground Elevation (m ${datumLabel})`,
+      `Flight Altitude (m ${datumLabel})`,
+      'AGL (m)',
+      'Altitude Reference',
+      'Point Density (pts/m²)',
+      'Longitude',
+      'Latitude',
+      ...(hasUndulations ? ['Geoid Undulation (m)'] : [])
+    ];
     const rows = elevationProfile.map(point => {
       const flightHeight = point.flightHeight ?? nominalFlightHeight;
       return [
@@ -490,8 +676,11 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
         point.elevation.toFixed(2),
         (point.elevation + flightHeight).toFixed(2),
         flightHeight.toFixed(2),
+        point.altitudeReference ?? 'AGL',
+        getPointDensity(point, sensorModel, groundSpeed, nominalFlightHeight).toFixed(2),
         point.longitude.toFixed(6),
-        point.latitude.toFixed(6)
+        point.latitude.toFixed(6),
+        ...(hasUndulations ? [point.geoidUndulation?.toFixed(3) ?? ''] : [])
       ];
     });
 
@@ -516,6 +705,18 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
       <div className="elevation-header">
         <h2>Elevation Profile</h2>
         <div className="elevation-controls">
+          <div className="control-group">
+            <div className="group-title">View</div>
+            <select
+              value={profileView}
+              onChange={(e) => onProfileViewChange(e.target.value as ProfileView)}
+              className="modern-input profile-view-input"
+              title="Show the selected flight line, or every enabled line one after another"
+            >
+              <option value="selected">Selected Line</option>
+              <option value="all">All Lines</option>
+            </select>
+          </div>
           <div className="control-group">
             <div className="group-title">Export</div>
             <div className="group-buttons">
@@ -548,6 +749,13 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
           <svg ref={svgRef} className="elevation-chart"></svg>
         )}
       </div>
+      {datumUnavailable && elevationProfile.length > 0 && (
+        <div className="datum-notice">
+          {verticalDatum.geoidSource
+            ? `The path leaves the geoid grid - heights are shown as ${datumLabel} (DTM datum), not ${VERTICAL_DATUM_LABELS[verticalDatum.outputDatum].toLowerCase()}.`
+            : `Load a geoid grid to report ${VERTICAL_DATUM_LABELS[verticalDatum.outputDatum].toLowerCase()} heights - heights are shown as ${datumLabel} (DTM datum).`}
+        </div>
+      )}
       {elevationProfile.length > 0 && (
         <div className="elevation-stats">
           <div className="stat">
@@ -569,6 +777,16 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
                 Math.min(...elevationProfile.map(p => p.elevation))).toFixed(1)} m
             </span>
           </div>
+          <div className="stat">
+            <span className="stat-label">Min Density:</span>
+            <span className="stat-value">
+              {Math.min(...elevationProfile.map(p => getPointDensity(p, sensorModel, groundSpeed, nominalFlightHeight))).toFixed(1)} pts/m²
+            </span>
+          </div>
+          <div className="stat">
+            <span className="stat-label">Vertical Datum:</span>
+            <span className="stat-value">{VERTICAL_DATUM_LABELS[datum]}</span>
+          </div>
           <div className="stat">
             <span className="stat-label">Total Distance:</span>
             <span className="stat-value">
@@ -577,6 +795,74 @@ const ElevationProfile: React.FC<ElevationProfileProps> = ({
           </div>
         </div>
       )}
+      {elevationProfile.length > 0 && (
+        <div className="clearance-issues">
+          <div className="clearance-issues-title">
+            Clearance Issues ({clearanceIssues.length})
+          </div>
+          {clearanceIssues.length === 0 ? (
+            <div className="clearance-issues-empty">
+              Flight altitude stays between the safety and resolution limits
+            </div>
+          ) : (
+            <ul className="clearance-issues-list">
+              {clearanceIssues.map((issue, index) => (
+                <li
+                  key={`${issue.type}-${index}`}
+                  className={`clearance-issue clearance-issue-${issue.type}`}
+                  onClick={() => onIssueSelect(issue)}
+                  title="Zoom the map to this segment"
+                >
+                  <span className="clearance-issue-type">
+                    {issue.type === 'safety' ? 'Below safety' : 'Above resolution'}
+                  </span>
+                  <span className="clearance-issue-range">
+                    {issue.startDistance.toFixed(0)}–{issue.endDistance.toFixed(0)} m
+                  </span>
+                  <span className="clearance-issue-margin">
+                    by up to {issue.worstMargin.toFixed(1)} m
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {elevationProfile.length > 0 && (
+        <div className="clearance-issues">
+          <div className="clearance-issues-title">
+            Performance Issues ({performanceIssues.length})
+          </div>
+          {performanceIssues.length === 0 ? (
+            <div className="clearance-issues-empty">
+              {aircraft.name} can fly the altitude changes at {aircraft.cruiseSpeed} m/s and stays below its ceiling
+            </div>
+          ) : (
+            <ul className="clearance-issues-list">
+              {performanceIssues.map((issue, index) => (
+                <li
+                  key={`${issue.type}-${index}`}
+                  className={`clearance-issue performance-issue-${issue.type === 'ceiling' ? 'ceiling' : 'steep'}`}
+                  onClick={() => onIssueSelect(issue)}
+                  title="Zoom the map to this segment"
+                >
+                  <span className="clearance-issue-type">
+                    {issue.type === 'climb' ? 'Too steep a climb' : issue.type === 'descent' ? 'Too steep a descent' : 'Above ceiling'}
+                  </span>
+                  <span className="clearance-issue-range">
+                    {issue.startDistance.toFixed(0)}–{issue.endDistance.toFixed(0)} m
+                  </span>
+                  <span className="clearance-issue-margin">
+                    {issue.type === 'ceiling'
+                      ? `up to ${issue.required.toFixed(0)} m, ceiling ${issue.limit.toFixed(0)} m`
+                      : `needs ${issue.required.toFixed(1)} m/s, max ${issue.limit.toFixed(1)} m/s`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ReferenceLayer, VerticalDatum } from '../App';
+import { NewFlightLine } from '../hooks/useFlightPath';
+import {
+  FeatureRole,
+  ParsedGeoJSON,
+  ResolvedCrs,
+  clipToExtents,
+  countOutsideExtents,
+  getFlightLines,
+  getPositions,
+  looksProjected,
+  parseGeoJSON,
+  reprojectFeatures,
+  resolveCrs
+} from '../utils/geojsonImport';
+import './GeoJSONImportDialog.css';
+
+interface GeoJSONImportDialogProps {
+  file: File;
+  /** WGS84 extents of the loaded DTMs [minLng, minLat, maxLng, maxLat] */
+  dtmExtents: number[][];
+  dtmDatum: VerticalDatum;
+  /** Called with the new flight lines and the reference overlay (null when nothing was chosen for either) */
+  onImport: (flightLines: NewFlightLine[] | null, referenceLayer: ReferenceLayer | null) => void;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<FeatureRole, string> = {
+  flight: 'Flight line',
+  reference: 'Reference overlay',
+  skip: 'Skip'
+};
+
+const GeoJSONImportDialog: React.FC<GeoJSONImportDialogProps> = ({
+  file,
+  dtmExtents,
+  dtmDatum,
+  onImport,
+  onClose
+}) => {
+  const [parsed, setParsed] = useState<ParsedGeoJSON | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [crs, setCrs] = useState<ResolvedCrs | null>(null);
+  const [crsInput, setCrsInput] = useState<string>('');
+  const [crsError, setCrsError] = useState<string | null>(null);
+  const [roles, setRoles] = useState<Record<number, FeatureRole>>({});
+  const [clip, setClip] = useState<boolean>(true);
+
+  const applyCrs = async (definition: string) => {
+    try {
+      setCrs(await resolveCrs(definition));
+      setCrsError(null);
+    } catch (err) {
+      setCrsError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  // Read the file, and resolve the CRS it names
+  useEffect(() => {
+    file.text()
+      .then(text => {
+        const result = parseGeoJSON(JSON.parse(text));
+        if (result.features.length === 0) {
+          setError('The file contains no line or polygon features');
+          return;
+        }
+
+        // Lines become flight lines, polygons overlays
+        setRoles(Object.fromEntries(result.features.map(f => [
+          f.id,
+          f.geometry.type === 'LineString' || f.geometry.type === 'MultiLineString' ? 'flight' : 'reference'
+        ])));
+        setParsed(result);
+        if (result.crs) {
+          setCrsInput(result.crs);
+          applyCrs(result.crs);
+        }
+      })
+      .catch(err => {
+        console.error('Error reading GeoJSON:', err);
+        setError('The file is not valid GeoJSON');
+      });
+  }, [file]);
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const needsCrs = parsed !== null && (parsed.crs !== null || looksProjected(parsed.features));
+
+  // Features in WGS84 - unavailable until a projected file's CRS is resolved
+  const features = useMemo(() => {
+    if (!parsed) return null;
+    if (!needsCrs) return parsed.features;
+    return crs ? reprojectFeatures(parsed.features, crs) : null;
+  }, [parsed, needsCrs, crs]);
+
+  const outsideCounts = useMemo(
+    () => new Map((features ?? []).map(f => [f.id, countOutsideExtents(f, dtmExtents)])),
+    [features, dtmExtents]
+  );
+
+  const flightFeatures = useMemo(() => (features ?? []).filter(f => roles[f.id] === 'flight'), [features, roles]);
+  const outsideFlightVertices = flightFeatures.reduce((total, f) => total + (outsideCounts.get(f.id) ?? 0), 0);
+
+  // Without a DTM there is no coverage to clip to
+  const canClip = dtmExtents.length > 0;
+  const clipping = clip && canClip;
+
+  // One flight line per part (and per stretch inside coverage when clipping), keeping the
+  // colour, default height and enable flag written by the GeoJSON export
+  const flightLinesByFeature = useMemo(() => new Map(flightFeatures.map(feature => {
+    let parts = getFlightLines(feature);
+    if (clipping) {
+      parts = parts.flatMap(part => clipToExtents(part, dtmExtents));
+    }
+    const { color, defaultHeight, enabled } = feature.properties;
+    const lines: NewFlightLine[] = parts
+      .filter(points => points.length >= 2)
+      .map((points, index, all) => ({
+        name: all.length > 1 ? `${feature.name} (${index + 1})` : feature.name,
+        points,
+        ...(typeof color === 'string' && { color }),
+        ...(typeof defaultHeight === 'number' && { defaultHeight }),
+        ...(typeof enabled === 'boolean' && { enabled })
+      }));
+    return [feature.id, lines];
+  })), [flightFeatures, clipping, dtmExtents]);
+
+  // Flight features left without a line, e.g. lying entirely outside coverage
+  const droppedFeatures = flightFeatures.filter(feature => flightLinesByFeature.get(feature.id)?.length === 0);
+
+  const fileDatum = parsed?.features.find(f => f.properties.verticalDatum)?.properties.verticalDatum as VerticalDatum | undefined;
+  const hasMslHeights = flightFeatures.some(f => (f.properties.altitudeReferences as string[] | undefined)?.includes('MSL'));
+
+  const handleImport = () => {
+    if (!features) return;
+
+    const flightLines = flightFeatures.flatMap(feature => flightLinesByFeature.get(feature.id) ?? []);
+    if (flightFeatures.length > 0 && flightLines.length === 0) {
+      setError(clipping ? 'No flight line has any length inside DTM coverage' : 'No flight line has two or more vertices');
+      return;
+    }
+
+    const referenceFeatures = features.filter(f => roles[f.id] === 'reference');
+    const referenceLayer: ReferenceLayer | null = referenceFeatures.length > 0
+      ? {
+          id: `${Date.now()}`,
+          name: file.name.replace(/\.(geo)?json$/i, ''),
+          features: referenceFeatures.map(({ geometry, properties }) => ({ geometry, properties })),
+          visible: true
+        }
+      : null;
+
+    onImport(flightFeatures.length > 0 ? flightLines : null, referenceLayer);
+  };
+
+  return (
+    <div className="import-dialog-overlay">
+      <div className="import-dialog" role="dialog" aria-label="Import GeoJSON">
+        <div className="import-dialog-title">Import {file.name}</div>
+
+        {parsed && (
+          <div className="import-dialog-crs">
+            <span className="input-label">Coordinate System</span>
+            {needsCrs ? (
+              <div className="import-dialog-crs-input">
+                <input
+                  type="text"
+                  value={crsInput}
+                  onChange={(e) => setCrsInput(e.target.value)}
+                  placeholder="EPSG code, WKT or proj4 string"
+                  className="modern-input"
+                />
+                <button
+                  onClick={() => applyCrs(crsInput)}
+                  className="btn btn-secondary"
+                  disabled={!crsInput.trim()}
+                >
+                  Apply
+                </button>
+                <span className="import-dialog-crs-name">
+                  {crs ? `${crs.name}${crs.code ? ` (${crs.code})` : ''}` : 'The coordinates are projected - enter their coordinate system'}
+                </span>
+              </div>
+            ) : (
+              <span className="import-dialog-crs-name">WGS 84 (longitude/latitude)</span>
+            )}
+            {crsError && <div className="import-dialog-error">{crsError}</div>}
+          </div>
+        )}
+
+        {features && (
+          <>
+            <table className="import-dialog-table">
+              <thead>
+                <tr>
+                  <th>Feature</th>
+                  <th>Geometry</th>
+                  <th>Vertices</th>
+                  <th>Outside DTM</th>
+                  <th>Import As</th>
+                </tr>
+              </thead>
+              <tbody>
+                {features.map(feature => {
+                  const isLine = feature.geometry.type === 'LineString' || feature.geometry.type === 'MultiLineString';
+                  const vertexCount = getPositions(feature.geometry).length;
+                  const outside = outsideCounts.get(feature.id) ?? 0;
+                  return (
+                    <tr key={feature.id}>
+                      <td>{feature.name}</td>
+                      <td>{feature.geometry.type}</td>
+                      <td>{vertexCount}</td>
+                      <td className={canClip && outside > 0 ? 'import-dialog-outside' : ''}>{canClip ? outside : '–'}</td>
+                      <td>
+                        <select
+                          value={roles[feature.id]}
+                          onChange={(e) => setRoles({ ...roles, [feature.id]: e.target.value as FeatureRole })}
+                          className="modern-input"
+                        >
+                          {(Object.keys(ROLE_LABELS) as FeatureRole[])
+                            .filter(role => isLine || role !== 'flight')
+                            .map(role => (
+                              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                            ))}
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="import-dialog-notes">
+              {parsed && parsed.skipped > 0 && (
+                <div>{parsed.skipped} point or empty feature(s) can't be imported and are left out.</div>
+              )}
+              {flightFeatures.length > 1 && (
+                <div>Flight lines are added to the mission in list order.</div>
+              )}
+              {canClip && outsideFlightVertices > 0 && (
+                <label>
+                  <input type="checkbox" checked={clip} onChange={(e) => setClip(e.target.checked)} />
+                  Clip flight lines to DTM coverage ({outsideFlightVertices} vertices outside are removed, and lines are cut at the edge of coverage and split where they leave it)
+                </label>
+              )}
+              {!canClip && flightFeatures.length > 0 && (
+                <div>No DTM is loaded, so flight lines are imported as they are.</div>
+              )}
+              {droppedFeatures.length > 0 && (
+                <div className="import-dialog-warning">
+                  {droppedFeatures.length === 1 ? 'This flight line is' : 'These flight lines are'} left out
+                  {clipping ? ' - nothing of them lies inside DTM coverage' : ' - they have fewer than two vertices'}: {droppedFeatures.map(f => f.name).join(', ')}
+                </div>
+              )}
+              {hasMslHeights && fileDatum && fileDatum !== dtmDatum && (
+                <div className="import-dialog-warning">
+                  The MSL altitudes in this file are {fileDatum} heights, but the DTM is set to {dtmDatum} heights.
+                  They are imported unchanged - check the vertical datum settings.
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {error && <div className="import-dialog-error">{error}</div>}
+
+        <div className="import-dialog-actions">
+          <button onClick={onClose} className="btn btn-secondary">Cancel</button>
+          <button
+            onClick={handleImport}
+            className="btn btn-primary"
+            disabled={!features || Object.values(roles).every(role => role === 'skip')}
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GeoJSONImportDialog;
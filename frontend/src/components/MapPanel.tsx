@@ -1,11 +1,21 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 // @ts-ignore - proj4 types may not be perfect
 import proj4 from 'proj4';
-import { Coordinate } from '../App';
+import { Coordinate, ElevationPoint, FlightLine, HighlightedSection, ReferenceFeature, ReferenceLayer, SensorModel } from '../App';
+import { NewFlightLine } from '../hooks/useFlightPath';
 import ContextMenu from './ContextMenu';
 import { calculateParallelLine, findClosestPointOnLine, calculateDestination } from '../utils/geometry';
+import { generateLawnmowerPattern, suggestSurveyHeading } from '../utils/survey';
+import { generateTerrainFollowingPath } from '../utils/terrainFollowing';
+import { getVertexAltitude, interpolateSegmentAGL } from '../utils/altitude';
+import { analyzeSwathCoverage, calculateLineSpacing, calculateSwathWidth, getMinimumEffectiveAGL } from '../utils/lidar';
+import { createDtmTileLayer, DtmTileLayer } from '../utils/dtmTileLayer';
+import { INDEX_CONTOUR_EVERY, getContourLevels, traceContours } from '../utils/contours';
+import { DEFAULT_RENDER_OPTIONS, DtmRenderer, DtmRenderOptions, DtmStretch, ElevationStatistics, RENDERER_LABELS, getDtmLegend, mergeElevationStatistics } from '../utils/dtmRenderers';
+import { findSharpTurns } from '../utils/aircraft';
+import { GeneratedTurn } from '../utils/turns';
 import './MapPanel.css';
 import { TileLayerOptions } from 'leaflet';
 
@@ -22,9 +32,112 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-shadow.png',
 });
 
+// Contour intervals offered to the user, in meters
+const CONTOUR_INTERVALS = [1, 2, 5, 10, 20, 25, 50, 100];
+// Grid size limit of the backend's /grid endpoint
+const MAX_CONTOUR_GRID_SIZE = 1024;
+// Beyond this many levels in view the contours are unreadable and slow to trace
+const MAX_CONTOUR_LEVELS = 200;
+// Index contours shorter than this (in grid steps) are left unlabelled
+const MIN_LABELLED_CONTOUR_POINTS = 20;
+
+// Display name of a reference feature - its name attribute if it has one
+function getReferenceFeatureName(feature: ReferenceFeature, layerName: string): string {
+  const nameKey = Object.keys(feature.properties).find(key => key.toLowerCase() === 'name');
+  const name = nameKey ? feature.properties[nameKey] : null;
+  return name !== null && name !== undefined && name !== '' ? String(name) : layerName;
+}
+
+// Extent of a reference layer [minLng, minLat, maxLng, maxLat]
+function getReferenceLayerBounds(layer: ReferenceLayer): number[] {
+  const values = layer.features.flatMap(feature => (feature.geometry.coordinates as unknown[]).flat(3) as number[]);
+  const lngs = values.filter((_, index) => index % 2 === 0);
+  const lats = values.filter((_, index) => index % 2 === 1);
+  return [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+}
+
+// Coordinate system of a DTM, as detected by the backend or chosen by the user
+interface DtmCrs {
+  /** EPSG code such as "EPSG:2039", null for custom definitions */
+  code: string | null;
+  name: string;
+  source: 'geographic' | 'geokeys' | 'wkt' | 'user';
+}
+
+// A DTM of the loaded mosaic, as listed in the DTM layer panel
+interface DtmLayerEntry {
+  source: string;
+  /** Name of the uploaded file, without the upload timestamp */
+  name: string;
+  /** WGS84 extent [minLng, minLat, maxLng, maxLat] */
+  bounds: number[];
+  crs: DtmCrs;
+  statistics: ElevationStatistics;
+  visible: boolean;
+}
+
+// Leaflet layers drawn for one DTM
+interface DtmMapLayers {
+  tiles: DtmTileLayer;
+  boundary: L.Rectangle;
+}
+
+/**
+ * Ask the user for the coordinate system of a DTM and store it on the backend
+ * Suggests the backend's registered projections; invalid entries are asked for again
+ * @returns true once a CRS was accepted, false if the user cancelled
+ */
+async function promptForDtmCrs(filename: string, message: string): Promise<boolean> {
+  const projectionsResponse = await fetch('/api/projections').catch(() => null);
+  const { projections = [] }: { projections?: { code: string; name: string }[] } =
+    projectionsResponse?.ok ? await projectionsResponse.json() : {};
+  const suggestions = projections.map(({ code, name }) => `${code.replace('EPSG:', '')} = ${name}`).join('\n');
+
+  let definition = '';
+  for (;;) {
+    const input = prompt(
+      `${message}\n\nEnter an EPSG code, or paste WKT / ESRI .prj text or a proj4 string.\n` +
+      `WGS 84 UTM zones are 326xx (north) and 327xx (south), e.g. 32636.\n\n${suggestions}`,
+      definition
+    );
+    if (input === null || !input.trim()) return false;
+    definition = input.trim();
+
+    const response = await fetch(`/api/dtm/${filename}/crs`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ definition })
+    });
+    if (response.ok) return true;
+
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    alert(`Could not use this coordinate system: ${errorData.error}`);
+  }
+}
+
 interface MapPanelProps {
-  dtmSource: string | null;
+  dtmSources: string[];
+  /** Bumped whenever a DTM's coordinate system changes, so dependent views reload */
+  dtmRevision: number;
+  /** Points of the active line, which the editing tools act on */
   flightPath: Coordinate[];
+  /** Elevation profile of the active line */
+  elevationProfile: ElevationPoint[];
+  /** Every line of the mission, in flight order */
+  lines: FlightLine[];
+  activeLineId: string;
+  /** Profile of the enabled lines one after another, for the swath display */
+  missionProfile: ElevationPoint[];
+  onSelectLine: (id: string) => void;
+  onAddLine: () => void;
+  onAddLines: (lines: NewFlightLine[]) => void;
+  onUpdateLine: (id: string, changes: Partial<Omit<FlightLine, 'id' | 'points'>>) => void;
+  onDeleteLine: (id: string) => void;
+  onMoveLine: (id: string, direction: -1 | 1) => void;
+  highlightedSection: HighlightedSection | null;
+  /** Imported boundaries and lines shown for reference */
+  referenceLayers: ReferenceLayer[];
+  onReferenceLayersChange: (layers: ReferenceLayer[]) => void;
   onPathPointHover: (point: Coordinate | null) => void;
   onPathChange: (path: Coordinate[]) => void;
   onAddPoint: (point: Coordinate) => void;
@@ -32,8 +145,23 @@ interface MapPanelProps {
   onUpdatePoint: (index: number, point: Coordinate) => void;
   onDeletePoint: (index: number) => void;
   onDtmLoad: (source: string, info?: any) => void;
-  onDtmUnload: () => void;
+  /** Unload one DTM of the mosaic, or all of them when no source is given */
+  onDtmUnload: (source?: string) => void;
+  /** A DTM's coordinate system was set or changed by the user */
+  onDtmCrsChange: (source: string) => void;
+  /** WGS84 extents [minLng, minLat, maxLng, maxLat] of the DTMs placed on the map */
+  onDtmExtentsChange: (extents: number[][]) => void;
+  /** Map view [minLng, minLat, maxLng, maxLat] after each pan or zoom */
+  onViewExtentChange: (extent: number[]) => void;
+  /** View to show instead of fitting the DTMs as they load, e.g. the saved view of an opened project */
+  restoreViewExtent: number[] | null;
   nominalFlightHeight: number;
+  sensorModel: SensorModel;
+  sidelapPercent: number;
+  /** Tightest turn of the aircraft - vertices turning more sharply are flagged */
+  minTurnRadius: number;
+  /** Generated turns between consecutive enabled lines, drawn apart from the lines */
+  turns: GeneratedTurn[];
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
@@ -41,8 +169,22 @@ interface MapPanelProps {
 }
 
 const MapPanel: React.FC<MapPanelProps> = ({
-  dtmSource,
+  dtmSources,
+  dtmRevision,
   flightPath,
+  elevationProfile,
+  lines,
+  activeLineId,
+  missionProfile,
+  onSelectLine,
+  onAddLine,
+  onAddLines,
+  onUpdateLine,
+  onDeleteLine,
+  onMoveLine,
+  highlightedSection,
+  referenceLayers,
+  onReferenceLayersChange,
   onPathPointHover,
   onPathChange,
   onAddPoint,
@@ -51,7 +193,15 @@ const MapPanel: React.FC<MapPanelProps> = ({
   onDeletePoint,
   onDtmLoad,
   onDtmUnload,
+  onDtmCrsChange,
+  onDtmExtentsChange,
+  onViewExtentChange,
+  restoreViewExtent,
   nominalFlightHeight,
+  sensorModel,
+  sidelapPercent,
+  minTurnRadius,
+  turns,
   onUndo,
   onRedo,
   canUndo,
@@ -61,30 +211,75 @@ const MapPanel: React.FC<MapPanelProps> = ({
   const map = useRef<L.Map | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [isParallelLineMode, setIsParallelLineMode] = useState(false);
-  const [dtmLoaded, setDtmLoaded] = useState(false);
-  const [dtmBounds, setDtmBounds] = useState<number[] | null>(null);
+  const [isSurveyMode, setIsSurveyMode] = useState(false);
+  const [surveyPolygon, setSurveyPolygon] = useState<Coordinate[]>([]);
+  const [dtmLayers, setDtmLayers] = useState<DtmLayerEntry[]>([]);
   const [dtmOpacity, setDtmOpacity] = useState<number>(0.1); // Default 90% transparency (10% opacity)
+  const [dtmRenderOptions, setDtmRenderOptions] = useState<DtmRenderOptions>(DEFAULT_RENDER_OPTIONS);
+  const [showSwath, setShowSwath] = useState<boolean>(false);
+  const [showContours, setShowContours] = useState<boolean>(false);
+  const [contourInterval, setContourInterval] = useState<number>(10);
+  const [contourNotice, setContourNotice] = useState<string | null>(null);
   const markersRef = useRef<L.Marker[]>([]);
   const flightPathLineRef = useRef<L.Polyline | null>(null);
   const flightPathClickableLineRef = useRef<L.Polyline | null>(null);
+  const surveyPolygonLayerRef = useRef<L.LayerGroup | null>(null);
+  const swathLayerRef = useRef<L.LayerGroup | null>(null);
+  const contourLayerRef = useRef<L.LayerGroup | null>(null);
+  const contourRequestRef = useRef<number>(0);
+  const highlightLayerRef = useRef<L.Polyline | null>(null);
   const hoveredPointRef = useRef<number | null>(null);
-  const dtmImageOverlayRef = useRef<L.ImageOverlay | null>(null);
-  const dtmBoundaryRef = useRef<L.Rectangle | null>(null);
+  const dtmMapLayersRef = useRef<Map<string, DtmMapLayers>>(new Map());
+  const dtmLoadingRef = useRef<Set<string>>(new Set());
+  const dtmSourcesRef = useRef<string[]>(dtmSources);
+  dtmSourcesRef.current = dtmSources;
+  const onViewExtentChangeRef = useRef(onViewExtentChange);
+  onViewExtentChangeRef.current = onViewExtentChange;
+  // Set while a restored view is shown, so DTMs loading for it don't move the map
+  const restoredViewRef = useRef<boolean>(false);
   const dtmTransparencyControlRef = useRef<HTMLDivElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const vectorInputRef = useRef<HTMLInputElement>(null);
+  const referenceLayerGroupRef = useRef<L.LayerGroup | null>(null);
+  const inactiveLinesLayerRef = useRef<L.LayerGroup | null>(null);
+  const turnsLayerRef = useRef<L.LayerGroup | null>(null);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; pointIndex: number } | null>(null);
   const [editingPointIndex, setEditingPointIndex] = useState<number | null>(null);
   const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [isUploading, setIsUploading] = useState<boolean>(false);
 
-  // Helper function to check if a point is within DTM bounds
+  const dtmLoaded = dtmLayers.length > 0;
+  const activeLine = lines.find(line => line.id === activeLineId);
+  // Enabled lines with at least one segment, in flight order
+  const missionLines = useMemo(() => lines.filter(line => line.enabled && line.points.length >= 2), [lines]);
+
+  // Union of the extents of every loaded DTM [minLng, minLat, maxLng, maxLat]
+  const dtmBounds = useMemo((): number[] | null => {
+    if (dtmLayers.length === 0) return null;
+    return [
+      Math.min(...dtmLayers.map(layer => layer.bounds[0])),
+      Math.min(...dtmLayers.map(layer => layer.bounds[1])),
+      Math.max(...dtmLayers.map(layer => layer.bounds[2])),
+      Math.max(...dtmLayers.map(layer => layer.bounds[3]))
+    ];
+  }, [dtmLayers]);
+
+  useEffect(() => {
+    onDtmExtentsChange(dtmLayers.map(layer => layer.bounds));
+  }, [dtmLayers, onDtmExtentsChange]);
+
+  // Elevation range shared by the whole mosaic so adjacent DTMs render seamlessly
+  const dtmStatistics = useMemo(
+    () => mergeElevationStatistics(dtmLayers.map(layer => layer.statistics)),
+    [dtmLayers]
+  );
+
+  // Helper function to check if a point is within the extent of any loaded DTM
   const isPointWithinBounds = useCallback((lng: number, lat: number): boolean => {
-    if (!dtmBounds || dtmBounds.length !== 4) {
-      return false;
-    }
-    const [minLng, minLat, maxLng, maxLat] = dtmBounds;
-    return lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
-  }, [dtmBounds]);
+    return dtmLayers.some(({ bounds: [minLng, minLat, maxLng, maxLat] }) =>
+      lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat
+    );
+  }, [dtmLayers]);
 
   // Initialize map
   useEffect(() => {
@@ -115,6 +310,12 @@ const MapPanel: React.FC<MapPanelProps> = ({
           zoom: 7 ,
           // crs: L.CRS.EPSG4326
         });
+        map.current.on('moveend', () => {
+          const bounds = map.current?.getBounds();
+          if (bounds) {
+            onViewExtentChangeRef.current([bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()]);
+          }
+        });
       }
 
       // Create option *after* httpsAgent_f is define
@@ -154,6 +355,139 @@ const MapPanel: React.FC<MapPanelProps> = ({
     };
   }, []);
 
+  // Ground elevation at a location, from the closest sample of the current elevation profile
+  const getGroundElevationAt = useCallback((point: Coordinate): number | null => {
+    let closest: ElevationPoint | null = null;
+    let closestDistance = Infinity;
+    for (const sample of elevationProfile) {
+      const dist = Math.abs(sample.longitude - point.lng) + Math.abs(sample.latitude - point.lat);
+      if (dist < closestDistance) {
+        closestDistance = dist;
+        closest = sample;
+      }
+    }
+    return closest ? closest.elevation : null;
+  }, [elevationProfile]);
+
+  // Sample DTM elevations along a straight strip and attach the strip's flight height (AGL)
+  // The search radius covers half the nominal swath so terrain beside the line is considered
+  const sampleStripProfile = useCallback(async (
+    start: Coordinate,
+    end: Coordinate
+  ): Promise<ElevationPoint[]> => {
+    if (dtmSources.length === 0) return [];
+
+    const radiusMeters = Math.max(1, calculateSwathWidth(nominalFlightHeight, sensorModel.fovDegrees) / 2);
+    const response = await fetch('/api/elevation-profile', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        coordinates: [[start.lng, start.lat], [end.lng, end.lat]],
+        dtmPaths: dtmSources,
+        radiusMeters
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.error || `Failed to sample strip elevations: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const samples: ElevationPoint[] = data.profile;
+    const totalDistance = samples.length > 0 ? samples[samples.length - 1].distance : 0;
+    const startGround = samples.length > 0 ? samples[0].elevation : 0;
+    const endGround = samples.length > 0 ? samples[samples.length - 1].elevation : 0;
+
+    return samples.map(sample => {
+      const t = totalDistance > 0 ? sample.distance / totalDistance : 0;
+      return {
+        ...sample,
+        flightHeight: interpolateSegmentAGL(start, end, startGround, endGround, t, sample.elevation, nominalFlightHeight)
+      };
+    });
+  }, [dtmSources, nominalFlightHeight, sensorModel.fovDegrees]);
+
+  // Create a parallel strip next to a segment, spaced from the sensor swath and target sidelap
+  const createParallelLine = useCallback(async (segmentIndex: number) => {
+    const segmentStart = flightPath[segmentIndex];
+    const segmentEnd = flightPath[segmentIndex + 1];
+
+    // Spacing is governed by the lowest AGL along the strip, where the swath is narrowest
+    let sourceSamples: ElevationPoint[] = [];
+    try {
+      sourceSamples = await sampleStripProfile(segmentStart, segmentEnd);
+    } catch (error) {
+      console.error('Error sampling strip elevations:', error);
+    }
+    const sourceAGL = getMinimumEffectiveAGL(sourceSamples, nominalFlightHeight);
+    const sourceSpacing = calculateLineSpacing(sourceAGL, sensorModel.fovDegrees, sidelapPercent);
+
+    const sideInput = prompt(
+      `Line spacing from sensor model: ${sourceSpacing.toFixed(1)} m\n` +
+      `(FOV ${sensorModel.fovDegrees}°, ${sidelapPercent}% sidelap, min AGL ${sourceAGL.toFixed(1)} m over this strip)\n\n` +
+      `Enter side for the parallel line: R = right, L = left\n` +
+      `(Or enter an offset in meters to override - positive = right, negative = left)`,
+      'R'
+    );
+
+    if (sideInput === null) return;
+
+    const side = sideInput.trim().toUpperCase();
+    let offsetDistance: number;
+    let derived = false;
+
+    if (side === 'R' || side === 'L') {
+      if (sourceSpacing <= 0) {
+        alert('Line spacing could not be derived - check the nominal flight height and sensor FOV.');
+        return;
+      }
+      offsetDistance = side === 'R' ? sourceSpacing : -sourceSpacing;
+      derived = true;
+    } else {
+      offsetDistance = parseFloat(side);
+      if (isNaN(offsetDistance)) {
+        alert('Invalid input. Please enter R, L or a number.');
+        return;
+      }
+    }
+
+    let [parallelStart, parallelEnd] = calculateParallelLine(segmentStart, segmentEnd, offsetDistance);
+
+    // Higher terrain under the new strip narrows its swath - tighten the spacing to keep the sidelap
+    if (derived) {
+      try {
+        const parallelSamples = await sampleStripProfile(parallelStart, parallelEnd);
+        const parallelAGL = getMinimumEffectiveAGL(parallelSamples, nominalFlightHeight);
+        const adaptedSpacing = Math.min(
+          sourceSpacing,
+          calculateLineSpacing((sourceAGL + parallelAGL) / 2, sensorModel.fovDegrees, sidelapPercent)
+        );
+        if (adaptedSpacing > 0 && adaptedSpacing < sourceSpacing) {
+          offsetDistance = Math.sign(offsetDistance) * adaptedSpacing;
+          [parallelStart, parallelEnd] = calculateParallelLine(segmentStart, segmentEnd, offsetDistance);
+        }
+      } catch (error) {
+        console.error('Error sampling parallel strip elevations:', error);
+      }
+    }
+
+    // Check if parallel points are within bounds
+    if (
+      isPointWithinBounds(parallelStart.lng, parallelStart.lat) &&
+      isPointWithinBounds(parallelEnd.lng, parallelEnd.lat)
+    ) {
+      // Add parallel line points at the end of the flight path as a single operation
+      // Point 3 should be closer to point 2, so we add parallelEnd first (which corresponds to point 2)
+      // Then add parallelStart (which corresponds to point 1)
+      onAddPoints([parallelEnd, parallelStart]); // Add both points in a single undoable action
+      setIsParallelLineMode(false);
+      alert(`Parallel line created with offset of ${offsetDistance.toFixed(1)}m. Added 2 new points at the end of the path.`);
+    } else {
+      alert('Parallel line points would be outside DTM bounds. Please use a smaller offset.');
+    }
+  }, [flightPath, sampleStripProfile, nominalFlightHeight, sensorModel.fovDegrees, sidelapPercent, isPointWithinBounds, onAddPoints]);
+
   // Set up click handler for adding points, editing points, and parallel line creation
   useEffect(() => {
     if (!map.current) return;
@@ -172,9 +506,9 @@ const MapPanel: React.FC<MapPanelProps> = ({
         
         const currentPoint = flightPath[editingPointIndex];
         onUpdatePoint(editingPointIndex, {
+          ...currentPoint, // Preserve height and altitude reference
           lng,
-          lat,
-          height: currentPoint.height // Preserve height
+          lat
         });
         setEditingPointIndex(null);
         return;
@@ -200,49 +534,28 @@ const MapPanel: React.FC<MapPanelProps> = ({
         }
         
         if (closestSegmentIndex >= 0) {
-          // Prompt for offset distance
-          const distanceInput = prompt(
-            `Enter offset distance in meters for parallel line:\n(Positive = right side, Negative = left side)`,
-            '50'
-          );
-          
-          if (distanceInput !== null) {
-            const offsetDistance = parseFloat(distanceInput);
-            if (!isNaN(offsetDistance)) {
-              const segmentStart = flightPath[closestSegmentIndex];
-              const segmentEnd = flightPath[closestSegmentIndex + 1];
-              
-              // Calculate parallel line
-              const [parallelStart, parallelEnd] = calculateParallelLine(
-                segmentStart,
-                segmentEnd,
-                offsetDistance
-              );
-              
-              // Check if parallel points are within bounds
-              if (
-                isPointWithinBounds(parallelStart.lng, parallelStart.lat) &&
-                isPointWithinBounds(parallelEnd.lng, parallelEnd.lat)
-              ) {
-                // Add parallel line points at the end of the flight path as a single operation
-                // Point 3 should be closer to point 2, so we add parallelEnd first (which corresponds to point 2)
-                // Then add parallelStart (which corresponds to point 1)
-                onAddPoints([parallelEnd, parallelStart]); // Add both points in a single undoable action
-                setIsParallelLineMode(false);
-                alert(`Parallel line created with offset of ${offsetDistance}m. Added 2 new points at the end of the path.`);
-              } else {
-                alert('Parallel line points would be outside DTM bounds. Please use a smaller offset.');
-              }
-            } else {
-              alert('Invalid distance. Please enter a number.');
-            }
-          }
+          createParallelLine(closestSegmentIndex);
         } else {
           alert('Could not determine which line segment was clicked. Please click closer to a line segment.');
         }
         return;
       }
 
+      // If outlining a survey polygon, add a vertex to the polygon
+      if (isSurveyMode && dtmLoaded) {
+        const lng = e.latlng.lng;
+        const lat = e.latlng.lat;
+
+        // Check if vertex is within DTM bounds
+        if (!isPointWithinBounds(lng, lat)) {
+          alert('Cannot add survey polygon vertex outside DTM bounding box. Please select a point within the DTM extent.');
+          return;
+        }
+
+        setSurveyPolygon(prev => [...prev, { lng, lat }]);
+        return;
+      }
+
       // Otherwise, add new point if drawing
       if (isDrawing && dtmLoaded) {
         const lng = e.latlng.lng;
@@ -269,7 +582,186 @@ const MapPanel: React.FC<MapPanelProps> = ({
         map.current.off('click', handleClick);
       }
     };
-  }, [isDrawing, isParallelLineMode, dtmLoaded, onAddPoint, onUpdatePoint, isPointWithinBounds, editingPointIndex, flightPath, onAddPoints]);
+  }, [isDrawing, isParallelLineMode, isSurveyMode, dtmLoaded, onAddPoint, onUpdatePoint, isPointWithinBounds, editingPointIndex, flightPath, createParallelLine]);
+
+  // Draw the survey polygon being outlined
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (surveyPolygonLayerRef.current) {
+      map.current.removeLayer(surveyPolygonLayerRef.current);
+      surveyPolygonLayerRef.current = null;
+    }
+
+    if (surveyPolygon.length === 0) return;
+
+    const latlngs = surveyPolygon.map(p => [p.lat, p.lng] as [number, number]);
+    const layerGroup = L.layerGroup();
+
+    if (latlngs.length >= 3) {
+      L.polygon(latlngs, {
+        color: '#0369A1',
+        weight: 2,
+        dashArray: '6,4',
+        fillColor: '#0EA5E9',
+        fillOpacity: 0.15,
+        interactive: false
+      }).addTo(layerGroup);
+    } else {
+      L.polyline(latlngs, {
+        color: '#0369A1',
+        weight: 2,
+        dashArray: '6,4',
+        interactive: false
+      }).addTo(layerGroup);
+    }
+
+    latlngs.forEach(latlng => {
+      L.circleMarker(latlng, {
+        radius: 5,
+        color: '#0369A1',
+        fillColor: '#ffffff',
+        fillOpacity: 1,
+        weight: 2,
+        interactive: false
+      }).addTo(layerGroup);
+    });
+
+    surveyPolygonLayerRef.current = layerGroup.addTo(map.current);
+  }, [surveyPolygon]);
+
+  // Draw the reference layers - polygons for context only, lines clickable to become flight lines
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (referenceLayerGroupRef.current) {
+      map.current.removeLayer(referenceLayerGroupRef.current);
+      referenceLayerGroupRef.current = null;
+    }
+
+    const visibleLayers = referenceLayers.filter(layer => layer.visible);
+    if (visibleLayers.length === 0) return;
+
+    // Leave clicks to the map while drawing or editing
+    const linesInteractive = !isDrawing && !isSurveyMode && !isParallelLineMode && editingPointIndex === null;
+    const layerGroup = L.layerGroup();
+    const toLatLngs = (points: number[][]) => points.map(([lng, lat]) => [lat, lng] as [number, number]);
+
+    visibleLayers.forEach(layer => {
+      layer.features.forEach(feature => {
+        const name = getReferenceFeatureName(feature, layer.name);
+        const { geometry } = feature;
+
+        if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+          const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+          L.polygon(polygons.map(rings => rings.map(toLatLngs)), {
+            color: '#d97706',
+            weight: 2,
+            dashArray: '4,4',
+            fillColor: '#f59e0b',
+            fillOpacity: 0.05,
+            interactive: false
+          }).addTo(layerGroup);
+          return;
+        }
+
+        const parts = geometry.type === 'LineString' ? [geometry.coordinates] : geometry.coordinates;
+        parts.forEach(part => {
+          const line = L.polyline(toLatLngs(part), {
+            color: '#9333ea',
+            weight: 3,
+            opacity: 0.8,
+            dashArray: '8,6',
+            interactive: linesInteractive,
+            bubblingMouseEvents: false
+          }).addTo(layerGroup);
+
+          if (linesInteractive) {
+            line.bindTooltip(`${name} - click to add as a flight line`, { sticky: true });
+            line.on('click', () => {
+              if (window.confirm(`Add "${name}" (${part.length} points) as a new flight line?`)) {
+                onAddLines([{ name, points: part.map(([lng, lat]) => ({ lng, lat })) }]);
+              }
+            });
+          }
+        });
+      });
+    });
+
+    referenceLayerGroupRef.current = layerGroup.addTo(map.current);
+  }, [referenceLayers, isDrawing, isSurveyMode, isParallelLineMode, editingPointIndex, onAddLines]);
+
+  // Draw the lines other than the active one - enabled lines in their colour, disabled lines faint and
+  // dashed; clicking a line selects it for editing
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (inactiveLinesLayerRef.current) {
+      map.current.removeLayer(inactiveLinesLayerRef.current);
+      inactiveLinesLayerRef.current = null;
+    }
+
+    const inactiveLines = lines.filter(line => line.id !== activeLineId && line.points.length > 0);
+    if (inactiveLines.length === 0) return;
+
+    // Leave clicks to the map while drawing or editing
+    const selectable = !isDrawing && !isSurveyMode && !isParallelLineMode && editingPointIndex === null;
+    const layerGroup = L.layerGroup();
+
+    inactiveLines.forEach(line => {
+      const latlngs = line.points.map(p => [p.lat, p.lng] as [number, number]);
+      const polyline = L.polyline(latlngs, {
+        color: line.color,
+        weight: 3,
+        opacity: line.enabled ? 0.6 : 0.3,
+        dashArray: line.enabled ? undefined : '4,6',
+        interactive: selectable,
+        bubblingMouseEvents: false
+      }).addTo(layerGroup);
+
+      // Mark where each line starts, so the flight order can be followed on the map
+      L.circleMarker(latlngs[0], {
+        radius: 4,
+        color: line.color,
+        fillColor: line.color,
+        fillOpacity: line.enabled ? 0.8 : 0.3,
+        weight: 1,
+        interactive: false
+      }).addTo(layerGroup);
+
+      if (selectable) {
+        polyline.bindTooltip(`${line.name}${line.enabled ? '' : ' (disabled)'} - click to edit`, { sticky: true });
+        polyline.on('click', () => onSelectLine(line.id));
+      }
+    });
+
+    inactiveLinesLayerRef.current = layerGroup.addTo(map.current);
+  }, [lines, activeLineId, isDrawing, isSurveyMode, isParallelLineMode, editingPointIndex, onSelectLine]);
+
+  // Draw the generated turns as thin dashed lines, so they can't be mistaken for flight lines
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (turnsLayerRef.current) {
+      map.current.removeLayer(turnsLayerRef.current);
+      turnsLayerRef.current = null;
+    }
+
+    if (turns.length === 0) return;
+
+    const layerGroup = L.layerGroup();
+    turns.forEach(turn => {
+      L.polyline(turn.points.map(p => [p.lat, p.lng] as [number, number]), {
+        color: '#374151',
+        weight: 2,
+        opacity: 0.7,
+        dashArray: '2,6',
+        interactive: false
+      }).addTo(layerGroup);
+    });
+
+    turnsLayerRef.current = layerGroup.addTo(map.current);
+  }, [turns]);
 
   // Update flight path on map
   useEffect(() => {
@@ -302,11 +794,12 @@ const MapPanel: React.FC<MapPanelProps> = ({
       interactive: true
     }).addTo(map.current);
 
-    // Add flight path line (will be on top)
+    // Add flight path line (will be on top), in the colour of the active line
     flightPathLineRef.current = L.polyline(latlngs, {
-      color: '#ff0000',
+      color: activeLine?.color ?? '#ff0000',
       weight: 3,
-      opacity: 0.8
+      opacity: activeLine?.enabled === false ? 0.5 : 0.8,
+      dashArray: activeLine?.enabled === false ? '4,6' : undefined
     }).addTo(map.current);
 
     // Update cursor style for clickable line layer when in parallel line mode
@@ -314,11 +807,23 @@ const MapPanel: React.FC<MapPanelProps> = ({
       map.current.getContainer().style.cursor = 'crosshair';
     }
 
+    const sharpTurns = new Map(findSharpTurns(flightPath, minTurnRadius).map(turn => [turn.index, turn]));
+
     // Add markers for each point
     flightPath.forEach((point, index) => {
+      const sharpTurn = sharpTurns.get(index);
       const el = document.createElement('div');
-      el.className = 'flight-point-marker';
+      el.className = `flight-point-marker ${point.altitudeReference === 'MSL' ? 'msl' : ''} ${sharpTurn ? 'sharp-turn' : ''}`;
       el.innerHTML = `${index + 1}`;
+      el.title = point.altitudeReference === 'MSL'
+        ? `MSL altitude: ${point.height !== undefined ? `${point.height} m` : 'ground + nominal'}`
+        : `AGL height: ${point.height ?? nominalFlightHeight} m`;
+      if (sharpTurn) {
+        el.title += `\nTurn of ${sharpTurn.angle.toFixed(0)}° is too sharp for the ${minTurnRadius} m turn radius: ` +
+          (Number.isFinite(sharpTurn.requiredLength)
+            ? `it needs ${sharpTurn.requiredLength.toFixed(0)} m before and after the point, ${sharpTurn.availableLength.toFixed(0)} m available`
+            : 'the path doubles back on itself');
+      }
       el.style.cursor = 'pointer';
 
       const icon = L.divIcon({
@@ -356,7 +861,7 @@ const MapPanel: React.FC<MapPanelProps> = ({
         
         // Update last valid position and state
         lastValidPosition = [lat, lng];
-        onUpdatePoint(index, { lng, lat });
+        onUpdatePoint(index, { ...point, lng, lat });
       });
       
       // Handle drag end to show message if dragged outside bounds
@@ -369,7 +874,7 @@ const MapPanel: React.FC<MapPanelProps> = ({
         if (!isPointWithinBounds(lng, lat)) {
           // Reset to last valid position
           marker.setLatLng(lastValidPosition);
-          onUpdatePoint(index, { lng: lastValidPosition[1], lat: lastValidPosition[0] });
+          onUpdatePoint(index, { ...point, lng: lastValidPosition[1], lat: lastValidPosition[0] });
           alert('Cannot move point outside DTM bounding box. Point has been reset to the previous valid position.');
         }
       });
@@ -400,7 +905,261 @@ const MapPanel: React.FC<MapPanelProps> = ({
 
     // Don't auto-fit bounds while drawing - let user control the view
     // Map view will remain fixed during drawing
-  }, [flightPath, onUpdatePoint, onDeletePoint, onPathPointHover, isPointWithinBounds, isParallelLineMode]);
+  }, [flightPath, activeLine?.color, activeLine?.enabled, onUpdatePoint, onDeletePoint, onPathPointHover, isPointWithinBounds, isParallelLineMode, nominalFlightHeight, minTurnRadius]);
+
+  // Draw LiDAR swath footprints, narrowed sections and coverage gaps
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (swathLayerRef.current) {
+      map.current.removeLayer(swathLayerRef.current);
+      swathLayerRef.current = null;
+    }
+
+    if (!showSwath || missionLines.length === 0 || missionProfile.length === 0) return;
+
+    // Swaths of every enabled line, analysed as one path so gaps between adjacent lines are found;
+    // the segments joining one line to the next, like the generated turns, are not flown as strips
+    const missionPath = missionLines.flatMap(line => line.points);
+    const lineJoins: number[] = [];
+    missionLines.slice(0, -1).reduce((vertexCount, line) => {
+      const end = vertexCount + line.points.length;
+      lineJoins.push(end - 1);
+      return end;
+    }, 0);
+
+    const { footprints, gaps } = analyzeSwathCoverage(
+      missionProfile,
+      missionPath,
+      sensorModel.fovDegrees,
+      nominalFlightHeight,
+      lineJoins
+    );
+
+    if (footprints.length === 0) return;
+
+    // Keep swaths below the flight path line and markers
+    if (!map.current.getPane('swathPane')) {
+      map.current.createPane('swathPane').style.zIndex = '350';
+    }
+
+    const toLatLngs = (points: Coordinate[]) => points.map(p => [p.lat, p.lng] as [number, number]);
+    const layerGroup = L.layerGroup();
+
+    footprints.forEach(footprint => {
+      L.polygon([...toLatLngs(footprint.left), ...toLatLngs(footprint.right).reverse()], {
+        pane: 'swathPane',
+        color: '#0EA5E9',
+        weight: 1,
+        opacity: 0.5,
+        fillColor: '#0EA5E9',
+        fillOpacity: 0.2,
+        interactive: false
+      }).addTo(layerGroup);
+
+      // Highlight runs of samples where terrain narrows the swath
+      let runStart = -1;
+      footprint.narrow.forEach((isNarrow, i) => {
+        const isLast = i === footprint.narrow.length - 1;
+        if (isNarrow && runStart < 0) {
+          runStart = i;
+        }
+        if (runStart >= 0 && (!isNarrow || isLast)) {
+          const runEnd = isNarrow ? i : i - 1;
+          if (runEnd > runStart) {
+            L.polygon([
+              ...toLatLngs(footprint.left.slice(runStart, runEnd + 1)),
+              ...toLatLngs(footprint.right.slice(runStart, runEnd + 1)).reverse()
+            ], {
+              pane: 'swathPane',
+              color: '#f59e0b',
+              weight: 1,
+              fillColor: '#f59e0b',
+              fillOpacity: 0.45,
+              interactive: false
+            }).addTo(layerGroup);
+          }
+          runStart = -1;
+        }
+      });
+    });
+
+    gaps.forEach(gap => {
+      L.polyline([[gap.from.lat, gap.from.lng], [gap.to.lat, gap.to.lng]], {
+        pane: 'swathPane',
+        color: '#dc2626',
+        weight: 3,
+        opacity: 0.8
+      })
+        .bindTooltip(`Coverage gap: ${gap.width.toFixed(1)} m`)
+        .addTo(layerGroup);
+    });
+
+    swathLayerRef.current = layerGroup.addTo(map.current);
+  }, [showSwath, missionProfile, missionLines, sensorModel.fovDegrees, nominalFlightHeight]);
+
+  // Draw contour lines for the visible part of the DTM mosaic, regenerated as the map moves
+  useEffect(() => {
+    if (!map.current) return;
+    const mapInstance = map.current;
+
+    const clearContours = () => {
+      if (contourLayerRef.current) {
+        mapInstance.removeLayer(contourLayerRef.current);
+        contourLayerRef.current = null;
+      }
+    };
+
+    if (!showContours || dtmLayers.length === 0) {
+      clearContours();
+      setContourNotice(null);
+      return;
+    }
+
+    // Keep contours above the DTM but below swaths and the flight path
+    if (!mapInstance.getPane('contourPane')) {
+      mapInstance.createPane('contourPane').style.zIndex = '340';
+    }
+
+    // Trace the contours of one DTM over the part of it that is in view
+    const traceDtmContours = async (layer: DtmLayerEntry) => {
+      const view = mapInstance.getBounds();
+      const [dtmMinX, dtmMinY, dtmMaxX, dtmMaxY] = layer.bounds;
+      const west = Math.max(view.getWest(), dtmMinX);
+      const south = Math.max(view.getSouth(), dtmMinY);
+      const east = Math.min(view.getEast(), dtmMaxX);
+      const north = Math.min(view.getNorth(), dtmMaxY);
+
+      if (west >= east || south >= north) return null;
+
+      // Sample at about half the screen resolution of the visible DTM area
+      const size = mapInstance.getSize();
+      const width = Math.max(2, Math.min(MAX_CONTOUR_GRID_SIZE, Math.round((size.x * (east - west)) / (view.getEast() - view.getWest()) / 2)));
+      const height = Math.max(2, Math.min(MAX_CONTOUR_GRID_SIZE, Math.round((size.y * (north - south)) / (view.getNorth() - view.getSouth()) / 2)));
+
+      const filename = layer.source.split('/').pop();
+      const response = await fetch(
+        `/api/dtm/${filename}/grid?bbox=${west},${south},${east},${north}&width=${width}&height=${height}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to load DTM grid: ${response.status}`);
+      }
+      if (response.status === 204) return null;
+      const values = new Float32Array(await response.arrayBuffer());
+
+      // Grid points sit at cell centres of the requested box
+      const toLatLng = ([col, row]: [number, number]): [number, number] => [
+        north - ((row + 0.5) / height) * (north - south),
+        west + ((col + 0.5) / width) * (east - west)
+      ];
+
+      return { values, width, height, toLatLng };
+    };
+
+    const updateContours = async () => {
+      const requestId = ++contourRequestRef.current;
+
+      try {
+        const grids = (await Promise.all(dtmLayers.map(traceDtmContours)))
+          .filter((grid): grid is NonNullable<typeof grid> => grid !== null);
+
+        // A newer request has started (map moved again) - drop this result
+        if (requestId !== contourRequestRef.current) return;
+
+        clearContours();
+
+        const levelCount = grids.reduce((total, grid) => total + getContourLevels(grid.values, contourInterval).length, 0);
+        if (levelCount > MAX_CONTOUR_LEVELS) {
+          setContourNotice(`Too many ${contourInterval} m contours in view - zoom in or increase the interval`);
+          return;
+        }
+        setContourNotice(null);
+
+        const layerGroup = L.layerGroup();
+        grids.forEach(grid => {
+          const levels = getContourLevels(grid.values, contourInterval);
+          const lines = traceContours(grid, levels, contourInterval * INDEX_CONTOUR_EVERY);
+
+          lines.forEach(line => {
+            const latLngs = line.points.map(grid.toLatLng);
+            L.polyline(latLngs, {
+              pane: 'contourPane',
+              color: '#7c4a1e',
+              weight: line.isIndex ? 1.6 : 0.8,
+              opacity: line.isIndex ? 0.9 : 0.6,
+              interactive: false
+            }).addTo(layerGroup);
+
+            // Label index contours long enough to carry a label at their midpoint
+            if (line.isIndex && latLngs.length >= MIN_LABELLED_CONTOUR_POINTS) {
+              L.marker(latLngs[Math.floor(latLngs.length / 2)], {
+                pane: 'contourPane',
+                interactive: false,
+                icon: L.divIcon({
+                  className: 'contour-label',
+                  html: `<span>${line.elevation.toFixed(0)}</span>`,
+                  iconSize: [0, 0]
+                })
+              }).addTo(layerGroup);
+            }
+          });
+        });
+
+        contourLayerRef.current = layerGroup.addTo(mapInstance);
+      } catch (error) {
+        console.error('Error generating contours:', error);
+      }
+    };
+
+    updateContours();
+    mapInstance.on('moveend', updateContours);
+
+    return () => {
+      mapInstance.off('moveend', updateContours);
+      // Invalidate any request still in flight
+      contourRequestRef.current++;
+    };
+  }, [showContours, contourInterval, dtmLayers]);
+
+  // Zoom to and briefly highlight a section of the path (e.g. a clearance issue picked in the profile)
+  useEffect(() => {
+    if (!map.current || !highlightedSection || highlightedSection.points.length === 0) return;
+
+    if (highlightLayerRef.current) {
+      map.current.removeLayer(highlightLayerRef.current);
+    }
+
+    const latlngs = highlightedSection.points.map(p => [p.lat, p.lng] as [number, number]);
+    const highlight = L.polyline(latlngs, {
+      color: highlightedSection.color,
+      weight: 8,
+      opacity: 0.9,
+      interactive: false
+    }).addTo(map.current);
+    highlightLayerRef.current = highlight;
+
+    map.current.fitBounds(L.latLngBounds(latlngs), {
+      padding: [80, 80],
+      maxZoom: 17
+    });
+
+    const timeoutId = setTimeout(() => {
+      highlight.remove();
+      if (highlightLayerRef.current === highlight) {
+        highlightLayerRef.current = null;
+      }
+    }, 4000);
+
+    return () => clearTimeout(timeoutId);
+  }, [highlightedSection]);
+
+  // Show a restored view (e.g. of an opened project)
+  useEffect(() => {
+    restoredViewRef.current = restoreViewExtent !== null;
+    if (!map.current || !restoreViewExtent) return;
+    const [minLng, minLat, maxLng, maxLat] = restoreViewExtent;
+    map.current.fitBounds([[minLat, minLng], [maxLat, maxLng]]);
+  }, [restoreViewExtent]);
 
   // Exit drawing mode if DTM is unloaded
   useEffect(() => {
@@ -410,17 +1169,21 @@ const MapPanel: React.FC<MapPanelProps> = ({
     if (!dtmLoaded && isParallelLineMode) {
       setIsParallelLineMode(false);
     }
-  }, [dtmLoaded, isDrawing, isParallelLineMode]);
+    if (!dtmLoaded && isSurveyMode) {
+      setIsSurveyMode(false);
+      setSurveyPolygon([]);
+    }
+  }, [dtmLoaded, isDrawing, isParallelLineMode, isSurveyMode]);
 
-  // Update cursor when parallel line mode changes
+  // Update cursor when parallel line or survey polygon mode changes
   useEffect(() => {
     if (!map.current) return;
-    if (isParallelLineMode) {
+    if (isParallelLineMode || isSurveyMode) {
       map.current.getContainer().style.cursor = 'crosshair';
     } else if (!isDrawing && editingPointIndex === null) {
       map.current.getContainer().style.cursor = '';
     }
-  }, [isParallelLineMode, isDrawing, editingPointIndex]);
+  }, [isParallelLineMode, isSurveyMode, isDrawing, editingPointIndex]);
 
   // Prevent map dragging when interacting with DTM transparency slider
   useEffect(() => {
@@ -454,297 +1217,233 @@ const MapPanel: React.FC<MapPanelProps> = ({
     };
   }, [dtmLoaded]);
 
-  // Handle DTM source changes - load and display DTM
+  // Handle DTM source changes - load newly added DTMs and remove unloaded ones
   useEffect(() => {
-    if (!map.current || !dtmSource) {
-      // Remove DTM overlay if source is cleared
-      if (dtmImageOverlayRef.current && map.current) {
-        map.current.removeLayer(dtmImageOverlayRef.current);
-        dtmImageOverlayRef.current = null;
-      }
-      // Remove DTM boundary if present
-      if (dtmBoundaryRef.current && map.current) {
-        map.current.removeLayer(dtmBoundaryRef.current);
-        dtmBoundaryRef.current = null;
-      }
-      // Reset file input so it can be used again
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+    if (!map.current) return;
+    const mapInstance = map.current;
+
+    // Remove the layers of DTMs that were unloaded
+    dtmMapLayersRef.current.forEach((layers, source) => {
+      if (!dtmSources.includes(source)) {
+        mapInstance.removeLayer(layers.tiles);
+        mapInstance.removeLayer(layers.boundary);
+        dtmMapLayersRef.current.delete(source);
       }
-      setDtmLoaded(false);
-      setDtmBounds(null);
-      // Keep opacity setting - don't reset it so user preference persists
-      return;
+    });
+    setDtmLayers(prev => prev.filter(layer => dtmSources.includes(layer.source)));
+
+    // Reset file input so it can be used again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
+    // Keep opacity setting - don't reset it so user preference persists
 
-    const loadDTM = async () => {
-      setDtmLoaded(false); // Reset loading state when starting to load
+    const loadDTM = async (dtmSource: string) => {
       try {
         // Extract filename from path
         const filename = dtmSource.split('/').pop();
         if (!filename) return;
+        const name = filename.replace(/^\d+-/, '');
 
         // Fetch raster data
-        const response = await fetch(`/api/dtm/${filename}/raster`);
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-          throw new Error(errorData.error || `Failed to load DTM data: ${response.status}`);
+        const fetchRasterData = async () => {
+          const response = await fetch(`/api/dtm/${filename}/raster`);
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+            throw new Error(errorData.error || `Failed to load DTM data: ${response.status}`);
+          }
+          return response.json();
+        };
+
+        let rasterData = await fetchRasterData();
+
+        // A DTM can't be placed without its CRS - ask rather than guess
+        if (rasterData.crsRequired) {
+          const accepted = await promptForDtmCrs(
+            filename,
+            `The coordinate system of ${name} could not be detected from its metadata.`
+          );
+          if (!accepted) {
+            alert(`${name} was not loaded - it can't be placed on the map without its coordinate system.`);
+            onDtmUnload(dtmSource);
+            return;
+          }
+          onDtmCrsChange(dtmSource);
+          rasterData = await fetchRasterData();
         }
 
-        const rasterData = await response.json();
-        console.log('DTM raster data received:', {
+        console.log('DTM metadata received:', {
           width: rasterData.width,
           height: rasterData.height,
-          dataLength: rasterData.data?.length,
           min: rasterData.min,
           max: rasterData.max,
           bounds: rasterData.bounds
         });
 
-        const { width, height, data, min, max, bounds, isProjected, epsg, crs } = rasterData;
+        const { min, max, histogram, bounds, wgs84Bounds, crs, tileUrl, tileBuffer } = rasterData;
         
-        if (!data || !Array.isArray(data) || data.length === 0) {
-          throw new Error('Invalid DTM data: empty or invalid data array');
+        if (!tileUrl) {
+          throw new Error('Invalid DTM data: no tile URL');
         }
         
-        if (!bounds || !Array.isArray(bounds) || bounds.length !== 4) {
+        // The backend transforms the DTM extent to WGS84 with the detected CRS
+        if (!crs || !wgs84Bounds || !Array.isArray(wgs84Bounds) || wgs84Bounds.length !== 4) {
           throw new Error('Invalid DTM bounds');
         }
-        
-        // Transform projected coordinates to WGS84 (lat/lon) if needed
-        let transformedBounds = bounds;
-        
-        if (isProjected) {
-          console.log('DTM uses projected coordinates. Attempting coordinate transformation...');
-          console.log('EPSG Code:', epsg);
-          console.log('CRS Info:', crs);
-          
-          // Try to determine source projection from EPSG code
-          let sourceProj: string | null = null;
-          
-          if (epsg) {
-            // Use the EPSG code directly
-            sourceProj = `EPSG:${epsg}`;
-            console.log('Using source projection from EPSG:', sourceProj);
-          } else if (crs?.projectedCSType) {
-            // Try to use projected CRS type
-            sourceProj = `EPSG:${crs.projectedCSType}`;
-            console.log('Using source projection from CRS:', sourceProj);
-          }
-          
-          if (!sourceProj) {
-            // Default to UTM Zone 36N (EPSG:32636) when no coordinate system is detected
-            sourceProj = 'EPSG:32636';
-            console.warn('Could not determine EPSG code from GeoTIFF metadata.');
-            console.warn('Assuming UTM Zone 36N (EPSG:32636) as default coordinate system.');
-          }
-          
-          if (sourceProj) {
-            try {
-              // Transform bounds from projected to WGS84
-              const [minX, minY, maxX, maxY] = bounds;
-              
-              console.log(`Transforming from ${sourceProj} to EPSG:4326 (WGS84)...`);
-              
-              // Transform all four corners
-              const topLeft = proj4(sourceProj, 'EPSG:4326', [minX, maxY]);
-              const topRight = proj4(sourceProj, 'EPSG:4326', [maxX, maxY]);
-              const bottomRight = proj4(sourceProj, 'EPSG:4326', [maxX, minY]);
-              const bottomLeft = proj4(sourceProj, 'EPSG:4326', [minX, minY]);
-              
-              // Create new bounds from transformed coordinates
-              const transformedMinX = Math.min(topLeft[0], topRight[0], bottomRight[0], bottomLeft[0]);
-              const transformedMinY = Math.min(topLeft[1], topRight[1], bottomRight[1], bottomLeft[1]);
-              const transformedMaxX = Math.max(topLeft[0], topRight[0], bottomRight[0], bottomLeft[0]);
-              const transformedMaxY = Math.max(topLeft[1], topRight[1], bottomRight[1], bottomLeft[1]);
-              
-              transformedBounds = [transformedMinX, transformedMinY, transformedMaxX, transformedMaxY];
-              
-              console.log('Original bounds (projected):', bounds);
-              console.log('Transformed bounds (WGS84):', transformedBounds);
-              console.log('✅ Coordinate transformation successful!');
-            } catch (transformError) {
-              console.error('Error transforming coordinates:', transformError);
-              console.error('Source projection:', sourceProj);
-              alert(`Failed to transform coordinates: ${transformError instanceof Error ? transformError.message : 'Unknown error'}\n\nSource projection: ${sourceProj}\n\nPlease check that the EPSG code in your GeoTIFF is correct.`);
-              throw new Error(`Coordinate transformation failed: ${transformError instanceof Error ? transformError.message : 'Unknown error'}`);
-            }
-          }
-        } else {
-          console.log('DTM already uses geographic coordinates (WGS84) - no transformation needed');
-        }
+        const transformedBounds: number[] = wgs84Bounds;
 
-        // Create canvas to render elevation as image
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        // Create image data
-        const imageData = ctx.createImageData(width, height);
-        const range = max - min || 1;
-
-        // Convert elevation data to grayscale
-        const noDataValue = rasterData.noDataValue;
-        for (let i = 0; i < data.length; i++) {
-          let elevation = data[i];
-          
-          // Skip no-data values
-          if (noDataValue !== null && noDataValue !== undefined && elevation === noDataValue) {
-            elevation = min; // Use min for no-data to render as lowest elevation
-          }
-          
-          if (isNaN(elevation) || !isFinite(elevation)) {
-            elevation = min;
-          }
-          
-          const normalized = (elevation - min) / range;
-          
-          // Grayscale: black (low) -> white (high)
-          // Convert normalized value (0-1) to grayscale (0-255)
-          const gray = Math.floor(normalized * 255);
-          const r = gray;
-          const g = gray;
-          const b = gray;
-
-          const idx = i * 4;
-          imageData.data[idx] = r;     // R
-          imageData.data[idx + 1] = g; // G
-          imageData.data[idx + 2] = b;  // B
-          imageData.data[idx + 3] = 255; // A (fully opaque for better visibility)
+        console.log(`DTM coordinate system: ${crs.name} (${crs.source})`);
+        console.log('Original bounds:', bounds);
+        console.log('Transformed bounds (WGS84):', transformedBounds);
+
+        if (!map.current) {
+          console.error('Map not initialized');
+          return;
         }
 
-        ctx.putImageData(imageData, 0, 0);
-        console.log('Canvas rendered, creating image...');
+        // Unloaded again while its metadata was loading
+        if (!dtmSourcesRef.current.includes(dtmSource)) {
+          return;
+        }
 
-        // Helper function to add DTM layer
-        // @ts-ignore
-        const addDTMLayer = (img: HTMLImageElement, bounds: number[]) => {
-          if (!map.current) {
-            console.error('Map not initialized');
-            return;
-          }
+        console.log('Adding DTM layer to map...');
+        console.log('Bounds (WGS84):', transformedBounds);
 
-          console.log('Adding DTM layer to map...');
-          console.log('Bounds (WGS84):', bounds);
+        // Get bounds (now in WGS84 lat/lon)
+        const [minX, minY, maxX, maxY] = transformedBounds;
 
-          // Remove existing DTM overlay if present
-          if (dtmImageOverlayRef.current) {
-            map.current.removeLayer(dtmImageOverlayRef.current);
-            dtmImageOverlayRef.current = null;
-          }
-          // Remove existing DTM boundary if present
-          if (dtmBoundaryRef.current) {
-            map.current.removeLayer(dtmBoundaryRef.current);
-            dtmBoundaryRef.current = null;
-          }
-
-          // Get bounds (now in WGS84 lat/lon)
-          const [minX, minY, maxX, maxY] = bounds;
+        // Layer bounds in Leaflet format (southwest, northeast)
+        const imageBounds: L.LatLngBoundsExpression = [
+          [minY, minX], // Southwest (south, west)
+          [maxY, maxX]  // Northeast (north, east)
+        ];
 
+        try {
+          // Elevation tiles are fetched for the visible area only, with user-defined
+          // opacity (default 90% transparency = 10% opacity)
+          const statistics: ElevationStatistics = { min, max, histogram };
+          const tiles = createDtmTileLayer({
+            tileUrl,
+            statistics,
+            tileBuffer: tileBuffer ?? 0,
+            renderOptions: dtmRenderOptions,
+            bounds: L.latLngBounds(imageBounds),
+            opacity: dtmOpacity
+          }).addTo(map.current);
+
+          // Add black solid stroke boundary rectangle
+          const boundary = L.rectangle(imageBounds, {
+            color: '#000000',
+            weight: 2,
+            fill: false,
+            opacity: 1.0
+          })
+            .bindTooltip(name)
+            .addTo(map.current);
+
+          dtmMapLayersRef.current.set(dtmSource, { tiles, boundary });
+
+          console.log('DTM layer added successfully');
+          // Bounds feed the mosaic extent used by "Fit to DTM" and the bounds checks
+          setDtmLayers(prev => [
+            ...prev,
+            { source: dtmSource, name, bounds: transformedBounds, crs, statistics, visible: true }
+          ]);
+
+          // Fit map to DTM bounds (now in WGS84), unless a restored view is shown
+          if (restoredViewRef.current) return;
+          console.log('Fitting map to DTM bounds (WGS84):', transformedBounds);
           try {
-            const imageUrl = canvas.toDataURL();
-            console.log('Image URL length:', imageUrl.length);
-            console.log('Canvas dimensions:', canvas.width, 'x', canvas.height);
-
-            // Create image overlay bounds in Leaflet format (southwest, northeast)
-            const imageBounds: L.LatLngBoundsExpression = [
-              [minY, minX], // Southwest (south, west)
-              [maxY, maxX]  // Northeast (north, east)
-            ];
-
-            // Add image overlay with user-defined opacity (default 90% transparency = 10% opacity)
-            dtmImageOverlayRef.current = L.imageOverlay(imageUrl, imageBounds, {
-              opacity: dtmOpacity
-            }).addTo(map.current);
-
-            // Add black solid stroke boundary rectangle
-            dtmBoundaryRef.current = L.rectangle(imageBounds, {
-              color: '#000000',
-              weight: 2,
-              fill: false,
-              opacity: 1.0
-            }).addTo(map.current);
-
-            console.log('DTM layer added successfully');
-            setDtmLoaded(true);
-            setDtmBounds(bounds); // Store bounds for the "Fit to DTM" button
-
-            // Fit map to DTM bounds (now in WGS84)
-            console.log('Fitting map to DTM bounds (WGS84):', bounds);
-            try {
-              map.current.fitBounds(imageBounds, {
-                padding: [50, 50],
-                maxZoom: 18
-              });
-              console.log('Map fitted to DTM bounds successfully');
-            } catch (fitError) {
-              console.error('Error fitting map to bounds:', fitError);
-              // Fallback: try to center on the middle of the bounds
-              const centerLng = (minX + maxX) / 2;
-              const centerLat = (minY + maxY) / 2;
-              console.log('Falling back to center:', centerLng, centerLat);
-              map.current.setView([centerLat, centerLng], 13);
-            }
-          } catch (sourceError) {
-            console.error('Error adding DTM source/layer:', sourceError);
-            console.error('Error details:', sourceError);
-            setDtmLoaded(false);
-            alert(`Failed to add DTM to map: ${sourceError instanceof Error ? sourceError.message : 'Unknown error'}\n\nCheck browser console for details.`);
+            map.current.fitBounds(imageBounds, {
+              padding: [50, 50],
+              maxZoom: 18
+            });
+            console.log('Map fitted to DTM bounds successfully');
+          } catch (fitError) {
+            console.error('Error fitting map to bounds:', fitError);
+            // Fallback: try to center on the middle of the bounds
+            const centerLng = (minX + maxX) / 2;
+            const centerLat = (minY + maxY) / 2;
+            console.log('Falling back to center:', centerLng, centerLat);
+            map.current.setView([centerLat, centerLng], 13);
           }
-        };
-
-        // Convert canvas to image
-        const img = new Image();
-        img.onload = () => {
-          console.log('DTM image loaded successfully, dimensions:', img.width, 'x', img.height);
-          console.log('Image src length:', img.src.length);
-          
-          // Wait for map to be fully loaded
-          if (!map.current) {
-            console.error('Map not initialized');
-            return;
-          }
-
-          addDTMLayer(img, transformedBounds);
-        };
-
-        img.onerror = (error) => {
-          console.error('Error loading DTM image:', error);
-          setDtmLoaded(false);
-          alert('Failed to create DTM image from canvas. Check console for details.');
-        };
-
-        const dataUrl = canvas.toDataURL();
-        console.log('Canvas data URL created, length:', dataUrl.length);
-        if (dataUrl.length < 100) {
-          console.error('Canvas data URL seems too short, might be empty!');
+        } catch (layerError) {
+          console.error('Error adding DTM layer:', layerError);
+          alert(`Failed to add DTM to map: ${layerError instanceof Error ? layerError.message : 'Unknown error'}\n\nCheck browser console for details.`);
         }
-        img.src = dataUrl;
       } catch (error) {
         console.error('Error loading DTM:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        setDtmLoaded(false);
         alert(`Failed to load DTM: ${errorMessage}\n\nPlease ensure the file is a valid GeoTIFF with elevation data.`);
       }
     };
 
-    loadDTM();
-  }, [dtmSource]);
+    dtmSources
+      .filter(source => !dtmMapLayersRef.current.has(source) && !dtmLoadingRef.current.has(source))
+      .forEach(source => {
+        dtmLoadingRef.current.add(source);
+        loadDTM(source).finally(() => dtmLoadingRef.current.delete(source));
+      });
+  }, [dtmSources, dtmRevision]);
+
+  // Render the whole mosaic against one elevation range
+  useEffect(() => {
+    if (!dtmStatistics) return;
+    dtmMapLayersRef.current.forEach(layers => layers.tiles.setStatistics(dtmStatistics));
+  }, [dtmStatistics]);
+
+  // Show or hide one DTM of the mosaic (it still counts for sampling and bounds checks)
+  const handleToggleDtmVisibility = (source: string) => {
+    const layers = dtmMapLayersRef.current.get(source);
+    const entry = dtmLayers.find(layer => layer.source === source);
+    if (!map.current || !layers || !entry) return;
+
+    if (entry.visible) {
+      map.current.removeLayer(layers.tiles);
+    } else {
+      layers.tiles.addTo(map.current);
+    }
+    setDtmLayers(prev => prev.map(layer =>
+      layer.source === source ? { ...layer, visible: !layer.visible } : layer
+    ));
+  };
+
+  // Let the user correct a DTM's coordinate system, then place it again
+  const handleChangeDtmCrs = async (entry: DtmLayerEntry) => {
+    const filename = entry.source.split('/').pop();
+    if (!filename) return;
+
+    const accepted = await promptForDtmCrs(
+      filename,
+      `${entry.name} is placed using ${entry.crs.name}${entry.crs.code ? ` (${entry.crs.code})` : ''}.`
+    );
+    if (!accepted) return;
+
+    // Drop the layers placed with the old CRS - the DTM is loaded again on the next revision
+    const layers = dtmMapLayersRef.current.get(entry.source);
+    if (layers && map.current) {
+      map.current.removeLayer(layers.tiles);
+      map.current.removeLayer(layers.boundary);
+    }
+    dtmMapLayersRef.current.delete(entry.source);
+    setDtmLayers(prev => prev.filter(layer => layer.source !== entry.source));
+    onDtmCrsChange(entry.source);
+  };
+
+  const handleFitToDtmLayer = (bounds: number[]) => {
+    if (!map.current) return;
+    const [minX, minY, maxX, maxY] = bounds;
+    map.current.fitBounds([[minY, minX], [maxY, maxX]], {
+      padding: [50, 50],
+      maxZoom: 18
+    });
+  };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-
-    // Prevent uploading if a DTM is already loaded
-    if (dtmLoaded) {
-      alert('A DTM is already loaded. Please unload it first before loading a new one.');
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-      return;
-    }
+    // A newly uploaded DTM is fitted even while a restored view is shown
+    restoredViewRef.current = false;
 
     const formData = new FormData();
     formData.append('dtm', file);
@@ -821,6 +1520,101 @@ const MapPanel: React.FC<MapPanelProps> = ({
     }
   };
 
+  // Import the polygon and line layers of a zipped Shapefile or GeoPackage as reference layers
+  const handleVectorUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('vector', file);
+
+    try {
+      const response = await fetch('/api/upload-vector', { method: 'POST', body: formData });
+      const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+      if (!response.ok) {
+        throw new Error(data.error || `Upload failed with status ${response.status}`);
+      }
+
+      const imported: ReferenceLayer[] = data.layers
+        .filter((layer: any) => layer.features.length > 0)
+        .map((layer: any, index: number) => ({
+          id: `${Date.now()}-${index}`,
+          name: layer.name,
+          features: layer.features,
+          visible: true
+        }));
+      const skipped = data.layers.reduce((total: number, layer: any) => total + layer.skipped, 0);
+
+      if (imported.length === 0) {
+        alert(`${file.name} contains no polygon or line features`);
+        return;
+      }
+      if (skipped > 0) {
+        alert(`${skipped} point or empty feature(s) in ${file.name} were skipped - only polygons and lines are imported`);
+      }
+
+      onReferenceLayersChange([...referenceLayers, ...imported]);
+
+      if (map.current) {
+        const extents = imported.map(getReferenceLayerBounds);
+        map.current.fitBounds([
+          [Math.min(...extents.map(b => b[1])), Math.min(...extents.map(b => b[0]))],
+          [Math.max(...extents.map(b => b[3])), Math.max(...extents.map(b => b[2]))]
+        ], { padding: [50, 50], maxZoom: 18 });
+      }
+    } catch (error) {
+      console.error('Error importing reference layers:', error);
+      alert(`Failed to import reference layers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (vectorInputRef.current) {
+        vectorInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleToggleReferenceLayer = (id: string) => {
+    onReferenceLayersChange(referenceLayers.map(layer =>
+      layer.id === id ? { ...layer, visible: !layer.visible } : layer
+    ));
+  };
+
+  const handleRemoveReferenceLayer = (id: string) => {
+    onReferenceLayersChange(referenceLayers.filter(layer => layer.id !== id));
+  };
+
+  const handleRenameLine = (line: FlightLine) => {
+    const name = prompt('Enter a name for the flight line:', line.name);
+    if (name !== null && name.trim() && name.trim() !== line.name) {
+      onUpdateLine(line.id, { name: name.trim() });
+    }
+  };
+
+  const handleSetLineHeight = (line: FlightLine) => {
+    const heightInput = prompt(
+      `Enter the default flight height (AGL in meters) of ${line.name}:\n` +
+      `Applies to its vertices without their own height - leave empty to use the nominal height`,
+      line.defaultHeight !== null ? line.defaultHeight.toString() : ''
+    );
+    if (heightInput === null) return;
+
+    if (!heightInput.trim()) {
+      onUpdateLine(line.id, { defaultHeight: null });
+      return;
+    }
+    const height = parseFloat(heightInput);
+    if (isNaN(height) || height < 0) {
+      alert('Invalid height. Please enter a positive number.');
+      return;
+    }
+    onUpdateLine(line.id, { defaultHeight: height });
+  };
+
+  const handleDeleteLine = (line: FlightLine) => {
+    if (line.points.length === 0 || window.confirm(`Delete ${line.name} and its ${line.points.length} points?`)) {
+      onDeleteLine(line.id);
+    }
+  };
+
   const handleFitToDTM = () => {
     if (!map.current || !dtmBounds) return;
     
@@ -856,12 +1650,21 @@ const MapPanel: React.FC<MapPanelProps> = ({
 
   const handleSetFlightHeight = (pointIndex: number) => {
     const currentPoint = flightPath[pointIndex];
-    const currentHeight = currentPoint.height ?? nominalFlightHeight;
-    const heightInput = prompt(`Enter flight height (AGL in meters) for point ${pointIndex + 1}:`, currentHeight.toString());
+    const isMSL = currentPoint.altitudeReference === 'MSL';
+    const ground = getGroundElevationAt(currentPoint);
+    const currentHeight = isMSL
+      ? currentPoint.height ?? (ground !== null ? ground + nominalFlightHeight : nominalFlightHeight)
+      : currentPoint.height ?? nominalFlightHeight;
+    const heightInput = prompt(
+      isMSL
+        ? `Enter flight altitude (MSL in meters) for point ${pointIndex + 1}:`
+        : `Enter flight height (AGL in meters) for point ${pointIndex + 1}:`,
+      currentHeight.toString()
+    );
     
     if (heightInput !== null) {
       const height = parseFloat(heightInput);
-      if (!isNaN(height) && height >= 0) {
+      if (!isNaN(height) && (isMSL || height >= 0)) {
         onUpdatePoint(pointIndex, {
           ...currentPoint,
           height
@@ -872,6 +1675,41 @@ const MapPanel: React.FC<MapPanelProps> = ({
     }
   };
 
+  const handleSetAltitudeReference = (pointIndex: number) => {
+    const currentPoint = flightPath[pointIndex];
+    const currentReference = currentPoint.altitudeReference ?? 'AGL';
+    const referenceInput = prompt(
+      `Enter altitude reference for point ${pointIndex + 1} (applies to the strip starting at this point):\n` +
+      `AGL - hold a height above ground\n` +
+      `MSL - fly a constant barometric altitude`,
+      currentReference
+    );
+
+    if (referenceInput === null) return;
+
+    const reference = referenceInput.trim().toUpperCase();
+    if (reference !== 'AGL' && reference !== 'MSL') {
+      alert('Invalid altitude reference. Please enter AGL or MSL.');
+      return;
+    }
+
+    if (reference === currentReference) return;
+
+    // Convert the stored height so the aircraft altitude at this vertex is unchanged
+    const ground = getGroundElevationAt(currentPoint);
+    if (ground === null) {
+      onUpdatePoint(pointIndex, { ...currentPoint, altitudeReference: reference, height: undefined });
+      return;
+    }
+
+    const altitude = getVertexAltitude(currentPoint, ground, nominalFlightHeight);
+    onUpdatePoint(pointIndex, {
+      ...currentPoint,
+      altitudeReference: reference,
+      height: reference === 'MSL' ? Math.round(altitude) : Math.max(0, Math.round(altitude - ground))
+    });
+  };
+
   const handleCreatePointFromAzimuthDistance = () => {
     if (flightPath.length === 0) {
       alert('Please add at least one point first before creating a point from azimuth and distance.');
@@ -928,17 +1766,138 @@ const MapPanel: React.FC<MapPanelProps> = ({
     onAddPoint(newPoint);
   };
 
+  const handleGenerateSurveyPattern = () => {
+    if (surveyPolygon.length < 3) {
+      alert('Survey polygon must have at least 3 vertices.');
+      return;
+    }
+
+    // Prompt for flight line heading (default: along the longest polygon edge)
+    const headingInput = prompt(
+      `Enter flight line heading in degrees (0-360, measured from north):\n` +
+      `Default follows the longest edge of the polygon`,
+      suggestSurveyHeading(surveyPolygon).toFixed(1)
+    );
+
+    if (headingInput === null) return;
+
+    const heading = parseFloat(headingInput);
+    if (isNaN(heading) || heading < 0 || heading >= 360) {
+      alert('Invalid heading. Please enter a number between 0 and 360.');
+      return;
+    }
+
+    // Prompt for line spacing (in meters)
+    // Default spacing follows the sensor swath at nominal height and the target sidelap
+    const defaultSpacing = calculateLineSpacing(nominalFlightHeight, sensorModel.fovDegrees, sidelapPercent);
+    const spacingInput = prompt(
+      `Enter line spacing in meters:\n` +
+      `Default is derived from FOV ${sensorModel.fovDegrees}°, ${sidelapPercent}% sidelap at ${nominalFlightHeight} m AGL`,
+      defaultSpacing > 0 ? defaultSpacing.toFixed(1) : '100'
+    );
+
+    if (spacingInput === null) return;
+
+    const spacing = parseFloat(spacingInput);
+    if (isNaN(spacing) || spacing <= 0) {
+      alert('Invalid line spacing. Please enter a positive number.');
+      return;
+    }
+
+    const pattern = generateLawnmowerPattern(surveyPolygon, heading, spacing);
+
+    if (pattern.length === 0) {
+      alert('No flight lines fit inside the polygon. Please use a smaller line spacing.');
+      return;
+    }
+
+    if (pattern.flat().some(p => !isPointWithinBounds(p.lng, p.lat))) {
+      alert('Generated flight lines would be outside DTM bounds. Please draw the polygon within the DTM extent.');
+      return;
+    }
+
+    // Every strip becomes a flight line, added as a single undoable action; the pattern
+    // alternates direction, so flying the lines in order joins the strips by short turns, and a
+    // strip that can't be left straight for the next one ends with the way round inside the polygon
+    const strips: NewFlightLine[] = pattern.map((points, i) => ({ name: `Strip ${i + 1}`, points }));
+    onAddLines(strips);
+    setSurveyPolygon([]);
+    setIsSurveyMode(false);
+  };
+
+  const handleTerrainFollowing = () => {
+    if (flightPath.length < 2) {
+      alert('Flight path must have at least 2 points.');
+      return;
+    }
+
+    const minInput = prompt('Enter minimum AGL in meters:', String(Math.round(nominalFlightHeight * 0.9)));
+    if (minInput === null) return;
+
+    const maxInput = prompt('Enter maximum AGL in meters:', String(Math.round(nominalFlightHeight * 1.2)));
+    if (maxInput === null) return;
+
+    const gradientInput = prompt('Enter maximum climb/descent gradient in percent:', '10');
+    if (gradientInput === null) return;
+
+    const minAGL = parseFloat(minInput);
+    const maxAGL = parseFloat(maxInput);
+    const maxGradientPercent = parseFloat(gradientInput);
+
+    if (isNaN(minAGL) || isNaN(maxAGL) || minAGL < 0 || maxAGL <= minAGL) {
+      alert('Invalid AGL band. Please enter a positive minimum and a larger maximum.');
+      return;
+    }
+
+    if (isNaN(maxGradientPercent) || maxGradientPercent <= 0) {
+      alert('Invalid gradient. Please enter a positive number.');
+      return;
+    }
+
+    const mslVertexCount = flightPath.filter(p => p.altitudeReference === 'MSL').length;
+    if (mslVertexCount > 0 && !window.confirm(
+      `${mslVertexCount} of the line's vertices have an MSL altitude reference. ` +
+      `Terrain following sets every vertex to a height above ground (AGL), so they become AGL vertices.\n\nContinue?`
+    )) {
+      return;
+    }
+
+    const result = generateTerrainFollowingPath(flightPath, elevationProfile, { minAGL, maxAGL, maxGradientPercent });
+    if (!result) {
+      alert('The elevation profile is not ready for the current path. Please wait for it to finish calculating.');
+      return;
+    }
+
+    // Apply all generated heights and vertices as a single undoable action
+    onPathChange(result.path);
+    alert(
+      `Terrain-following heights generated for ${result.path.length} vertices (${result.insertedCount} inserted).` +
+      (result.bandViolations > 0
+        ? `\n\nWarning: at ${result.bandViolations} samples the ${maxGradientPercent}% gradient limit forces the aircraft above ${maxAGL} m AGL.`
+        : '')
+    );
+  };
+
   // Handle DTM opacity change
   const handleDtmOpacityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newOpacity = parseFloat(e.target.value);
     setDtmOpacity(newOpacity);
     
-    // Update the DTM overlay opacity if it exists
-    if (dtmImageOverlayRef.current) {
-      dtmImageOverlayRef.current.setOpacity(newOpacity);
-    }
+    // Update the opacity of every DTM of the mosaic
+    dtmMapLayersRef.current.forEach(layers => layers.tiles.setOpacity(newOpacity));
+  };
+
+  // Re-render the DTM tiles when the renderer settings change
+  useEffect(() => {
+    dtmMapLayersRef.current.forEach(layers => layers.tiles.setRenderOptions(dtmRenderOptions));
+  }, [dtmRenderOptions]);
+
+  const updateDtmRenderOptions = (changes: Partial<DtmRenderOptions>) => {
+    setDtmRenderOptions(prev => ({ ...prev, ...changes }));
   };
 
+  const dtmLegend = dtmStatistics ? getDtmLegend(dtmRenderOptions, dtmStatistics) : null;
+
   const handleCreatePointFromCoordinates = () => {
     if (!dtmLoaded) {
       alert('Please load a DTM first.');
@@ -1077,6 +2036,10 @@ const MapPanel: React.FC<MapPanelProps> = ({
             handleSetFlightHeight(contextMenu.pointIndex);
             setContextMenu(null);
           }}
+          onSetAltitudeReference={() => {
+            handleSetAltitudeReference(contextMenu.pointIndex);
+            setContextMenu(null);
+          }}
         />
       )}
       {editingPointIndex !== null && (
@@ -1089,6 +2052,11 @@ const MapPanel: React.FC<MapPanelProps> = ({
           Parallel Line mode: Click on a line segment to create a parallel line
         </div>
       )}
+      {isSurveyMode && (
+        <div className="edit-mode-indicator">
+          Survey Polygon mode: Click on the map to outline the area ({surveyPolygon.length} vertices), then generate the pattern
+        </div>
+      )}
       <div className="map-controls">
         <div className="control-group">
           <div className="group-title">Data Management</div>
@@ -1101,36 +2069,150 @@ const MapPanel: React.FC<MapPanelProps> = ({
                 onChange={handleFileUpload}
                 id="dtm-upload"
                 style={{ display: 'none' }}
-                disabled={dtmLoaded}
               />
               <label 
                 htmlFor="dtm-upload" 
-                className={`btn btn-secondary ${dtmLoaded ? 'disabled' : ''}`}
-                style={dtmLoaded ? { opacity: 0.5, cursor: 'not-allowed', pointerEvents: 'none' } : {}}
-                title={dtmLoaded ? 'A DTM is already loaded. Unload it first to load a new one.' : 'Load a Digital Terrain Model file'}
+                className="btn btn-secondary"
+                title={dtmLoaded ? 'Add another DTM to the mosaic' : 'Load a Digital Terrain Model file'}
               >
-                Load DTM
+                {dtmLoaded ? 'Add DTM' : 'Load DTM'}
               </label>
               <button
-                onClick={onDtmUnload}
+                onClick={() => onDtmUnload()}
                 className="btn btn-destructive"
-                disabled={!dtmSource || !dtmLoaded}
-                title={!dtmSource || !dtmLoaded ? 'No DTM loaded' : 'Unload DTM from map'}
+                disabled={!dtmLoaded}
+                title={!dtmLoaded ? 'No DTM loaded' : 'Unload all DTMs from map'}
               >
-                Unload DTM
+                {dtmLayers.length > 1 ? 'Unload All DTMs' : 'Unload DTM'}
               </button>
+              <input
+                ref={vectorInputRef}
+                type="file"
+                accept=".zip,.gpkg"
+                onChange={handleVectorUpload}
+                id="vector-upload"
+                style={{ display: 'none' }}
+              />
+              <label
+                htmlFor="vector-upload"
+                className="btn btn-secondary"
+                title="Import boundaries and lines from a zipped Shapefile or GeoPackage"
+              >
+                Import Boundaries
+              </label>
             </div>
             <div className="group-column">
               <button
                 onClick={handleDeleteAllPoints}
                 className="btn btn-destructive"
                 disabled={flightPath.length === 0}
-                title={flightPath.length === 0 ? 'No points to delete' : 'Delete all flight path points'}
+                title={flightPath.length === 0 ? 'No points to delete' : 'Delete all points of the selected line'}
               >
                 Delete All Points
               </button>
             </div>
           </div>
+          {referenceLayers.length > 0 && (
+            <ul className="reference-layer-list">
+              {referenceLayers.map(layer => (
+                <li key={layer.id} className="dtm-layer-item">
+                  <label title={layer.visible ? 'Hide this layer' : 'Show this layer'}>
+                    <input
+                      type="checkbox"
+                      checked={layer.visible}
+                      onChange={() => handleToggleReferenceLayer(layer.id)}
+                    />
+                    <span className="dtm-layer-name">{layer.name} ({layer.features.length})</span>
+                  </label>
+                  <button
+                    onClick={() => handleFitToDtmLayer(getReferenceLayerBounds(layer))}
+                    className="dtm-layer-action"
+                    title="Zoom to this layer"
+                  >
+                    ⌖
+                  </button>
+                  <button
+                    onClick={() => handleRemoveReferenceLayer(layer.id)}
+                    className="dtm-layer-action"
+                    title="Remove this layer"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="control-group">
+          <div className="group-title">Flight Lines</div>
+          <ul className="flight-line-list">
+            {lines.map((line, index) => (
+              <li
+                key={line.id}
+                className={`dtm-layer-item flight-line-item ${line.id === activeLineId ? 'active' : ''}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={line.enabled}
+                  onChange={() => onUpdateLine(line.id, { enabled: !line.enabled })}
+                  title={line.enabled ? 'Disable this line - it stays in the mission but is not exported' : 'Enable this line'}
+                />
+                <input
+                  type="color"
+                  value={line.color}
+                  onChange={(e) => onUpdateLine(line.id, { color: e.target.value })}
+                  className="flight-line-color"
+                  title="Line colour"
+                />
+                <span
+                  className="dtm-layer-name flight-line-name"
+                  onClick={() => onSelectLine(line.id)}
+                  onDoubleClick={() => handleRenameLine(line)}
+                  title={line.id === activeLineId ? 'Selected for editing - double-click to rename' : 'Click to edit this line - double-click to rename'}
+                >
+                  {line.name} ({line.points.length})
+                </span>
+                <button
+                  onClick={() => handleSetLineHeight(line)}
+                  className="dtm-layer-crs"
+                  title="Default flight height of this line"
+                >
+                  {line.defaultHeight !== null ? `${line.defaultHeight} m` : 'Nominal'}
+                </button>
+                <button
+                  onClick={() => onMoveLine(line.id, -1)}
+                  className="dtm-layer-action"
+                  disabled={index === 0}
+                  title="Fly this line earlier"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => onMoveLine(line.id, 1)}
+                  className="dtm-layer-action"
+                  disabled={index === lines.length - 1}
+                  title="Fly this line later"
+                >
+                  ▼
+                </button>
+                <button
+                  onClick={() => handleDeleteLine(line)}
+                  className="dtm-layer-action"
+                  title="Delete this line"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onAddLine}
+            className="btn btn-secondary"
+            title="Start a new, empty flight line and select it for drawing"
+          >
+            New Line
+          </button>
         </div>
 
         <div className="control-group">
@@ -1142,6 +2224,8 @@ const MapPanel: React.FC<MapPanelProps> = ({
                   setIsDrawing(!isDrawing);
                   setEditingPointIndex(null);
                   setIsParallelLineMode(false);
+                  setIsSurveyMode(false);
+                  setSurveyPolygon([]);
                 }}
                 className={`btn btn-primary ${isDrawing ? 'active' : ''}`}
                 disabled={!dtmLoaded}
@@ -1154,6 +2238,8 @@ const MapPanel: React.FC<MapPanelProps> = ({
                   setIsParallelLineMode(!isParallelLineMode);
                   setIsDrawing(false);
                   setEditingPointIndex(null);
+                  setIsSurveyMode(false);
+                  setSurveyPolygon([]);
                 }}
                 className={`btn btn-secondary ${isParallelLineMode ? 'active' : ''}`}
                 disabled={!dtmLoaded || flightPath.length < 2}
@@ -1167,6 +2253,44 @@ const MapPanel: React.FC<MapPanelProps> = ({
               >
                 {isParallelLineMode ? 'Cancel Parallel Line' : 'Create Parallel Line'}
               </button>
+              <button
+                onClick={() => {
+                  setIsSurveyMode(!isSurveyMode);
+                  setSurveyPolygon([]);
+                  setIsDrawing(false);
+                  setIsParallelLineMode(false);
+                  setEditingPointIndex(null);
+                }}
+                className={`btn btn-secondary ${isSurveyMode ? 'active' : ''}`}
+                disabled={!dtmLoaded}
+                title={!dtmLoaded ? 'Load a DTM first to enable survey polygon drawing' : 'Outline an area to fill with parallel flight lines'}
+              >
+                {isSurveyMode ? 'Cancel Survey Polygon' : 'Survey Polygon'}
+              </button>
+              <button
+                onClick={handleTerrainFollowing}
+                className="btn btn-secondary"
+                disabled={!dtmLoaded || flightPath.length < 2 || elevationProfile.length === 0}
+                title={
+                  !dtmLoaded
+                    ? 'Load a DTM first to enable terrain following'
+                    : flightPath.length < 2
+                      ? 'Flight path must have at least 2 points'
+                      : 'Generate vertex heights that keep the aircraft within an AGL band and gradient limit'
+                }
+              >
+                Terrain Follow
+              </button>
+              {isSurveyMode && (
+                <button
+                  onClick={handleGenerateSurveyPattern}
+                  className="btn btn-primary"
+                  disabled={surveyPolygon.length < 3}
+                  title={surveyPolygon.length < 3 ? 'Survey polygon must have at least 3 vertices' : 'Fill the polygon with a lawnmower flight pattern'}
+                >
+                  Generate Pattern
+                </button>
+              )}
             </div>
             <div className="group-column">
               <button
@@ -1205,17 +2329,17 @@ const MapPanel: React.FC<MapPanelProps> = ({
             <div className="group-column">
               <button
                 onClick={onUndo}
-                disabled={!canUndo || flightPath.length === 0}
+                disabled={!canUndo}
                 className="btn btn-secondary"
-                title={flightPath.length === 0 ? 'Draw points first to enable undo' : 'Undo last action (Ctrl+Z)'}
+                title="Undo last action (Ctrl+Z)"
               >
                 Undo
               </button>
               <button
                 onClick={onRedo}
-                disabled={!canRedo || flightPath.length === 0}
+                disabled={!canRedo}
                 className="btn btn-secondary"
-                title={flightPath.length === 0 ? 'Draw points first to enable redo' : 'Redo last action (Ctrl+Y or Ctrl+Shift+Z)'}
+                title="Redo last action (Ctrl+Y or Ctrl+Shift+Z)"
               >
                 Redo
               </button>
@@ -1242,6 +2366,22 @@ const MapPanel: React.FC<MapPanelProps> = ({
               >
                 Reset View
               </button>
+              <button
+                onClick={() => setShowContours(!showContours)}
+                className={`btn btn-tertiary ${showContours ? 'active' : ''}`}
+                disabled={!dtmLoaded}
+                title={!dtmLoaded ? 'Load a DTM first' : 'Show contour lines generated from the DTM'}
+              >
+                {showContours ? 'Hide Contours' : 'Show Contours'}
+              </button>
+              <button
+                onClick={() => setShowSwath(!showSwath)}
+                className={`btn btn-tertiary ${showSwath ? 'active' : ''}`}
+                disabled={missionLines.length === 0}
+                title={missionLines.length === 0 ? 'Draw at least 2 points to show swath coverage' : 'Show LiDAR swath footprint and coverage gaps of the enabled lines'}
+              >
+                {showSwath ? 'Hide Swath' : 'Show Swath'}
+              </button>
             </div>
           </div>
         </div>
@@ -1278,6 +2418,123 @@ const MapPanel: React.FC<MapPanelProps> = ({
               onChange={handleDtmOpacityChange}
               className="dtm-opacity-slider"
             />
+            <ul className="dtm-layer-list">
+              {dtmLayers.map(layer => (
+                <li key={layer.source} className="dtm-layer-item">
+                  <label title={layer.visible ? 'Hide this DTM' : 'Show this DTM'}>
+                    <input
+                      type="checkbox"
+                      checked={layer.visible}
+                      onChange={() => handleToggleDtmVisibility(layer.source)}
+                    />
+                    <span className="dtm-layer-name">{layer.name}</span>
+                  </label>
+                  <button
+                    onClick={() => handleChangeDtmCrs(layer)}
+                    className="dtm-layer-crs"
+                    title={`Coordinate system${layer.crs.source === 'user' ? ' (set by you)' : ' (detected)'} - click to change`}
+                  >
+                    {layer.crs.code ?? layer.crs.name}
+                  </button>
+                  <button
+                    onClick={() => handleFitToDtmLayer(layer.bounds)}
+                    className="dtm-layer-action"
+                    title="Zoom to this DTM"
+                  >
+                    ⌖
+                  </button>
+                  <button
+                    onClick={() => onDtmUnload(layer.source)}
+                    className="dtm-layer-action"
+                    title="Unload this DTM"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="dtm-render-controls">
+              <label>
+                Renderer:
+                <select
+                  value={dtmRenderOptions.renderer}
+                  onChange={(e) => updateDtmRenderOptions({ renderer: e.target.value as DtmRenderer })}
+                >
+                  {(Object.keys(RENDERER_LABELS) as DtmRenderer[]).map(renderer => (
+                    <option key={renderer} value={renderer}>{RENDERER_LABELS[renderer]}</option>
+                  ))}
+                </select>
+              </label>
+              {(dtmRenderOptions.renderer === 'grayscale' || dtmRenderOptions.renderer === 'hypsometric') && (
+                <label>
+                  Stretch:
+                  <select
+                    value={dtmRenderOptions.stretch}
+                    onChange={(e) => updateDtmRenderOptions({ stretch: e.target.value as DtmStretch })}
+                    title="Histogram stretch spreads the colours evenly over the elevations that actually occur in the DTM"
+                  >
+                    <option value="minmax">Min–Max</option>
+                    <option value="histogram">Histogram</option>
+                  </select>
+                </label>
+              )}
+              {dtmRenderOptions.renderer === 'hillshade' && (
+                <>
+                  <label>
+                    Sun Azimuth (°):
+                    <input
+                      type="number"
+                      min="0"
+                      max="360"
+                      step="15"
+                      value={dtmRenderOptions.sunAzimuth}
+                      onChange={(e) => updateDtmRenderOptions({ sunAzimuth: ((Number(e.target.value) % 360) + 360) % 360 })}
+                    />
+                  </label>
+                  <label>
+                    Sun Altitude (°):
+                    <input
+                      type="number"
+                      min="0"
+                      max="90"
+                      step="5"
+                      value={dtmRenderOptions.sunAltitude}
+                      onChange={(e) => updateDtmRenderOptions({ sunAltitude: Math.max(0, Math.min(90, Number(e.target.value))) })}
+                    />
+                  </label>
+                </>
+              )}
+              {showContours && (
+                <label>
+                  Contour Interval:
+                  <select
+                    value={contourInterval}
+                    onChange={(e) => setContourInterval(Number(e.target.value))}
+                    title={`Every ${INDEX_CONTOUR_EVERY}th contour is a labelled index contour`}
+                  >
+                    {CONTOUR_INTERVALS.map(interval => (
+                      <option key={interval} value={interval}>{interval} m</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+            {showContours && contourNotice && (
+              <div className="contour-notice">{contourNotice}</div>
+            )}
+          </div>
+        )}
+        {dtmLoaded && dtmLegend && (
+          <div className="dtm-legend">
+            <div className="dtm-legend-title">
+              {dtmRenderOptions.renderer === 'hypsometric' ? 'Elevation' : RENDERER_LABELS[dtmRenderOptions.renderer]}
+            </div>
+            {dtmLegend.map(entry => (
+              <div key={entry.label} className="dtm-legend-item">
+                <span className="dtm-legend-swatch" style={{ background: entry.color }} />
+                <span>{entry.label}</span>
+              </div>
+            ))}
           </div>
         )}
       </div>
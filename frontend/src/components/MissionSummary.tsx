@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { MissionSummary as MissionSummaryData, formatDuration } from '../utils/missionSummary';
+import { AircraftProfile, ENERGY_UNITS, EnergySource } from '../utils/aircraft';
+import './MissionSummary.css';
+
+interface MissionSummaryProps {
+  /** Summary of the enabled lines, or null when there is nothing to summarize */
+  summary: MissionSummaryData | null;
+  loading: boolean;
+  aircraft: AircraftProfile;
+  onAircraftChange: (aircraft: AircraftProfile) => void;
+}
+
+const formatKm = (meters: number) => `${(meters / 1000).toFixed(2)} km`;
+
+const MissionSummary: React.FC<MissionSummaryProps> = ({
+  summary,
+  loading,
+  aircraft,
+  onAircraftChange
+}) => {
+  const [showAircraft, setShowAircraft] = useState<boolean>(false);
+  const unit = ENERGY_UNITS[aircraft.energySource];
+  const overCapacity = summary !== null && summary.energy > summary.usableEnergy;
+
+  const setAircraftNumber = (field: keyof AircraftProfile, value: string) => {
+    onAircraftChange({ ...aircraft, [field]: Number(value) });
+  };
+
+  // Download the summary and per-line figures for quoting
+  const exportCSV = () => {
+    if (!summary) return;
+    const rows = [
+      ['Item', 'Length (m)', 'Time (s)', 'Climb (m)', 'Descent (m)'],
+      ...summary.lines.map(line => [
+        `"${line.name.replace(/"/g, '""')}"`,
+        line.length.toFixed(1),
+        line.time.toFixed(0),
+        line.climb.toFixed(1),
+        line.descent.toFixed(1)
+      ]),
+      [`"Turns (${summary.turnCount})"`, summary.turnLength.toFixed(1), summary.turnTime.toFixed(0), '', ''],
+      ['Total', (summary.lineLength + summary.turnLength).toFixed(1), summary.flightTime.toFixed(0), summary.climb.toFixed(1), summary.descent.toFixed(1)],
+      [],
+      [`Energy (${unit})`, summary.energy.toFixed(1)],
+      [`Usable after reserve (${unit})`, summary.usableEnergy.toFixed(1)]
+    ];
+    const blob = new Blob([rows.map(row => row.join(',')).join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `mission-summary-${Date.now()}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mission-summary">
+      <div className="mission-summary-header">
+        <div className="mission-summary-title">Mission Summary</div>
+        <div className="mission-summary-actions">
+          <button
+            onClick={() => setShowAircraft(!showAircraft)}
+            className="btn btn-secondary"
+            title="Performance limits and fuel or battery use of the aircraft"
+          >
+            {showAircraft ? 'Hide Aircraft' : 'Aircraft...'}
+          </button>
+          <button onClick={exportCSV} className="btn btn-secondary" disabled={!summary}>
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {showAircraft && (
+        <div className="mission-summary-aircraft">
+          <label>
+            <span className="input-label">Aircraft</span>
+            <input
+              type="text"
+              value={aircraft.name}
+              onChange={(e) => onAircraftChange({ ...aircraft, name: e.target.value })}
+              className="modern-input mission-summary-name-input"
+            />
+          </label>
+          <label>
+            <span className="input-label">Cruise (m/s)</span>
+            <input
+              type="number"
+              value={aircraft.cruiseSpeed}
+              onChange={(e) => setAircraftNumber('cruiseSpeed', e.target.value)}
+              min="0"
+              step="1"
+              className="modern-input"
+              title="Survey speed - climb and descent gradients are checked at this speed"
+            />
+          </label>
+          <label>
+            <span className="input-label">Max Climb (m/s)</span>
+            <input
+              type="number"
+              value={aircraft.maxClimbRate}
+              onChange={(e) => setAircraftNumber('maxClimbRate', e.target.value)}
+              min="0"
+              step="0.5"
+              className="modern-input"
+            />
+          </label>
+          <label>
+            <span className="input-label">Max Descent (m/s)</span>
+            <input
+              type="number"
+              value={aircraft.maxDescentRate}
+              onChange={(e) => setAircraftNumber('maxDescentRate', e.target.value)}
+              min="0"
+              step="0.5"
+              className="modern-input"
+            />
+          </label>
+          <label>
+            <span className="input-label">Min Turn Radius (m)</span>
+            <input
+              type="number"
+              value={aircraft.minTurnRadius}
+              onChange={(e) => setAircraftNumber('minTurnRadius', e.target.value)}
+              min="0"
+              step="10"
+              className="modern-input"
+              title="Tightest turn at cruise speed - sharper vertices are flagged on the map"
+            />
+          </label>
+          <label>
+            <span className="input-label">Ceiling (m)</span>
+            <input
+              type="number"
+              value={aircraft.serviceCeiling}
+              onChange={(e) => setAircraftNumber('serviceCeiling', e.target.value)}
+              min="0"
+              step="100"
+              className="modern-input"
+            />
+          </label>
+          <label>
+            <span className="input-label">Energy</span>
+            <select
+              value={aircraft.energySource}
+              onChange={(e) => onAircraftChange({ ...aircraft, energySource: e.target.value as EnergySource })}
+              className="modern-input"
+            >
+              <option value="fuel">Fuel (L)</option>
+              <option value="battery">Battery (Wh)</option>
+            </select>
+          </label>
+          <label>
+            <span className="input-label">Use ({unit}/h)</span>
+            <input
+              type="number"
+              value={aircraft.consumptionPerHour}
+              onChange={(e) => setAircraftNumber('consumptionPerHour', e.target.value)}
+              min="0"
+              className="modern-input"
+              title="Used per hour of level flight"
+            />
+          </label>
+          <label>
+            <span className="input-label">Climb ({unit}/100 m)</span>
+            <input
+              type="number"
+              value={aircraft.climbConsumption}
+              onChange={(e) => setAircraftNumber('climbConsumption', e.target.value)}
+              min="0"
+              step="0.1"
+              className="modern-input"
+              title="Used on top of level flight per 100 m climbed"
+            />
+          </label>
+          <label>
+            <span className="input-label">Capacity ({unit})</span>
+            <input
+              type="number"
+              value={aircraft.capacity}
+              onChange={(e) => setAircraftNumber('capacity', e.target.value)}
+              min="0"
+              className="modern-input"
+            />
+          </label>
+          <label>
+            <span className="input-label">Reserve (%)</span>
+            <input
+              type="number"
+              value={aircraft.reservePercent}
+              onChange={(e) => setAircraftNumber('reservePercent', e.target.value)}
+              min="0"
+              max="100"
+              step="5"
+              className="modern-input"
+            />
+          </label>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="mission-summary-empty">Calculating mission profile...</div>
+      ) : !summary ? (
+        <div className="mission-summary-empty">Enable a flight line with at least 2 points to see the mission summary</div>
+      ) : (
+        <>
+          <div className="mission-summary-stats">
+            <div className="stat">
+              <span className="stat-label">Line Length:</span>
+              <span className="stat-value">{formatKm(summary.lineLength)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Turns ({summary.turnCount}):</span>
+              <span className="stat-value">{formatKm(summary.turnLength)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Flight Time:</span>
+              <span className="stat-value">{formatDuration(summary.flightTime)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Climb / Descent:</span>
+              <span className="stat-value">{summary.climb.toFixed(0)} / {summary.descent.toFixed(0)} m</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">{aircraft.energySource === 'fuel' ? 'Fuel' : 'Battery'}:</span>
+              <span
+                className={`stat-value ${overCapacity ? 'mission-summary-over' : ''}`}
+                title={`${aircraft.name}: ${summary.usableEnergy.toFixed(1)} ${unit} usable after the ${aircraft.reservePercent}% reserve`}
+              >
+                {summary.energy.toFixed(1)} {unit}
+                {summary.usableEnergy > 0 && ` (${(summary.energy / summary.usableEnergy * 100).toFixed(0)}%)`}
+              </span>
+            </div>
+          </div>
+          {overCapacity && (
+            <div className="mission-summary-warning">
+              The mission needs more {aircraft.energySource === 'fuel' ? 'fuel' : 'battery energy'} than {aircraft.name} carries
+              after its reserve - split it into several flights.
+            </div>
+          )}
+          <table className="mission-summary-table">
+            <thead>
+              <tr>
+                <th>Line</th>
+                <th>Length</th>
+                <th>Time</th>
+                <th>Climb</th>
+                <th>Descent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.lines.map(line => (
+                <tr key={line.id}>
+                  <td>
+                    <span className="mission-summary-swatch" style={{ background: line.color }} />
+                    {line.name}
+                  </td>
+                  <td>{formatKm(line.length)}</td>
+                  <td>{formatDuration(line.time)}</td>
+                  <td>{line.climb.toFixed(0)} m</td>
+                  <td>{line.descent.toFixed(0)} m</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MissionSummary;
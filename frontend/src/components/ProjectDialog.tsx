@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ProjectSummary, deleteProject, listProjects } from '../utils/project';
+import './ProjectDialog.css';
+
+interface ProjectDialogProps {
+  /** Name and notes of the open project, prefilled for saving */
+  projectName: string;
+  projectNotes: string;
+  /** Save the current mission - resolves false when the name is taken and overwrite is not set */
+  onSave: (name: string, notes: string, overwrite: boolean) => Promise<boolean>;
+  /** Open a saved project - resolves false when the user keeps the current mission */
+  onOpen: (id: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const formatSavedAt = (savedAt: string | null) =>
+  savedAt ? new Date(savedAt).toLocaleString() : '-';
+
+const ProjectDialog: React.FC<ProjectDialogProps> = ({
+  projectName,
+  projectNotes,
+  onSave,
+  onOpen,
+  onClose
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [name, setName] = useState<string>(projectName);
+  const [notes, setNotes] = useState<string>(projectNotes);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  // Run a backend action, showing its error in the dialog
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    const trimmed = name.trim();
+    let saved = await onSave(trimmed, notes, false);
+    if (!saved && window.confirm(`A project named "${trimmed}" already exists. Replace it?`)) {
+      saved = await onSave(trimmed, notes, true);
+    }
+    if (saved) {
+      onClose();
+    }
+  });
+
+  const handleOpen = (project: ProjectSummary) => run(async () => {
+    if (await onOpen(project.id)) {
+      onClose();
+    }
+  });
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!window.confirm(`Delete project "${project.name}"? This cannot be undone.`)) return;
+    run(async () => {
+      await deleteProject(project.id);
+      await refresh();
+    });
+  };
+
+  return (
+    <div className="project-dialog-overlay">
+      <div className="project-dialog" role="dialog" aria-label="Mission projects">
+        <div className="project-dialog-title">Mission Projects</div>
+
+        <div className="project-dialog-save">
+          <label>
+            <span className="input-label">Project Name</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="modern-input"
+              placeholder="e.g. Haifa Block 3"
+            />
+          </label>
+          <label>
+            <span className="input-label">Notes</span>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="modern-input project-dialog-notes"
+              rows={3}
+            />
+          </label>
+          <div className="project-dialog-actions">
+            <button
+              onClick={handleSave}
+              className="btn btn-primary"
+              disabled={busy || !/[\p{L}\p{N}]/u.test(name)}
+              title="Save the flight lines, parameters, DTMs and map view under this name"
+            >
+              Save Project
+            </button>
+          </div>
+        </div>
+
+        <div className="project-dialog-list">
+          {projects === null ? (
+            <div className="project-dialog-empty">Loading projects...</div>
+          ) : projects.length === 0 ? (
+            <div className="project-dialog-empty">No saved projects yet</div>
+          ) : (
+            <table className="project-dialog-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Saved</th>
+                  <th>Lines</th>
+                  <th>Points</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {projects.map(project => (
+                  <tr key={project.id} title={project.notes || undefined}>
+                    <td>
+                      <div className="project-dialog-name">{project.name}</div>
+                      {project.notes && <div className="project-dialog-summary">{project.notes}</div>}
+                    </td>
+                    <td>{formatSavedAt(project.savedAt)}</td>
+                    <td>{project.lineCount}</td>
+                    <td>{project.pointCount}</td>
+                    <td className="project-dialog-row-actions">
+                      <button onClick={() => handleOpen(project)} className="btn btn-secondary" disabled={busy}>
+                        Open
+                      </button>
+                      <button onClick={() => handleDelete(project)} className="btn btn-secondary" disabled={busy}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {error && <div className="project-dialog-error">{error}</div>}
+
+        <div className="project-dialog-actions">
+          <button onClick={onClose} className="btn btn-secondary">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectDialog;
@@ -1,7 +1,152 @@
 import { useState, useCallback } from 'react';
-import { Coordinate } from '../App';
+import { Coordinate, FlightLine, InterpolationMethod } from '../App';
 import { ElevationPoint } from '../App';
 import axios from 'axios';
+import { getVertexAGL, interpolateSegmentAGL } from '../utils/altitude';
+
+/**
+ * Interpolate the flight height (AGL) for any point along the path
+ * @param distances Cumulative distance of each vertex along the path
+ * @param groundElevations Ground elevation under each vertex
+ * @param distance Distance of the point along the path
+ * @param elevation Ground elevation at the point
+ */
+function interpolateFlightHeight(
+  flightPath: Coordinate[],
+  distances: number[],
+  groundElevations: number[],
+  distance: number,
+  elevation: number,
+  nominalFlightHeight: number
+): Pick<ElevationPoint, 'flightHeight' | 'altitudeReference'> {
+  const last = flightPath.length - 1;
+
+  if (distance <= 0) {
+    return {
+      flightHeight: interpolateSegmentAGL(flightPath[0], flightPath[Math.min(1, last)], groundElevations[0], groundElevations[Math.min(1, last)], 0, elevation, nominalFlightHeight),
+      altitudeReference: flightPath[0].altitudeReference ?? 'AGL'
+    };
+  }
+
+  if (distance >= distances[distances.length - 1]) {
+    return {
+      flightHeight: getVertexAGL(flightPath[last], groundElevations[last], nominalFlightHeight) + groundElevations[last] - elevation,
+      altitudeReference: flightPath[Math.max(0, last - 1)].altitudeReference ?? 'AGL'
+    };
+  }
+
+  // Find the segment containing this distance
+  for (let i = 0; i < distances.length - 1; i++) {
+    if (distance >= distances[i] && distance <= distances[i + 1]) {
+      const segmentStartDist = distances[i];
+      const segmentLength = distances[i + 1] - segmentStartDist;
+      const distanceInSegment = distance - segmentStartDist;
+      const t = segmentLength > 0 ? distanceInSegment / segmentLength : 0;
+      return {
+        flightHeight: interpolateSegmentAGL(flightPath[i], flightPath[i + 1], groundElevations[i], groundElevations[i + 1], t, elevation, nominalFlightHeight),
+        altitudeReference: flightPath[i].altitudeReference ?? 'AGL'
+      };
+    }
+  }
+
+  // Fallback to nominal height
+  return { flightHeight: nominalFlightHeight, altitudeReference: 'AGL' };
+}
+
+/**
+ * Sample the DTM mosaic along a flight line and interpolate the flight height at every sample
+ * @param nominalFlightHeight AGL height of vertices without their own height
+ */
+export async function requestLineProfile(
+  flightPath: Coordinate[],
+  dtmSources: string[],
+  nominalFlightHeight: number,
+  searchRadius: number = 50,
+  interpolation: InterpolationMethod = 'nearest',
+  geoidSource: string | null = null
+): Promise<ElevationPoint[]> {
+  // Convert coordinates to [lng, lat] format for API
+  const coordinates = flightPath.map(p => [p.lng, p.lat]);
+  
+  // Calculate cumulative distance along the path
+  const calculateDistance = (coord1: Coordinate, coord2: Coordinate): number => {
+    const R = 6371000; // Earth radius in meters
+    const dLat = (coord2.lat - coord1.lat) * Math.PI / 180;
+    const dLon = (coord2.lng - coord1.lng) * Math.PI / 180;
+    const a = 
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(coord1.lat * Math.PI / 180) * Math.cos(coord2.lat * Math.PI / 180) *
+      Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+  };
+
+  let cumulativeDistance = 0;
+  const distances = [0];
+  const segmentDistances: number[] = [0]; // Distance from start of each segment
+  for (let i = 1; i < flightPath.length; i++) {
+    const segmentDist = calculateDistance(flightPath[i - 1], flightPath[i]);
+    cumulativeDistance += segmentDist;
+    distances.push(cumulativeDistance);
+    segmentDistances.push(segmentDist);
+  }
+  
+  console.log(`Calculating elevation profile with search radius: ${searchRadius}m`);
+  
+  const response = await axios.post('/api/elevation-profile', {
+    coordinates,
+    dtmPaths: dtmSources, // Every loaded DTM - the backend samples whichever covers each point
+    radiusMeters: searchRadius, // User-configurable radius for min/max calculation
+    interpolation, // nearest, bilinear or bicubic DTM sampling
+    ...(geoidSource && { geoidPath: geoidSource }) // Geoid undulation per point, for datum conversion
+  });
+
+  // Ground elevation under each vertex, taken from the closest profile sample
+  const samples: any[] = response.data.profile;
+  const groundElevations = flightPath.map(vertex => {
+    let closest = samples[0];
+    let closestDistance = Infinity;
+    for (const sample of samples) {
+      const dist = Math.abs(sample.longitude - vertex.lng) + Math.abs(sample.latitude - vertex.lat);
+      if (dist < closestDistance) {
+        closestDistance = dist;
+        closest = sample;
+      }
+    }
+    return closest?.elevation ?? 0;
+  });
+
+  // Merge API response with calculated distances and interpolated flight heights
+  // Use the API's distance for interpolation, but ensure vertex distances match
+  const profile: ElevationPoint[] = samples.map((point: any, index: number) => {
+    // Use API distance if available, otherwise calculate from vertex distances
+    const distance = point.distance !== undefined ? point.distance : (distances[index] || 0);
+    return {
+      distance,
+      elevation: point.elevation,
+      longitude: point.longitude,
+      latitude: point.latitude,
+      ...interpolateFlightHeight(flightPath, distances, groundElevations, distance, point.elevation, nominalFlightHeight),
+      minElevation: point.minElevation,
+      maxElevation: point.maxElevation,
+      geoidUndulation: point.geoidUndulation
+    };
+  });
+
+  // Log min/max statistics
+  const pointsWithMinMax = profile.filter(p => p.minElevation !== undefined && p.maxElevation !== undefined);
+  console.log(`Elevation profile loaded: ${profile.length} points, ${pointsWithMinMax.length} with min/max values`);
+  if (pointsWithMinMax.length > 0) {
+    console.log(`Sample min/max values:`, pointsWithMinMax.slice(0, 3).map(p => ({
+      distance: p.distance.toFixed(1),
+      min: p.minElevation?.toFixed(1),
+      max: p.maxElevation?.toFixed(1),
+      elevation: p.elevation.toFixed(1)
+    })));
+  }
+
+  return profile;
+}
 
 export function useElevationProfile() {
   const [elevationProfile, setElevationProfile] = useState<ElevationPoint[]>([]);
@@ -9,9 +154,11 @@ export function useElevationProfile() {
 
   const calculateProfile = useCallback(async (
     flightPath: Coordinate[],
-    dtmSource: string,
+    dtmSources: string[],
     nominalFlightHeight: number,
-    searchRadius: number = 50
+    searchRadius: number = 50,
+    interpolation: InterpolationMethod = 'nearest',
+    geoidSource: string | null = null
   ) => {
     if (flightPath.length < 2) {
       setElevationProfile([]);
@@ -20,104 +167,7 @@ export function useElevationProfile() {
 
     setLoading(true);
     try {
-      // Convert coordinates to [lng, lat] format for API
-      const coordinates = flightPath.map(p => [p.lng, p.lat]);
-      
-      // Calculate cumulative distance along the path
-      const calculateDistance = (coord1: Coordinate, coord2: Coordinate): number => {
-        const R = 6371000; // Earth radius in meters
-        const dLat = (coord2.lat - coord1.lat) * Math.PI / 180;
-        const dLon = (coord2.lng - coord1.lng) * Math.PI / 180;
-        const a = 
-          Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-          Math.cos(coord1.lat * Math.PI / 180) * Math.cos(coord2.lat * Math.PI / 180) *
-          Math.sin(dLon / 2) * Math.sin(dLon / 2);
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-        return R * c;
-      };
-
-      let cumulativeDistance = 0;
-      const distances = [0];
-      const segmentDistances: number[] = [0]; // Distance from start of each segment
-      for (let i = 1; i < flightPath.length; i++) {
-        const segmentDist = calculateDistance(flightPath[i - 1], flightPath[i]);
-        cumulativeDistance += segmentDist;
-        distances.push(cumulativeDistance);
-        segmentDistances.push(segmentDist);
-      }
-      
-      console.log(`Calculating elevation profile with search radius: ${searchRadius}m`);
-      
-      const response = await axios.post('/api/elevation-profile', {
-        coordinates,
-        dtmPath: dtmSource,
-        radiusMeters: searchRadius // User-configurable radius for min/max calculation
-      });
-
-      // Helper function to interpolate flight height for any point along the path
-      const interpolateFlightHeight = (distance: number): number => {
-        // Find which segment this point belongs to
-        if (distance <= 0) {
-          return flightPath[0].height ?? nominalFlightHeight;
-        }
-        
-        if (distance >= distances[distances.length - 1]) {
-          return flightPath[flightPath.length - 1].height ?? nominalFlightHeight;
-        }
-        
-        // Find the segment containing this distance
-        for (let i = 0; i < distances.length - 1; i++) {
-          if (distance >= distances[i] && distance <= distances[i + 1]) {
-            const startHeight = flightPath[i].height ?? nominalFlightHeight;
-            const endHeight = flightPath[i + 1].height ?? nominalFlightHeight;
-            
-            // If heights are the same, no interpolation needed
-            if (startHeight === endHeight) {
-              return startHeight;
-            }
-            
-            // Linear interpolation
-            const segmentStartDist = distances[i];
-            const segmentLength = distances[i + 1] - segmentStartDist;
-            const distanceInSegment = distance - segmentStartDist;
-            const t = segmentLength > 0 ? distanceInSegment / segmentLength : 0;
-            return startHeight + (endHeight - startHeight) * t;
-          }
-        }
-        
-        // Fallback to nominal height
-        return nominalFlightHeight;
-      };
-
-      // Merge API response with calculated distances and interpolated flight heights
-      // Use the API's distance for interpolation, but ensure vertex distances match
-      const profile: ElevationPoint[] = response.data.profile.map((point: any, index: number) => {
-        // Use API distance if available, otherwise calculate from vertex distances
-        const distance = point.distance !== undefined ? point.distance : (distances[index] || 0);
-        return {
-          distance,
-          elevation: point.elevation,
-          longitude: point.longitude,
-          latitude: point.latitude,
-          flightHeight: interpolateFlightHeight(distance),
-          minElevation: point.minElevation,
-          maxElevation: point.maxElevation
-        };
-      });
-
-      // Log min/max statistics
-      const pointsWithMinMax = profile.filter(p => p.minElevation !== undefined && p.maxElevation !== undefined);
-      console.log(`Elevation profile loaded: ${profile.length} points, ${pointsWithMinMax.length} with min/max values`);
-      if (pointsWithMinMax.length > 0) {
-        console.log(`Sample min/max values:`, pointsWithMinMax.slice(0, 3).map(p => ({
-          distance: p.distance.toFixed(1),
-          min: p.minElevation?.toFixed(1),
-          max: p.maxElevation?.toFixed(1),
-          elevation: p.elevation.toFixed(1)
-        })));
-      }
-      
-      setElevationProfile(profile);
+      setElevationProfile(await requestLineProfile(flightPath, dtmSources, nominalFlightHeight, searchRadius, interpolation, geoidSource));
     } catch (error) {
       console.error('Error calculating elevation profile:', error);
       // Fallback to mock data if API fails
@@ -143,51 +193,20 @@ export function useElevationProfile() {
         segmentDistances.push(segmentDist);
       }
 
-      // Helper function to interpolate flight height for any point along the path
-      const interpolateFlightHeight = (distance: number): number => {
-        // Find which segment this point belongs to
-        if (distance <= 0) {
-          return flightPath[0].height ?? nominalFlightHeight;
-        }
-        
-        if (distance >= distances[distances.length - 1]) {
-          return flightPath[flightPath.length - 1].height ?? nominalFlightHeight;
-        }
-        
-        // Find the segment containing this distance
-        for (let i = 0; i < distances.length - 1; i++) {
-          if (distance >= distances[i] && distance <= distances[i + 1]) {
-            const startHeight = flightPath[i].height ?? nominalFlightHeight;
-            const endHeight = flightPath[i + 1].height ?? nominalFlightHeight;
-            
-            // If heights are the same, no interpolation needed
-            if (startHeight === endHeight) {
-              return startHeight;
-            }
-            
-            // Linear interpolation
-            const segmentStartDist = distances[i];
-            const segmentLength = distances[i + 1] - segmentStartDist;
-            const distanceInSegment = distance - segmentStartDist;
-            const t = segmentLength > 0 ? distanceInSegment / segmentLength : 0;
-            return startHeight + (endHeight - startHeight) * t;
-          }
-        }
-        
-        // Fallback to nominal height
-        return nominalFlightHeight;
-      };
+      const groundElevations = flightPath.map((_, index) =>
+        // Mock elevation with some variation
+        100 + Math.sin(index * 0.1) * 50 + Math.random() * 20
+      );
 
       const mockProfile: ElevationPoint[] = flightPath.map((coord, index) => {
         const distance = distances[index] || 0;
-        // Mock elevation with some variation
-        const elevation = 100 + Math.sin(index * 0.1) * 50 + Math.random() * 20;
+        const elevation = groundElevations[index];
         return {
           distance,
           elevation,
           longitude: coord.lng,
           latitude: coord.lat,
-          flightHeight: interpolateFlightHeight(distance)
+          ...interpolateFlightHeight(flightPath, distances, groundElevations, distance, elevation, nominalFlightHeight)
         };
       });
       setElevationProfile(mockProfile);
@@ -196,10 +215,51 @@ export function useElevationProfile() {
     }
   }, []);
 
+  /**
+   * Profile of several flight lines one after another
+   * Each line's distances continue from the end of the previous line, and its samples carry the line id
+   * @param nominalFlightHeight AGL height of lines without a default height of their own
+   */
+  const calculateMissionProfile = useCallback(async (
+    lines: FlightLine[],
+    dtmSources: string[],
+    nominalFlightHeight: number,
+    searchRadius: number = 50,
+    interpolation: InterpolationMethod = 'nearest',
+    geoidSource: string | null = null
+  ) => {
+    const profiledLines = lines.filter(line => line.points.length >= 2);
+    if (profiledLines.length === 0 || dtmSources.length === 0) {
+      setElevationProfile([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const profiles = await Promise.all(profiledLines.map(line =>
+        requestLineProfile(line.points, dtmSources, line.defaultHeight ?? nominalFlightHeight, searchRadius, interpolation, geoidSource)
+      ));
+
+      let offset = 0;
+      const missionProfile = profiles.flatMap((profile, index) => {
+        const points = profile.map(point => ({ ...point, distance: point.distance + offset, lineId: profiledLines[index].id }));
+        offset += profile[profile.length - 1]?.distance ?? 0;
+        return points;
+      });
+      setElevationProfile(missionProfile);
+    } catch (error) {
+      console.error('Error calculating mission profile:', error);
+      setElevationProfile([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   return {
     elevationProfile,
     loading,
-    calculateProfile
+    calculateProfile,
+    calculateMissionProfile
   };
 }
 
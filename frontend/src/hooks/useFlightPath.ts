@@ -1,6 +1,8 @@
 import { useCallback } from 'react';
-import { Coordinate } from '../App';
+import { Coordinate, FlightLine, Mission, VerticalDatum } from '../App';
 import { useUndoRedo } from './useUndoRedo';
+import { buildKml, createKmz, KmlExportLine, KmlLine, readKmlFile } from '../utils/kml';
+import { buildWaypointFile, Waypoint, WAYPOINT_FORMATS, WaypointFormat, WaypointFrame } from '../utils/waypoints';
 
 export interface GeoJSONFeature {
   type: 'Feature';
@@ -16,109 +18,375 @@ export interface GeoJSON {
   features: GeoJSONFeature[];
 }
 
+/**
+ * A flight line to add to the mission - colour, height and enable flag default when left out
+ */
+export interface NewFlightLine {
+  name: string;
+  points: Coordinate[];
+  color?: string;
+  defaultHeight?: number | null;
+  enabled?: boolean;
+}
+
+// Colours given to new lines in turn (red first, as the single flight path used to be)
+export const LINE_COLORS = ['#ff0000', '#2563eb', '#16a34a', '#db2777', '#0891b2', '#4f46e5', '#65a30d', '#b45309'];
+
+let lineCounter = 0;
+
+function createLineId(): string {
+  lineCounter++;
+  return `line-${Date.now()}-${lineCounter}`;
+}
+
+// A new line of a mission, in the first palette colour no other line uses
+function createLine(existing: FlightLine[], line: NewFlightLine): FlightLine {
+  const usedColors = new Set(existing.map(l => l.color));
+  const color = line.color
+    ?? LINE_COLORS.find(c => !usedColors.has(c))
+    ?? LINE_COLORS[existing.length % LINE_COLORS.length];
+  return {
+    id: createLineId(),
+    name: line.name,
+    color,
+    defaultHeight: line.defaultHeight ?? null,
+    enabled: line.enabled ?? true,
+    points: line.points
+  };
+}
+
+// A mission with a single empty line
+function createMission(): Mission {
+  const line = createLine([], { name: 'Line 1', points: [] });
+  return { lines: [line], activeLineId: line.id };
+}
+
+// Name for a new line that no line of the mission uses yet
+function nextLineName(lines: FlightLine[]): string {
+  const names = new Set(lines.map(line => line.name));
+  let number = lines.length + 1;
+  while (names.has(`Line ${number}`)) {
+    number++;
+  }
+  return `Line ${number}`;
+}
+
+const INITIAL_MISSION = createMission();
+
+// A saved mission with at least one line and a valid active line
+function toValidMission(saved: Mission): Mission {
+  if (saved.lines.length === 0) {
+    return createMission();
+  }
+  const activeLineId = saved.lines.some(line => line.id === saved.activeLineId)
+    ? saved.activeLineId
+    : saved.lines[0].id;
+  return { lines: saved.lines, activeLineId };
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Ask which lines of a multi-line file to import; 'all' imports every line
+function chooseLines(lines: KmlLine[]): KmlLine[] | null {
+  if (lines.length === 1) {
+    return lines;
+  }
+
+  const list = lines
+    .map((line, index) => `${index + 1}. ${line.name} (${line.coordinates.length} points)`)
+    .join('\n');
+  const choice = prompt(
+    `This file contains ${lines.length} flight lines:\n\n${list}\n\n` +
+    "Enter the number of the line to import, or 'all' to import every line:",
+    'all'
+  );
+  if (choice === null) {
+    return null;
+  }
+
+  if (choice.trim().toLowerCase() === 'all') {
+    return lines;
+  }
+
+  const index = parseInt(choice, 10) - 1;
+  if (isNaN(index) || index < 0 || index >= lines.length) {
+    alert(`Please enter a number between 1 and ${lines.length}, or 'all'`);
+    return null;
+  }
+  return [lines[index]];
+}
+
 export function useFlightPath() {
-  const { state: flightPath, setState: setFlightPathState, undo, redo, canUndo, canRedo, resetHistory } = useUndoRedo<Coordinate[]>([]);
+  const { state: mission, setState: setMission, undo, redo, canUndo, canRedo, resetHistory, getHistory, restoreHistory } = useUndoRedo<Mission>(INITIAL_MISSION);
+
+  const activeLine = mission.lines.find(line => line.id === mission.activeLineId) ?? mission.lines[0];
+  // Points of the active line - the editing tools act on this line
+  const flightPath = activeLine.points;
+
+  const setActivePoints = useCallback((points: Coordinate[]) => {
+    setMission({
+      ...mission,
+      lines: mission.lines.map(line => line.id === activeLine.id ? { ...line, points } : line)
+    }, true);
+  }, [mission, activeLine.id, setMission]);
 
   const addPoint = useCallback((point: Coordinate) => {
-    setFlightPathState([...flightPath, point], true);
-  }, [flightPath, setFlightPathState]);
+    setActivePoints([...flightPath, point]);
+  }, [flightPath, setActivePoints]);
 
   const addPoints = useCallback((points: Coordinate[]) => {
-    setFlightPathState([...flightPath, ...points], true);
-  }, [flightPath, setFlightPathState]);
+    setActivePoints([...flightPath, ...points]);
+  }, [flightPath, setActivePoints]);
 
   const updatePoint = useCallback((index: number, point: Coordinate) => {
     const newPath = [...flightPath];
     newPath[index] = point;
-    setFlightPathState(newPath, true);
-  }, [flightPath, setFlightPathState]);
+    setActivePoints(newPath);
+  }, [flightPath, setActivePoints]);
 
   const deletePoint = useCallback((index: number) => {
-    setFlightPathState(flightPath.filter((_, i) => i !== index), true);
-  }, [flightPath, setFlightPathState]);
+    setActivePoints(flightPath.filter((_, i) => i !== index));
+  }, [flightPath, setActivePoints]);
 
   const insertPoints = useCallback((index: number, points: Coordinate[]) => {
     const newPath = [...flightPath];
     newPath.splice(index, 0, ...points);
-    setFlightPathState(newPath, true);
-  }, [flightPath, setFlightPathState]);
+    setActivePoints(newPath);
+  }, [flightPath, setActivePoints]);
 
   const setFlightPath = useCallback((path: Coordinate[]) => {
-    setFlightPathState(path, true);
-  }, [setFlightPathState]);
+    setActivePoints(path);
+  }, [setActivePoints]);
+
+  /**
+   * Add an empty line after the others and make it the active line
+   */
+  const addLine = useCallback(() => {
+    const line = createLine(mission.lines, { name: nextLineName(mission.lines), points: [] });
+    setMission({ lines: [...mission.lines, line], activeLineId: line.id }, true);
+  }, [mission, setMission]);
+
+  /**
+   * Append lines to the mission as a single undoable action; the first becomes the active line
+   * Lines without points are replaced, so imports into a fresh mission don't leave an empty line behind
+   */
+  const addLines = useCallback((newLines: NewFlightLine[]) => {
+    if (newLines.length === 0) return;
+
+    const kept = mission.lines.filter(line => line.points.length > 0);
+    const lines = newLines.reduce((all, line) => [...all, createLine(all, line)], kept);
+    setMission({ lines, activeLineId: lines[kept.length].id }, true);
+  }, [mission, setMission]);
+
+  // Selecting a line is not an edit, so it stays out of the undo history
+  const selectLine = useCallback((id: string) => {
+    if (id !== mission.activeLineId) {
+      setMission({ ...mission, activeLineId: id }, false);
+    }
+  }, [mission, setMission]);
+
+  const updateLine = useCallback((id: string, changes: Partial<Omit<FlightLine, 'id' | 'points'>>) => {
+    setMission({
+      ...mission,
+      lines: mission.lines.map(line => line.id === id ? { ...line, ...changes } : line)
+    }, true);
+  }, [mission, setMission]);
+
+  /**
+   * Remove a line - the mission always keeps at least one line, so removing the last one leaves an empty line
+   */
+  const deleteLine = useCallback((id: string) => {
+    const index = mission.lines.findIndex(line => line.id === id);
+    if (index < 0) return;
+
+    if (mission.lines.length === 1) {
+      setMission(createMission(), true);
+      return;
+    }
+
+    const lines = mission.lines.filter(line => line.id !== id);
+    const activeLineId = id === mission.activeLineId
+      ? lines[Math.min(index, lines.length - 1)].id
+      : mission.activeLineId;
+    setMission({ lines, activeLineId }, true);
+  }, [mission, setMission]);
 
-  const exportGeoJSON = useCallback(() => {
-    if (flightPath.length < 2) {
+  /**
+   * Move a line one place up (-1) or down (1) in the flight order
+   */
+  const moveLine = useCallback((id: string, direction: -1 | 1) => {
+    const index = mission.lines.findIndex(line => line.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= mission.lines.length) return;
+
+    const lines = [...mission.lines];
+    [lines[index], lines[target]] = [lines[target], lines[index]];
+    setMission({ ...mission, lines }, true);
+  }, [mission, setMission]);
+
+  /**
+   * Replace the mission with a single empty line (undoable)
+   */
+  const clearMission = useCallback(() => {
+    setMission(createMission(), true);
+  }, [setMission]);
+
+  /**
+   * Replace the mission with a saved one, starting a new undo history
+   */
+  const loadMission = useCallback((saved: Mission) => {
+    resetHistory(toValidMission(saved));
+  }, [resetHistory]);
+
+  /**
+   * Restore an autosaved mission together with its undo history
+   * @param current The mission at autosave time, which may differ from its history entry (e.g. after selecting a line)
+   */
+  const restoreMission = useCallback((history: Mission[], index: number, current: Mission) => {
+    restoreHistory(history.map(toValidMission), index, toValidMission(current));
+  }, [restoreHistory]);
+
+  /**
+   * Download every line of the mission with two or more points as GeoJSON, one feature per line
+   * @param verticalDatum Datum of the exported MSL altitudes, recorded with them
+   * @param altitudeOffsets Per-vertex offsets of each line (by line id) converting MSL altitudes from the DTM datum into verticalDatum
+   */
+  const exportGeoJSON = useCallback((verticalDatum?: VerticalDatum, altitudeOffsets?: Record<string, number[]>) => {
+    const lines = mission.lines.filter(line => line.points.length >= 2);
+    if (lines.length === 0) {
       alert('Flight path must have at least 2 points');
       return;
     }
 
-    const coordinates = flightPath.map(p => [p.lng, p.lat]);
-    const heights = flightPath.map(p => p.height);
-    const hasHeights = heights.some(h => h !== undefined);
-    
+    const createdAt = new Date().toISOString();
+    const features: GeoJSONFeature[] = lines.map(line => {
+      const offsets = altitudeOffsets?.[line.id];
+      const coordinates = line.points.map(p => [p.lng, p.lat]);
+      const heights = line.points.map((p, index) =>
+        p.altitudeReference === 'MSL' && p.height !== undefined && offsets
+          ? p.height + offsets[index]
+          : p.height
+      );
+      const hasHeights = heights.some(h => h !== undefined);
+      const altitudeReferences = line.points.map(p => p.altitudeReference ?? 'AGL');
+      const hasMSL = altitudeReferences.some(r => r === 'MSL');
+
+      return {
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates
+        },
+        properties: {
+          name: line.name,
+          color: line.color,
+          enabled: line.enabled,
+          ...(line.defaultHeight !== null && { defaultHeight: line.defaultHeight }),
+          createdAt,
+          ...(hasHeights && { heights }),
+          ...(hasMSL && { altitudeReferences }),
+          ...(hasMSL && verticalDatum && { verticalDatum })
+        }
+      };
+    });
+
     const geoJSON: GeoJSON = {
       type: 'FeatureCollection',
-      features: [
-        {
-          type: 'Feature',
-          geometry: {
-            type: 'LineString',
-            coordinates
-          },
-          properties: {
-            name: 'Flight Path',
-            createdAt: new Date().toISOString(),
-            ...(hasHeights && { heights })
-          }
-        }
-      ]
+      features
     };
 
     const blob = new Blob([JSON.stringify(geoJSON, null, 2)], {
       type: 'application/json'
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `flight-path-${Date.now()}.geojson`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [flightPath]);
-
-  const importGeoJSON = useCallback(async (file: File) => {
-    try {
-      const text = await file.text();
-      const geoJSON: GeoJSON = JSON.parse(text);
-      
-      // Find the first LineString feature
-      const lineStringFeature = geoJSON.features.find(
-        f => f.geometry.type === 'LineString'
-      );
+    downloadBlob(blob, `flight-path-${Date.now()}.geojson`);
+  }, [mission]);
 
-      if (!lineStringFeature) {
-        alert('No LineString feature found in GeoJSON');
-        return;
-      }
+  /**
+   * Download flight lines as KML or KMZ at absolute altitudes
+   * @param lines Lines to export, each with the altitude of its vertices above mean sea level
+   */
+  const exportKML = useCallback((lines: KmlExportLine[], format: 'kml' | 'kmz') => {
+    if (lines.length === 0) {
+      alert('Flight path must have at least 2 points');
+      return;
+    }
 
-      const heights = lineStringFeature.properties?.heights as number[] | undefined;
-      
-      const coordinates = lineStringFeature.geometry.coordinates.map((coord, index) => ({
-        lng: coord[0],
-        lat: coord[1],
-        ...(heights && heights[index] !== undefined && { height: heights[index] })
-      }));
+    const kml = buildKml('Mission', lines);
+    const blob = format === 'kmz'
+      ? createKmz(kml)
+      : new Blob([kml], { type: 'application/vnd.google-earth.kml+xml' });
+    downloadBlob(blob, `flight-path-${Date.now()}.${format}`);
+  }, []);
 
-      resetHistory(coordinates);
+  /**
+   * Download waypoints as an autopilot mission or waypoint list
+   * @param waypoints Vertices of the exported lines in flight order, with altitudes in the export frame
+   * @param cruiseSpeed Ground speed in m/s
+   */
+  const exportWaypoints = useCallback((
+    format: WaypointFormat,
+    frame: WaypointFrame,
+    waypoints: Waypoint[],
+    cruiseSpeed: number
+  ) => {
+    if (waypoints.length < 2) {
+      alert('Flight path must have at least 2 points');
+      return;
+    }
+
+    const { extension, mimeType } = WAYPOINT_FORMATS[format];
+    const blob = new Blob([buildWaypointFile(format, waypoints, frame, cruiseSpeed)], { type: mimeType });
+    downloadBlob(blob, `flight-path-${Date.now()}.${extension}`);
+  }, []);
+
+  /**
+   * Add the LineStrings of a KML or KMZ file as flight lines
+   * Absolute altitudes are imported as MSL vertex heights and relative-to-ground altitudes as AGL heights
+   * @param dtmDatum Datum of the loaded DTM - KML absolute altitudes are orthometric, so an ellipsoidal DTM is flagged
+   */
+  const importKML = useCallback(async (file: File, dtmDatum?: VerticalDatum) => {
+    let lines: KmlLine[];
+    try {
+      lines = await readKmlFile(file);
     } catch (error) {
-      console.error('Error importing GeoJSON:', error);
-      alert('Failed to import GeoJSON file');
+      console.error('Error importing KML:', error);
+      alert(`Failed to import KML file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    if (lines.length === 0) {
+      alert('No LineString placemark found in KML');
+      return;
     }
-  }, [resetHistory]);
+
+    const chosen = chooseLines(lines);
+    if (!chosen) {
+      return;
+    }
+
+    addLines(chosen.map(line => ({ name: line.name, points: line.coordinates })));
+
+    if (dtmDatum === 'ellipsoidal' && chosen.some(line => line.coordinates.some(c => c.altitudeReference === 'MSL'))) {
+      alert(
+        'KML absolute altitudes are orthometric heights, but the DTM is set to ellipsoidal heights.\n\n' +
+        'They were imported unchanged - check the vertical datum settings.'
+      );
+    }
+  }, [addLines]);
 
   return {
+    mission,
+    lines: mission.lines,
+    activeLine,
     flightPath,
     addPoint,
     addPoints,
@@ -126,13 +394,23 @@ export function useFlightPath() {
     deletePoint,
     insertPoints,
     setFlightPath,
+    addLine,
+    addLines,
+    selectLine,
+    updateLine,
+    deleteLine,
+    moveLine,
+    clearMission,
+    loadMission,
+    restoreMission,
+    getHistory,
     exportGeoJSON,
-    importGeoJSON,
+    exportKML,
+    importKML,
+    exportWaypoints,
     undo,
     redo,
     canUndo,
     canRedo
   };
 }
-
-
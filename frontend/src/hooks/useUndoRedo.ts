@@ -5,11 +5,10 @@ export function useUndoRedo<T>(initialState: T) {
   const [currentIndex, setCurrentIndex] = useState<number>(0);
   const historyRef = useRef<T[]>([initialState]);
 
-  // Compute canUndo and canRedo reactively based on currentIndex
+  // Compute canUndo reactively based on currentIndex
   const canUndo = useMemo(() => currentIndex > 0, [currentIndex]);
-  const canRedo = useMemo(() => {
-    return currentIndex < historyRef.current.length - 1;
-  }, [currentIndex]);
+  // Not memoized on currentIndex alone - restoring a history can change its length at the same index
+  const canRedo = currentIndex < historyRef.current.length - 1;
 
   const setStateWithHistory = useCallback((newState: T, addToHistory: boolean = true) => {
     if (addToHistory) {
@@ -64,6 +63,21 @@ export function useUndoRedo<T>(initialState: T) {
     setState(newState);
   }, []);
 
+  // The history and the position in it, e.g. to persist them
+  const getHistory = useCallback(() => ({ entries: historyRef.current, index: currentIndex }), [currentIndex]);
+
+  /**
+   * Replace the history with a persisted one
+   * @param current The current state, when it was changed without adding to the history since
+   */
+  const restoreHistory = useCallback((entries: T[], index: number, current?: T) => {
+    if (entries.length === 0) return;
+    const restoredIndex = Math.min(Math.max(index, 0), entries.length - 1);
+    historyRef.current = entries;
+    setCurrentIndex(restoredIndex);
+    setState(current ?? entries[restoredIndex]);
+  }, []);
+
   return {
     state,
     setState: setStateWithHistory,
@@ -71,7 +85,9 @@ export function useUndoRedo<T>(initialState: T) {
     redo,
     canUndo,
     canRedo,
-    resetHistory
+    resetHistory,
+    getHistory,
+    restoreHistory
   };
 }
 
@@ -0,0 +1,229 @@
+import { Coordinate, ElevationPoint } from '../App';
+import { calculateBearing, calculateDistance, calculateHeadingChange } from './geometry';
+import { getFlightAltitude } from './lidar';
+
+// Fuel is measured in litres, battery energy in watt-hours
+export type EnergySource = 'fuel' | 'battery';
+
+export const ENERGY_UNITS: Record<EnergySource, string> = {
+  fuel: 'L',
+  battery: 'Wh'
+};
+
+/**
+ * Performance limits and energy use of an aircraft
+ */
+export interface AircraftProfile {
+  name: string;
+  cruiseSpeed: number; // Survey speed in m/s
+  maxClimbRate: number; // m/s
+  maxDescentRate: number; // m/s
+  minTurnRadius: number; // Tightest turn flown at cruise speed, in m
+  serviceCeiling: number; // m
+  energySource: EnergySource;
+  consumptionPerHour: number; // Used per hour of level flight
+  climbConsumption: number; // Used on top of that per 100 m climbed
+  capacity: number; // Usable fuel or battery energy on board
+  reservePercent: number; // Share of the capacity kept in reserve at landing
+}
+
+// Typical survey platforms - turn radii are for a 30° bank at cruise speed (45° for the helicopter)
+export const AIRCRAFT_PROFILES: AircraftProfile[] = [
+  {
+    name: 'Light piston (C206 class)',
+    cruiseSpeed: 50,
+    maxClimbRate: 4,
+    maxDescentRate: 5,
+    minTurnRadius: 450,
+    serviceCeiling: 4500,
+    energySource: 'fuel',
+    consumptionPerHour: 55,
+    climbConsumption: 0.5,
+    capacity: 300,
+    reservePercent: 20
+  },
+  {
+    name: 'Twin turboprop (King Air class)',
+    cruiseSpeed: 70,
+    maxClimbRate: 8,
+    maxDescentRate: 8,
+    minTurnRadius: 870,
+    serviceCeiling: 9000,
+    energySource: 'fuel',
+    consumptionPerHour: 350,
+    climbConsumption: 2,
+    capacity: 1500,
+    reservePercent: 20
+  },
+  {
+    name: 'Helicopter (AS350 class)',
+    cruiseSpeed: 40,
+    maxClimbRate: 8,
+    maxDescentRate: 7,
+    minTurnRadius: 165,
+    serviceCeiling: 4500,
+    energySource: 'fuel',
+    consumptionPerHour: 170,
+    climbConsumption: 1,
+    capacity: 540,
+    reservePercent: 20
+  },
+  {
+    name: 'Fixed-wing UAV',
+    cruiseSpeed: 18,
+    maxClimbRate: 3,
+    maxDescentRate: 4,
+    minTurnRadius: 60,
+    serviceCeiling: 4000,
+    energySource: 'battery',
+    consumptionPerHour: 250,
+    climbConsumption: 5,
+    capacity: 700,
+    reservePercent: 25
+  },
+  {
+    name: 'Multirotor UAV',
+    cruiseSpeed: 10,
+    maxClimbRate: 5,
+    maxDescentRate: 3,
+    minTurnRadius: 0,
+    serviceCeiling: 5000,
+    energySource: 'battery',
+    consumptionPerHour: 800,
+    climbConsumption: 8,
+    capacity: 548,
+    reservePercent: 25
+  }
+];
+
+export const DEFAULT_AIRCRAFT_PROFILE = AIRCRAFT_PROFILES[0];
+
+/**
+ * Index of the preset a profile matches, or -1 for a profile edited by the user
+ */
+export function findAircraftPreset(aircraft: AircraftProfile): number {
+  return AIRCRAFT_PROFILES.findIndex(preset =>
+    (Object.keys(preset) as (keyof AircraftProfile)[]).every(key => preset[key] === aircraft[key])
+  );
+}
+
+export type PerformanceIssueType = 'climb' | 'descent' | 'ceiling';
+
+/**
+ * Stretch of the profile the aircraft can't fly: a segment between vertices climbing or descending
+ * faster than the aircraft can at cruise speed, or samples above its service ceiling
+ */
+export interface PerformanceIssue {
+  type: PerformanceIssueType;
+  startDistance: number;
+  endDistance: number;
+  required: number; // Climb or descent rate in m/s, or the highest altitude in m
+  limit: number; // The aircraft's rate or ceiling
+  points: Coordinate[]; // Locations inside the stretch, for zooming the map
+}
+
+/**
+ * Check a profile against the aircraft's climb and descent rates and service ceiling
+ * @param vertexPoints Profile samples at the path vertices, in order - segments between them are checked
+ *   for the climb or descent rate their altitude change needs at cruise speed; joins between lines are skipped
+ */
+export function detectPerformanceIssues(
+  profile: ElevationPoint[],
+  vertexPoints: ElevationPoint[],
+  aircraft: AircraftProfile,
+  nominalFlightHeight: number
+): PerformanceIssue[] {
+  const issues: PerformanceIssue[] = [];
+
+  for (let i = 1; i < vertexPoints.length; i++) {
+    const from = vertexPoints[i - 1];
+    const to = vertexPoints[i];
+    const distance = to.distance - from.distance;
+    if (distance <= 0 || from.lineId !== to.lineId) continue;
+
+    const rate = (getFlightAltitude(to, nominalFlightHeight) - getFlightAltitude(from, nominalFlightHeight)) / (distance / aircraft.cruiseSpeed);
+    const type: PerformanceIssueType | null = rate > aircraft.maxClimbRate
+      ? 'climb'
+      : -rate > aircraft.maxDescentRate ? 'descent' : null;
+    if (type) {
+      issues.push({
+        type,
+        startDistance: from.distance,
+        endDistance: to.distance,
+        required: Math.abs(rate),
+        limit: type === 'climb' ? aircraft.maxClimbRate : aircraft.maxDescentRate,
+        points: profile
+          .filter(point => point.distance >= from.distance && point.distance <= to.distance)
+          .map(point => ({ lng: point.longitude, lat: point.latitude }))
+      });
+    }
+  }
+
+  // Consecutive samples above the ceiling form one issue, never spanning two lines
+  let ceilingIssue: PerformanceIssue | null = null;
+  let previous: ElevationPoint | null = null;
+  for (const point of profile) {
+    const altitude = getFlightAltitude(point, nominalFlightHeight);
+    if (ceilingIssue && previous?.lineId !== point.lineId) {
+      ceilingIssue = null;
+    }
+    if (altitude > aircraft.serviceCeiling) {
+      if (!ceilingIssue) {
+        ceilingIssue = {
+          type: 'ceiling',
+          startDistance: point.distance,
+          endDistance: point.distance,
+          required: altitude,
+          limit: aircraft.serviceCeiling,
+          points: []
+        };
+        issues.push(ceilingIssue);
+      }
+      ceilingIssue.endDistance = point.distance;
+      ceilingIssue.required = Math.max(ceilingIssue.required, altitude);
+      ceilingIssue.points.push({ lng: point.longitude, lat: point.latitude });
+    } else {
+      ceilingIssue = null;
+    }
+    previous = point;
+  }
+
+  return issues.sort((a, b) => a.startDistance - b.startDistance);
+}
+
+/**
+ * Vertex whose heading change can't be flown at the minimum turn radius
+ */
+export interface SharpTurn {
+  index: number;
+  angle: number; // Heading change in degrees
+  requiredLength: number; // Straight track the turn needs before and after the vertex, in m
+  availableLength: number; // Half of the shorter adjacent segment, in m
+}
+
+/**
+ * Find vertices turning too sharply for the turn radius: a turn through angle Δ at radius r starts
+ * r·tan(Δ/2) before the vertex and ends as far after it, and may use at most half of each adjacent
+ * segment so neighbouring turns don't overlap
+ */
+export function findSharpTurns(points: Coordinate[], minTurnRadius: number): SharpTurn[] {
+  const turns: SharpTurn[] = [];
+  if (minTurnRadius <= 0) return turns;
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const angle = calculateHeadingChange(
+      calculateBearing(points[i - 1], points[i]),
+      calculateBearing(points[i], points[i + 1])
+    );
+
+    const requiredLength = angle >= Math.PI - 1e-6 ? Infinity : minTurnRadius * Math.tan(angle / 2);
+    const availableLength = Math.min(
+      calculateDistance(points[i - 1], points[i]),
+      calculateDistance(points[i], points[i + 1])
+    ) / 2;
+    if (requiredLength > availableLength) {
+      turns.push({ index: i, angle: angle * 180 / Math.PI, requiredLength, availableLength });
+    }
+  }
+  return turns;
+}
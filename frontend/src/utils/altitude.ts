@@ -0,0 +1,72 @@
+import { Coordinate, ElevationPoint } from '../App';
+
+/**
+ * Flight altitude at a vertex, above the DTM vertical datum.
+ * AGL vertices add their height to the ground elevation below them; MSL vertices store the altitude directly.
+ */
+export function getVertexAltitude(vertex: Coordinate, groundElevation: number, nominalFlightHeight: number): number {
+  if (vertex.altitudeReference === 'MSL') {
+    return vertex.height ?? groundElevation + nominalFlightHeight;
+  }
+  return groundElevation + (vertex.height ?? nominalFlightHeight);
+}
+
+/**
+ * Height above the ground at a vertex, whichever reference the vertex uses
+ */
+export function getVertexAGL(vertex: Coordinate, groundElevation: number, nominalFlightHeight: number): number {
+  return getVertexAltitude(vertex, groundElevation, nominalFlightHeight) - groundElevation;
+}
+
+/**
+ * Interpolate the AGL at a point inside a segment.
+ * A segment inherits the altitude reference of its start vertex: AGL segments hold a smoothly varying
+ * height above the terrain, MSL segments fly a straight line between the vertex altitudes so the AGL
+ * varies with the terrain below.
+ * @param t Fraction of the segment length (0 = start vertex, 1 = end vertex)
+ * @param elevation Ground elevation at the interpolated point
+ */
+export function interpolateSegmentAGL(
+  start: Coordinate,
+  end: Coordinate,
+  startGround: number,
+  endGround: number,
+  t: number,
+  elevation: number,
+  nominalFlightHeight: number
+): number {
+  if (start.altitudeReference === 'MSL') {
+    const startAltitude = getVertexAltitude(start, startGround, nominalFlightHeight);
+    const endAltitude = getVertexAltitude(end, endGround, nominalFlightHeight);
+    return startAltitude + (endAltitude - startAltitude) * t - elevation;
+  }
+
+  const startHeight = getVertexAGL(start, startGround, nominalFlightHeight);
+  const endHeight = getVertexAGL(end, endGround, nominalFlightHeight);
+
+  // If heights are the same, no interpolation needed
+  if (startHeight === endHeight) {
+    return startHeight;
+  }
+
+  return startHeight + (endHeight - startHeight) * t;
+}
+
+/**
+ * Ground elevation under each vertex, from the closest sample of the elevation profile
+ * (null for every vertex when there is no profile)
+ */
+export function getVertexGroundElevations(flightPath: Coordinate[], profile: ElevationPoint[]): (number | null)[] {
+  return flightPath.map(vertex => {
+    let closest: ElevationPoint | null = null;
+    let closestDistance = Infinity;
+    for (const sample of profile) {
+      const dist = Math.abs(sample.longitude - vertex.lng) + Math.abs(sample.latitude - vertex.lat);
+      if (dist < closestDistance) {
+        closestDistance = dist;
+        closest = sample;
+      }
+    }
+    return closest ? closest.elevation : null;
+  });
+}
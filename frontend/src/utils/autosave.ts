@@ -0,0 +1,69 @@
+import { Mission } from '../App';
+import { MissionProject, migrateProject, readMission } from './project';
+
+// Browser storage key of the working session
+const AUTOSAVE_KEY = 'lidar-mission-planner.autosave';
+
+/**
+ * Working state kept in browser storage so a reload or crashed tab can pick up where it left off
+ */
+export interface AutosavedSession {
+  project: MissionProject; // Mission, parameters, DTMs and view, in the project file format
+  history: Mission[]; // Undo history of the mission
+  historyIndex: number; // Position in the history
+}
+
+/**
+ * Keep the session in browser storage, replacing the previous one
+ * When storage is full the undo history is left out, so at least the current mission survives
+ */
+export function writeAutosave(session: AutosavedSession) {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(session));
+  } catch (error) {
+    try {
+      localStorage.setItem(AUTOSAVE_KEY, JSON.stringify({ ...session, history: [session.project.mission], historyIndex: 0 }));
+      console.warn('Browser storage is full - autosaved the mission without its undo history');
+    } catch (fallbackError) {
+      console.warn('Failed to autosave the mission:', fallbackError);
+    }
+  }
+}
+
+/**
+ * The session kept in browser storage, migrated to the current project format
+ * @returns null if there is none, or it can't be read
+ */
+export function readAutosave(): AutosavedSession | null {
+  try {
+    const stored = localStorage.getItem(AUTOSAVE_KEY);
+    if (!stored) return null;
+    const data = JSON.parse(stored);
+    const project = migrateProject(data.project);
+    const history = Array.isArray(data.history) ? data.history.map(readMission) : [];
+    return {
+      project,
+      history: history.length > 0 ? history : [project.mission],
+      historyIndex: Number.isInteger(data.historyIndex) ? data.historyIndex : history.length - 1
+    };
+  } catch (error) {
+    console.warn('Ignoring unreadable autosaved session:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether a session holds anything worth restoring - a DTM, or points in any mission of its history
+ */
+export function hasSessionContent(session: AutosavedSession): boolean {
+  return session.project.dtmSources.length > 0 ||
+    session.history.some(mission => mission.lines.some(line => line.points.length > 0));
+}
+
+export function clearAutosave() {
+  try {
+    localStorage.removeItem(AUTOSAVE_KEY);
+  } catch (error) {
+    console.warn('Failed to clear the autosaved session:', error);
+  }
+}
@@ -0,0 +1,70 @@
+import { Coordinate, ElevationPoint } from '../App';
+import { getFlightAltitude } from './lidar';
+
+export type ClearanceIssueType = 'safety' | 'resolution';
+
+/**
+ * Interval of the profile where the flight altitude breaks a clearance limit
+ */
+export interface ClearanceIssue {
+  type: ClearanceIssueType;
+  startDistance: number;
+  endDistance: number;
+  worstMargin: number; // Largest violation in meters (always positive)
+  points: Coordinate[]; // Sample locations inside the interval, for zooming the map
+}
+
+/**
+ * Scan an elevation profile for clearance violations:
+ * - safety: flight altitude below the highest terrain within the search radius plus the safety height
+ * - resolution: flight altitude above the lowest terrain within the search radius plus the resolution limit
+ * Consecutive violating samples are merged into one issue; issues never span two flight lines.
+ */
+export function detectClearanceIssues(
+  profile: ElevationPoint[],
+  nominalFlightHeight: number,
+  safetyHeight: number,
+  resolutionHeight: number
+): ClearanceIssue[] {
+  const issues: ClearanceIssue[] = [];
+  const open: Partial<Record<ClearanceIssueType, ClearanceIssue>> = {};
+
+  const track = (type: ClearanceIssueType, margin: number, point: ElevationPoint) => {
+    const current = open[type];
+    if (margin > 0) {
+      if (current) {
+        current.endDistance = point.distance;
+        current.worstMargin = Math.max(current.worstMargin, margin);
+        current.points.push({ lng: point.longitude, lat: point.latitude });
+      } else {
+        const issue: ClearanceIssue = {
+          type,
+          startDistance: point.distance,
+          endDistance: point.distance,
+          worstMargin: margin,
+          points: [{ lng: point.longitude, lat: point.latitude }]
+        };
+        open[type] = issue;
+        issues.push(issue);
+      }
+    } else if (current) {
+      delete open[type];
+    }
+  };
+
+  profile.forEach((point, index) => {
+    if (index > 0 && point.lineId !== profile[index - 1].lineId) {
+      delete open.safety;
+      delete open.resolution;
+    }
+
+    const altitude = getFlightAltitude(point, nominalFlightHeight);
+    const maxTerrain = point.maxElevation !== undefined ? point.maxElevation : point.elevation;
+    const minTerrain = point.minElevation !== undefined ? point.minElevation : point.elevation;
+
+    track('safety', maxTerrain + safetyHeight - altitude, point);
+    track('resolution', altitude - (minTerrain + resolutionHeight), point);
+  });
+
+  return issues.sort((a, b) => a.startDistance - b.startDistance);
+}
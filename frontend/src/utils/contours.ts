@@ -0,0 +1,163 @@
+/**
+ * Regular elevation grid, row by row from the top (NaN for no data)
+ */
+export interface ElevationGrid {
+  values: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface ContourLine {
+  elevation: number;
+  /** Index contours are drawn heavier and labelled */
+  isIndex: boolean;
+  /** Vertices in grid coordinates (column, row) */
+  points: [number, number][];
+}
+
+// Every fifth contour is an index contour, as on topographic maps
+export const INDEX_CONTOUR_EVERY = 5;
+
+// Segments crossing a cell for each marching-squares case, as pairs of cell edges
+// (0 top, 1 right, 2 bottom, 3 left). Corner bits: top-left 8, top-right 4,
+// bottom-right 2, bottom-left 1. Saddles (5, 10) are resolved by the cell centre.
+const CASE_SEGMENTS: number[][][] = [
+  [], [[3, 2]], [[2, 1]], [[3, 1]],
+  [[0, 1]], [], [[0, 2]], [[3, 0]],
+  [[3, 0]], [[0, 2]], [], [[0, 1]],
+  [[3, 1]], [[1, 2]], [[3, 2]], []
+];
+
+/**
+ * Contour elevations between the grid's lowest and highest valid values
+ */
+export function getContourLevels(values: Float32Array, interval: number): number[] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (isNaN(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (min > max || interval <= 0) return [];
+
+  const levels: number[] = [];
+  for (let level = Math.ceil(min / interval) * interval; level <= max; level += interval) {
+    levels.push(level);
+  }
+  return levels;
+}
+
+/**
+ * Trace contour lines through an elevation grid with marching squares
+ * Cells touching no-data values are skipped, so contours end at DTM voids and edges
+ * @param indexInterval Elevation spacing of index contours
+ */
+export function traceContours(grid: ElevationGrid, levels: number[], indexInterval: number): ContourLine[] {
+  const { values, width, height } = grid;
+  const lines: ContourLine[] = [];
+
+  // Grid edges get numeric ids: horizontal edges first, then vertical edges
+  const horizontalEdge = (col: number, row: number) => row * width + col;
+  const verticalEdge = (col: number, row: number) => width * height + row * width + col;
+
+  for (const level of levels) {
+    const positions = new Map<number, [number, number]>();
+    const neighbours = new Map<number, number[]>();
+
+    // Where the contour crosses a cell edge, by linear interpolation between its corners
+    const edgePoint = (col: number, row: number, edge: number): number => {
+      let id: number;
+      let a: number, b: number;
+      let from: [number, number], to: [number, number];
+      if (edge === 0) {
+        id = horizontalEdge(col, row);
+        a = values[row * width + col]; b = values[row * width + col + 1];
+        from = [col, row]; to = [col + 1, row];
+      } else if (edge === 2) {
+        id = horizontalEdge(col, row + 1);
+        a = values[(row + 1) * width + col]; b = values[(row + 1) * width + col + 1];
+        from = [col, row + 1]; to = [col + 1, row + 1];
+      } else if (edge === 3) {
+        id = verticalEdge(col, row);
+        a = values[row * width + col]; b = values[(row + 1) * width + col];
+        from = [col, row]; to = [col, row + 1];
+      } else {
+        id = verticalEdge(col + 1, row);
+        a = values[row * width + col + 1]; b = values[(row + 1) * width + col + 1];
+        from = [col + 1, row]; to = [col + 1, row + 1];
+      }
+      if (!positions.has(id)) {
+        const t = a === b ? 0.5 : (level - a) / (b - a);
+        positions.set(id, [from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t]);
+      }
+      return id;
+    };
+
+    const connect = (a: number, b: number) => {
+      if (!neighbours.has(a)) neighbours.set(a, []);
+      if (!neighbours.has(b)) neighbours.set(b, []);
+      neighbours.get(a)!.push(b);
+      neighbours.get(b)!.push(a);
+    };
+
+    for (let row = 0; row < height - 1; row++) {
+      for (let col = 0; col < width - 1; col++) {
+        const tl = values[row * width + col];
+        const tr = values[row * width + col + 1];
+        const br = values[(row + 1) * width + col + 1];
+        const bl = values[(row + 1) * width + col];
+        if (isNaN(tl) || isNaN(tr) || isNaN(br) || isNaN(bl)) continue;
+
+        const caseIndex =
+          (tl >= level ? 8 : 0) | (tr >= level ? 4 : 0) | (br >= level ? 2 : 0) | (bl >= level ? 1 : 0);
+
+        let segments = CASE_SEGMENTS[caseIndex];
+        if (caseIndex === 5 || caseIndex === 10) {
+          const centreAbove = (tl + tr + br + bl) / 4 >= level;
+          // Cut off the two corners on the other side of the level from the centre
+          segments = (caseIndex === 5) === centreAbove ? [[3, 0], [1, 2]] : [[0, 1], [2, 3]];
+        }
+
+        for (const [edgeA, edgeB] of segments) {
+          connect(edgePoint(col, row, edgeA), edgePoint(col, row, edgeB));
+        }
+      }
+    }
+
+    // Join segments into polylines - every edge point has at most two neighbours.
+    // Open lines are walked from their ends first, then the remaining closed rings.
+    const visited = new Set<number>();
+    const walk = (start: number) => {
+      const ids = [start];
+      visited.add(start);
+      let current = start;
+      for (;;) {
+        const next = neighbours.get(current)!.find(id => !visited.has(id));
+        if (next === undefined) break;
+        ids.push(next);
+        visited.add(next);
+        current = next;
+      }
+      // Close rings
+      if (ids.length > 2 && neighbours.get(current)!.includes(start)) {
+        ids.push(start);
+      }
+      lines.push({
+        elevation: level,
+        isIndex: Math.abs(level / indexInterval - Math.round(level / indexInterval)) < 1e-6,
+        points: ids.map(id => positions.get(id)!)
+      });
+    };
+
+    neighbours.forEach((ids, id) => {
+      if (ids.length === 1 && !visited.has(id)) walk(id);
+    });
+    neighbours.forEach((_, id) => {
+      if (!visited.has(id)) walk(id);
+    });
+  }
+
+  return lines;
+}
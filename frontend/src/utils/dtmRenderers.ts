@@ -0,0 +1,299 @@
+export type DtmRenderer = 'grayscale' | 'hillshade' | 'slope' | 'aspect' | 'hypsometric';
+
+export type DtmStretch = 'minmax' | 'histogram';
+
+export interface DtmRenderOptions {
+  renderer: DtmRenderer;
+  /** How elevations are mapped onto the grayscale / colour ramp */
+  stretch: DtmStretch;
+  /** Direction the sun shines from, degrees clockwise from north (hillshade) */
+  sunAzimuth: number;
+  /** Sun angle above the horizon in degrees (hillshade) */
+  sunAltitude: number;
+}
+
+/**
+ * Elevation range of a DTM and its histogram (bins spanning [min, max] evenly),
+ * as returned by /api/dtm/:filename/raster
+ */
+export interface ElevationStatistics {
+  min: number;
+  max: number;
+  histogram?: number[];
+}
+
+export interface LegendEntry {
+  color: string;
+  label: string;
+}
+
+interface ColorStop {
+  value: number;
+  color: [number, number, number];
+}
+
+export const DEFAULT_RENDER_OPTIONS: DtmRenderOptions = {
+  renderer: 'grayscale',
+  stretch: 'minmax',
+  sunAzimuth: 315,
+  sunAltitude: 45
+};
+
+export const RENDERER_LABELS: Record<DtmRenderer, string> = {
+  grayscale: 'Grayscale',
+  hillshade: 'Hillshade',
+  slope: 'Slope',
+  aspect: 'Aspect',
+  hypsometric: 'Hypsometric Tint'
+};
+
+// Lowland green -> upland yellow/brown -> summit white, over normalized elevation
+const HYPSOMETRIC_RAMP: ColorStop[] = [
+  { value: 0, color: [26, 110, 58] },
+  { value: 0.2, color: [123, 182, 97] },
+  { value: 0.4, color: [232, 224, 154] },
+  { value: 0.6, color: [201, 154, 91] },
+  { value: 0.8, color: [140, 90, 60] },
+  { value: 1, color: [245, 245, 245] }
+];
+
+// Slope in degrees - flat green through red for slopes too steep to plan over comfortably
+const SLOPE_RAMP: ColorStop[] = [
+  { value: 0, color: [26, 152, 80] },
+  { value: 10, color: [166, 217, 106] },
+  { value: 20, color: [254, 224, 139] },
+  { value: 30, color: [253, 174, 97] },
+  { value: 45, color: [215, 48, 39] }
+];
+
+// Aspect below this slope is drawn as flat
+const FLAT_SLOPE_DEGREES = 1;
+const FLAT_COLOR: [number, number, number] = [200, 200, 200];
+
+const ASPECT_DIRECTIONS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Earth circumference at the equator, for Web Mercator ground resolution
+const EARTH_CIRCUMFERENCE = 40075016.686;
+
+function interpolateRamp(ramp: ColorStop[], value: number): [number, number, number] {
+  if (value <= ramp[0].value) return ramp[0].color;
+  for (let i = 1; i < ramp.length; i++) {
+    if (value <= ramp[i].value) {
+      const t = (value - ramp[i - 1].value) / (ramp[i].value - ramp[i - 1].value);
+      const [r0, g0, b0] = ramp[i - 1].color;
+      const [r1, g1, b1] = ramp[i].color;
+      return [r0 + (r1 - r0) * t, g0 + (g1 - g0) * t, b0 + (b1 - b0) * t];
+    }
+  }
+  return ramp[ramp.length - 1].color;
+}
+
+// Hue wheel with north red, east yellow-green, south cyan, west purple
+function aspectColor(aspectDegrees: number): [number, number, number] {
+  const h = aspectDegrees / 60;
+  const x = 1 - Math.abs((h % 2) - 1);
+  const [r, g, b] =
+    h < 1 ? [1, x, 0] :
+    h < 2 ? [x, 1, 0] :
+    h < 3 ? [0, 1, x] :
+    h < 4 ? [0, x, 1] :
+    h < 5 ? [x, 0, 1] : [1, 0, x];
+  return [r * 230 + 25, g * 230 + 25, b * 230 + 25];
+}
+
+function toCss([r, g, b]: [number, number, number]): string {
+  return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+}
+
+/**
+ * Build the elevation -> [0, 1] mapping used by grayscale and hypsometric renderers
+ * Histogram stretch equalizes the DTM's elevation distribution so terrain detail
+ * isn't lost when a few peaks or pits dominate the min-max range
+ */
+export function createElevationStretch(
+  statistics: ElevationStatistics,
+  stretch: DtmStretch
+): (elevation: number) => number {
+  const { min, max, histogram } = statistics;
+  const range = max - min || 1;
+  const linear = (elevation: number) => Math.max(0, Math.min(1, (elevation - min) / range));
+
+  const total = histogram?.reduce((sum, count) => sum + count, 0) ?? 0;
+  if (stretch === 'minmax' || !histogram || total === 0) {
+    return linear;
+  }
+
+  // Cumulative distribution at the upper edge of each bin
+  const cdf: number[] = [];
+  let cumulative = 0;
+  for (const count of histogram) {
+    cumulative += count;
+    cdf.push(cumulative / total);
+  }
+
+  return (elevation: number) => {
+    const position = linear(elevation) * histogram.length;
+    const bin = Math.min(histogram.length - 1, Math.floor(position));
+    const lower = bin > 0 ? cdf[bin - 1] : 0;
+    return lower + (cdf[bin] - lower) * (position - bin);
+  };
+}
+
+/**
+ * Combine the statistics of several DTMs into one, so a mosaic shares a single
+ * elevation range and stretch
+ */
+export function mergeElevationStatistics(statistics: ElevationStatistics[]): ElevationStatistics | null {
+  if (statistics.length === 0) return null;
+  if (statistics.length === 1) return statistics[0];
+
+  const min = Math.min(...statistics.map(s => s.min));
+  const max = Math.max(...statistics.map(s => s.max));
+  const binCount = Math.max(0, ...statistics.map(s => s.histogram?.length ?? 0));
+  if (binCount === 0) return { min, max };
+
+  // Re-bin every histogram onto the combined range by bin centre
+  const histogram = new Array(binCount).fill(0);
+  const range = max - min || 1;
+  statistics.forEach(s => {
+    if (!s.histogram) return;
+    const binWidth = (s.max - s.min) / s.histogram.length;
+    s.histogram.forEach((count, bin) => {
+      const centre = s.min + (bin + 0.5) * binWidth;
+      const target = Math.floor(((centre - min) / range) * binCount);
+      histogram[Math.max(0, Math.min(binCount - 1, target))] += count;
+    });
+  });
+
+  return { min, max, histogram };
+}
+
+/**
+ * Elevation at which a stretch reaches the given normalized value (for legend labels)
+ */
+function invertStretch(stretchFn: (elevation: number) => number, statistics: ElevationStatistics, t: number): number {
+  let low = statistics.min;
+  let high = statistics.max;
+  for (let i = 0; i < 30; i++) {
+    const mid = (low + high) / 2;
+    if (stretchFn(mid) < t) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Ground size in meters of a Web Mercator pixel at the given zoom and latitude
+ */
+export function getMercatorPixelSize(zoom: number, latitude: number, tileSize: number = 256): number {
+  return (EARTH_CIRCUMFERENCE * Math.cos((latitude * Math.PI) / 180)) / (tileSize * Math.pow(2, zoom));
+}
+
+/**
+ * Render a buffered elevation tile into RGBA pixels
+ * @param elevations Elevations of (width + 2 * buffer)^2 pixels, NaN for no data
+ * @param buffer Extra pixels on each side, used by the slope-based renderers
+ * @param pixelSizeAt Ground pixel size in meters for a tile row (Web Mercator scale varies with latitude)
+ */
+export function renderElevationTile(
+  imageData: ImageData,
+  elevations: Float32Array,
+  buffer: number,
+  pixelSizeAt: (row: number) => number,
+  options: DtmRenderOptions,
+  stretchFn: (elevation: number) => number
+): void {
+  const { width, height, data } = imageData;
+  const stride = width + 2 * buffer;
+  const zenith = ((90 - options.sunAltitude) * Math.PI) / 180;
+  const azimuth = (((360 - options.sunAzimuth + 90) % 360) * Math.PI) / 180;
+
+  // Elevation at buffered tile coordinates, falling back to the centre pixel for no data
+  const sample = (col: number, row: number, fallback: number) => {
+    if (col < 0 || row < 0 || col >= stride || row >= stride) return fallback;
+    const value = elevations[row * stride + col];
+    return isNaN(value) ? fallback : value;
+  };
+
+  for (let row = 0; row < height; row++) {
+    const cellSize = pixelSizeAt(row);
+
+    for (let col = 0; col < width; col++) {
+      const bx = col + buffer;
+      const by = row + buffer;
+      const z = elevations[by * stride + bx];
+      const idx = (row * width + col) * 4;
+
+      // Leave no-data pixels transparent
+      if (isNaN(z)) continue;
+
+      let color: [number, number, number];
+
+      if (options.renderer === 'grayscale' || options.renderer === 'hypsometric') {
+        const normalized = stretchFn(z);
+        color = options.renderer === 'grayscale'
+          ? [normalized * 255, normalized * 255, normalized * 255]
+          : interpolateRamp(HYPSOMETRIC_RAMP, normalized);
+      } else {
+        // Horn's method over the 3x3 neighbourhood
+        const a = sample(bx - 1, by - 1, z), b = sample(bx, by - 1, z), c = sample(bx + 1, by - 1, z);
+        const d = sample(bx - 1, by, z), f = sample(bx + 1, by, z);
+        const g = sample(bx - 1, by + 1, z), h = sample(bx, by + 1, z), i = sample(bx + 1, by + 1, z);
+        const dzdx = ((c + 2 * f + i) - (a + 2 * d + g)) / (8 * cellSize);
+        const dzdy = ((g + 2 * h + i) - (a + 2 * b + c)) / (8 * cellSize);
+        const slope = Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy));
+        const aspect = Math.atan2(dzdy, -dzdx);
+
+        if (options.renderer === 'hillshade') {
+          const shade = Math.cos(zenith) * Math.cos(slope) +
+            Math.sin(zenith) * Math.sin(slope) * Math.cos(azimuth - aspect);
+          const gray = Math.max(0, shade) * 255;
+          color = [gray, gray, gray];
+        } else if (options.renderer === 'slope') {
+          color = interpolateRamp(SLOPE_RAMP, (slope * 180) / Math.PI);
+        } else if ((slope * 180) / Math.PI < FLAT_SLOPE_DEGREES) {
+          color = FLAT_COLOR;
+        } else {
+          // Math angle (counter-clockwise from east) to compass direction the slope faces
+          const compass = (450 - (aspect * 180) / Math.PI) % 360;
+          color = aspectColor(compass);
+        }
+      }
+
+      data[idx] = color[0];     // R
+      data[idx + 1] = color[1]; // G
+      data[idx + 2] = color[2]; // B
+      data[idx + 3] = 255;      // A
+    }
+  }
+}
+
+/**
+ * Legend entries for the renderers that use a colour ramp (null for grayscale and hillshade)
+ */
+export function getDtmLegend(options: DtmRenderOptions, statistics: ElevationStatistics): LegendEntry[] | null {
+  switch (options.renderer) {
+    case 'hypsometric': {
+      const stretchFn = createElevationStretch(statistics, options.stretch);
+      return [...HYPSOMETRIC_RAMP].reverse().map(stop => ({
+        color: toCss(stop.color),
+        label: `${invertStretch(stretchFn, statistics, stop.value).toFixed(0)} m`
+      }));
+    }
+    case 'slope':
+      return [...SLOPE_RAMP].reverse().map((stop, index) => ({
+        color: toCss(stop.color),
+        label: index === 0 ? `≥ ${stop.value}°` : `${stop.value}°`
+      }));
+    case 'aspect':
+      return [
+        ...ASPECT_DIRECTIONS.map((direction, index) => ({
+          color: toCss(aspectColor(index * 45)),
+          label: direction
+        })),
+        { color: toCss(FLAT_COLOR), label: 'Flat' }
+      ];
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,139 @@
+import L from 'leaflet';
+import {
+  DtmRenderOptions,
+  ElevationStatistics,
+  createElevationStretch,
+  getMercatorPixelSize,
+  renderElevationTile
+} from './dtmRenderers';
+
+export interface DtmTileLayerOptions extends L.GridLayerOptions {
+  /** Tile URL template with {z}/{x}/{y} placeholders, as returned by /api/dtm/:filename/raster */
+  tileUrl: string;
+  /** Elevation range and histogram used for the stretch (the whole DTM or mosaic) */
+  statistics: ElevationStatistics;
+  /** Buffer pixels around each served tile (see TILE_BUFFER in the backend) */
+  tileBuffer: number;
+  renderOptions: DtmRenderOptions;
+}
+
+export interface DtmTileLayer extends L.GridLayer {
+  /** Re-render the loaded tiles with a different renderer without refetching them */
+  setRenderOptions(renderOptions: DtmRenderOptions): void;
+  /** Re-render the loaded tiles against a different elevation range (e.g. a whole mosaic) */
+  setStatistics(statistics: ElevationStatistics): void;
+}
+
+interface LoadedTile {
+  canvas: HTMLCanvasElement;
+  coords: L.Coords;
+  elevations: Float32Array;
+}
+
+/**
+ * Fetch a binary elevation tile
+ * @returns Float32 elevations (NaN for no data) or null when the tile misses the DTM
+ */
+export async function fetchElevationTile(
+  tileUrl: string,
+  coords: L.Coords,
+  signal?: AbortSignal
+): Promise<Float32Array | null> {
+  const url = tileUrl
+    .replace('{z}', String(coords.z))
+    .replace('{x}', String(coords.x))
+    .replace('{y}', String(coords.y));
+  const response = await fetch(url, { signal });
+  if (response.status === 204) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load DTM tile ${coords.z}/${coords.x}/${coords.y}: ${response.status}`);
+  }
+  return new Float32Array(await response.arrayBuffer());
+}
+
+/**
+ * Grid layer that renders DTM elevation tiles (grayscale, hillshade, slope, aspect
+ * or hypsometric tint). Only the tiles in view are requested, so DTMs of any size
+ * can be displayed
+ */
+export function createDtmTileLayer(options: DtmTileLayerOptions): DtmTileLayer {
+  const controllers = new Map<string, AbortController>();
+  const loadedTiles = new Map<string, LoadedTile>();
+  let renderOptions = options.renderOptions;
+  let statistics = options.statistics;
+  let stretchFn = createElevationStretch(statistics, renderOptions.stretch);
+
+  const renderTile = (tile: LoadedTile) => {
+    const ctx = tile.canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = tile.canvas;
+    const imageData = ctx.createImageData(width, height);
+    const { y, z } = tile.coords;
+
+    // Latitude of a tile row centre, for the Web Mercator ground pixel size
+    const pixelSizeAt = (row: number) => {
+      const n = Math.PI * (1 - (2 * (y * height + row + 0.5)) / (height * Math.pow(2, z)));
+      return getMercatorPixelSize(z, (Math.atan(Math.sinh(n)) * 180) / Math.PI, height);
+    };
+
+    renderElevationTile(imageData, tile.elevations, options.tileBuffer, pixelSizeAt, renderOptions, stretchFn);
+    ctx.putImageData(imageData, 0, 0);
+  };
+
+  const DtmGridLayer = L.GridLayer.extend({
+    createTile(coords: L.Coords, done: L.DoneCallback) {
+      const canvas = document.createElement('canvas');
+      const size = this.getTileSize();
+      canvas.width = size.x;
+      canvas.height = size.y;
+
+      const key = `${coords.z}/${coords.x}/${coords.y}`;
+      const controller = new AbortController();
+      controllers.set(key, controller);
+
+      fetchElevationTile(options.tileUrl, coords, controller.signal)
+        .then(elevations => {
+          if (elevations) {
+            const tile = { canvas, coords, elevations };
+            loadedTiles.set(key, tile);
+            renderTile(tile);
+          }
+          done(undefined, canvas);
+        })
+        .catch(error => {
+          if (error?.name !== 'AbortError') {
+            console.error('Error loading DTM tile:', error);
+          }
+          done(error, canvas);
+        })
+        .finally(() => controllers.delete(key));
+
+      return canvas;
+    },
+
+    setRenderOptions(newRenderOptions: DtmRenderOptions) {
+      renderOptions = newRenderOptions;
+      stretchFn = createElevationStretch(statistics, renderOptions.stretch);
+      loadedTiles.forEach(renderTile);
+    },
+
+    setStatistics(newStatistics: ElevationStatistics) {
+      statistics = newStatistics;
+      stretchFn = createElevationStretch(statistics, renderOptions.stretch);
+      loadedTiles.forEach(renderTile);
+    }
+  }) as new (options: L.GridLayerOptions) => DtmTileLayer;
+
+  const layer = new DtmGridLayer(options);
+
+  // Cancel requests for tiles scrolled out of view before they arrive, and forget their elevations
+  layer.on('tileunload', (event: L.TileEvent) => {
+    const { z, x, y } = event.coords;
+    const key = `${z}/${x}/${y}`;
+    controllers.get(key)?.abort();
+    loadedTiles.delete(key);
+  });
+
+  return layer;
+}
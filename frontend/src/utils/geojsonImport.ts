@@ -0,0 +1,284 @@
+// @ts-ignore - proj4 types may not be perfect
+import proj4 from 'proj4';
+import { AltitudeReference, Coordinate, ReferenceGeometry } from '../App';
+
+/**
+ * What an imported feature becomes - a flight line of the mission, a reference overlay, or nothing
+ */
+export type FeatureRole = 'flight' | 'reference' | 'skip';
+
+export interface ImportFeature {
+  id: number;
+  name: string;
+  geometry: ReferenceGeometry;
+  properties: Record<string, any>;
+}
+
+export interface ParsedGeoJSON {
+  features: ImportFeature[];
+  /** CRS named by the legacy GeoJSON "crs" member, e.g. "EPSG:2039" (null for WGS84) */
+  crs: string | null;
+  /** Point and empty features, which can't be imported */
+  skipped: number;
+}
+
+/**
+ * Resolved coordinate system used to reproject a file
+ */
+export interface ResolvedCrs {
+  code: string | null;
+  name: string;
+  definition: string;
+}
+
+const LINE_AND_POLYGON_TYPES = ['LineString', 'MultiLineString', 'Polygon', 'MultiPolygon'];
+
+// CRS name of a legacy GeoJSON "crs" member (urn:ogc:def:crs:EPSG::2039, EPSG:2039, ...)
+function getCrsName(data: any): string | null {
+  const name: unknown = data?.crs?.properties?.name;
+  if (typeof name !== 'string' || /CRS84$/i.test(name)) {
+    return null;
+  }
+  const epsg = name.match(/EPSG:{1,2}(\d+)$/i)?.[1];
+  if (epsg) {
+    return epsg === '4326' ? null : `EPSG:${epsg}`;
+  }
+  return name;
+}
+
+// Line and polygon geometries of a GeoJSON geometry, splitting geometry collections
+function flattenGeometry(geometry: any): ReferenceGeometry[] {
+  if (!geometry) return [];
+  if (geometry.type === 'GeometryCollection') {
+    return (geometry.geometries ?? []).flatMap(flattenGeometry);
+  }
+  return LINE_AND_POLYGON_TYPES.includes(geometry.type) ? [geometry as ReferenceGeometry] : [];
+}
+
+/**
+ * List the line and polygon features of a GeoJSON document
+ * Accepts a FeatureCollection, a single Feature or a bare geometry
+ */
+export function parseGeoJSON(data: any): ParsedGeoJSON {
+  const rawFeatures: any[] = data?.type === 'FeatureCollection'
+    ? data.features ?? []
+    : data?.type === 'Feature'
+      ? [data]
+      : [{ type: 'Feature', geometry: data, properties: {} }];
+
+  const features: ImportFeature[] = [];
+  let skipped = 0;
+  rawFeatures.forEach((feature, index) => {
+    const properties = feature?.properties ?? {};
+    const baseName = properties.name ?? properties.Name ?? properties.NAME ?? `Feature ${index + 1}`;
+    const geometries = flattenGeometry(feature?.geometry);
+    if (geometries.length === 0) {
+      skipped++;
+    }
+    geometries.forEach((geometry, part) => {
+      features.push({
+        id: features.length,
+        name: geometries.length > 1 ? `${baseName} (${part + 1})` : String(baseName),
+        geometry,
+        properties
+      });
+    });
+  });
+
+  return { features, crs: getCrsName(data), skipped };
+}
+
+/**
+ * Every position of a geometry
+ */
+export function getPositions(geometry: ReferenceGeometry): number[][] {
+  switch (geometry.type) {
+    case 'LineString':
+      return geometry.coordinates;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.flat();
+    case 'MultiPolygon':
+      return geometry.coordinates.flat(2);
+  }
+}
+
+/**
+ * Whether the coordinates of the features can't be longitude/latitude
+ */
+export function looksProjected(features: ImportFeature[]): boolean {
+  return features.some(feature =>
+    getPositions(feature.geometry).some(([x, y]) => Math.abs(x) > 180 || Math.abs(y) > 90)
+  );
+}
+
+/**
+ * Reproject features to WGS84 [lng, lat]
+ */
+export function reprojectFeatures(features: ImportFeature[], crs: ResolvedCrs): ImportFeature[] {
+  const converter = proj4(crs.definition, 'EPSG:4326');
+  const transform = (points: number[][]) => points.map(([x, y]) => converter.forward([x, y]) as number[]);
+
+  return features.map(feature => {
+    const { geometry } = feature;
+    let reprojected: ReferenceGeometry;
+    switch (geometry.type) {
+      case 'LineString':
+        reprojected = { type: geometry.type, coordinates: transform(geometry.coordinates) };
+        break;
+      case 'MultiLineString':
+      case 'Polygon':
+        reprojected = { type: geometry.type, coordinates: geometry.coordinates.map(transform) };
+        break;
+      case 'MultiPolygon':
+        reprojected = { type: geometry.type, coordinates: geometry.coordinates.map(polygon => polygon.map(transform)) };
+        break;
+    }
+    return { ...feature, geometry: reprojected };
+  });
+}
+
+/**
+ * Resolve an EPSG code, WKT or proj4 string to a definition the browser's proj4 can use
+ */
+export async function resolveCrs(definition: string): Promise<ResolvedCrs> {
+  const response = await fetch('/api/projections/resolve', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ definition })
+  });
+  const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to resolve coordinate system: ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * Whether a position lies inside any of the DTM extents [minLng, minLat, maxLng, maxLat]
+ */
+export function isInsideExtents(extents: number[][], lng: number, lat: number): boolean {
+  return extents.some(([minLng, minLat, maxLng, maxLat]) =>
+    lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat
+  );
+}
+
+/**
+ * Number of vertices of a feature outside DTM coverage
+ */
+export function countOutsideExtents(feature: ImportFeature, extents: number[][]): number {
+  return getPositions(feature.geometry).filter(([lng, lat]) => !isInsideExtents(extents, lng, lat)).length;
+}
+
+/**
+ * Flight lines of a line feature, one per part
+ * Per-vertex heights and altitude references written by the GeoJSON export are restored
+ */
+export function getFlightLines(feature: ImportFeature): Coordinate[][] {
+  const { geometry, properties } = feature;
+  if (geometry.type === 'LineString') {
+    const heights = properties.heights as (number | null)[] | undefined;
+    const altitudeReferences = properties.altitudeReferences as AltitudeReference[] | undefined;
+    return [geometry.coordinates.map(([lng, lat], index) => ({
+      lng,
+      lat,
+      ...(heights && heights[index] !== undefined && heights[index] !== null && { height: heights[index] as number }),
+      ...(altitudeReferences && altitudeReferences[index] === 'MSL' && { altitudeReference: 'MSL' as const })
+    }))];
+  }
+  if (geometry.type === 'MultiLineString') {
+    return geometry.coordinates.map(part => part.map(([lng, lat]) => ({ lng, lat })));
+  }
+  return [];
+}
+
+/**
+ * Parameter range [t0, t1] of the segment a→b inside an extent [minLng, minLat, maxLng, maxLat]
+ * (Liang-Barsky), or null when the segment misses it
+ */
+function segmentInsideExtent(a: Coordinate, b: Coordinate, [minLng, minLat, maxLng, maxLat]: number[]): [number, number] | null {
+  const dLng = b.lng - a.lng;
+  const dLat = b.lat - a.lat;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [
+    [-dLng, a.lng - minLng],
+    [dLng, maxLng - a.lng],
+    [-dLat, a.lat - minLat],
+    [dLat, maxLat - a.lat]
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null;
+    } else {
+      const t = q / p;
+      if (p < 0) {
+        t0 = Math.max(t0, t);
+      } else {
+        t1 = Math.min(t1, t);
+      }
+    }
+  }
+  return t0 <= t1 ? [t0, t1] : null;
+}
+
+/**
+ * Cut a flight line down to the stretches inside DTM coverage
+ * Segments are cut where they cross the edge of coverage and the line is split where it leaves it;
+ * boundary points take the height settings of the nearer vertex. Stretches without length are discarded
+ */
+export function clipToExtents(line: Coordinate[], extents: number[][]): Coordinate[][] {
+  const runs: Coordinate[][] = [];
+  let current: Coordinate[] | null = null;
+
+  const pointAt = (a: Coordinate, b: Coordinate, t: number): Coordinate => {
+    if (t <= 0) return a;
+    if (t >= 1) return b;
+    return { ...(t < 0.5 ? a : b), lng: a.lng + (b.lng - a.lng) * t, lat: a.lat + (b.lat - a.lat) * t };
+  };
+  const close = () => {
+    if (current && current.some(point => point.lng !== current![0].lng || point.lat !== current![0].lat)) {
+      runs.push(current);
+    }
+    current = null;
+  };
+
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1];
+    const b = line[i];
+
+    // Stretches of the segment inside coverage - overlapping or touching extents merge into one
+    const ranges = extents
+      .map(extent => segmentInsideExtent(a, b, extent))
+      .filter((range): range is [number, number] => range !== null)
+      .sort((x, y) => x[0] - y[0]);
+    const merged: [number, number][] = [];
+    for (const range of ranges) {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1] + 1e-9) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+    }
+
+    // A stretch starting at the segment's first vertex carries on the run of the previous segment
+    if (merged.length === 0 || merged[0][0] > 0) {
+      close();
+    }
+    merged.forEach(([t0, t1], index) => {
+      if (!current || index > 0) {
+        close();
+        current = [pointAt(a, b, t0)];
+      }
+      const end = pointAt(a, b, t1);
+      const last = current![current!.length - 1];
+      if (end.lng !== last.lng || end.lat !== last.lat) {
+        current!.push(end);
+      }
+      if (t1 < 1) close();
+    });
+  }
+  close();
+  return runs;
+}
@@ -34,6 +34,14 @@ export function calculateBearing(point1: Coordinate, point2: Coordinate): number
   return θ;
 }
 
+/**
+ * Absolute difference between two bearings in radians, in [0, π]
+ */
+export function calculateHeadingChange(from: number, to: number): number {
+  const difference = Math.abs(to - from) % (2 * Math.PI);
+  return difference > Math.PI ? 2 * Math.PI - difference : difference;
+}
+
 /**
  * Calculate a new point at a given distance and bearing from a starting point
  */
@@ -141,3 +149,28 @@ export function findClosestPointOnLine(
 
   return { t: clampedT, distance };
 }
+
+/**
+ * Project a coordinate onto a local east/north plane (meters) centred on an origin.
+ * Uses an equirectangular approximation, which is accurate enough for survey blocks
+ * spanning a few tens of kilometers.
+ */
+export function toLocalXY(origin: Coordinate, point: Coordinate): { x: number; y: number } {
+  const R = 6371000; // Earth radius in meters
+  const φ0 = (origin.lat * Math.PI) / 180;
+  const x = ((point.lng - origin.lng) * Math.PI / 180) * R * Math.cos(φ0);
+  const y = ((point.lat - origin.lat) * Math.PI / 180) * R;
+  return { x, y };
+}
+
+/**
+ * Inverse of toLocalXY - convert local east/north meters back to a geographic coordinate
+ */
+export function fromLocalXY(origin: Coordinate, x: number, y: number): Coordinate {
+  const R = 6371000; // Earth radius in meters
+  const φ0 = (origin.lat * Math.PI) / 180;
+  return {
+    lng: origin.lng + (x / (R * Math.cos(φ0))) * 180 / Math.PI,
+    lat: origin.lat + (y / R) * 180 / Math.PI
+  };
+}
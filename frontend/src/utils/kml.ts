@@ -0,0 +1,183 @@
+import { Coordinate } from '../App';
+import { createZip, readZip } from './zip';
+
+/**
+ * A LineString placemark of a KML document
+ */
+export interface KmlLine {
+  name: string;
+  coordinates: Coordinate[];
+}
+
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// First direct child of an element with the given local name (KML files use
+// several namespace prefixes, e.g. kml: and gx:)
+function childByName(element: Element, localName: string): Element | undefined {
+  return Array.from(element.children).find(child => child.localName === localName);
+}
+
+/**
+ * Parse a KML coordinates list ("lon,lat[,alt] lon,lat[,alt] ...")
+ * Absolute altitudes become MSL vertex heights and relative-to-ground altitudes AGL
+ * heights; clamped lines carry no heights
+ */
+function parseCoordinates(text: string, altitudeMode: string): Coordinate[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map(tuple => tuple.split(',').map(Number))
+    .filter(([lng, lat]) => isFinite(lng) && isFinite(lat))
+    .map(([lng, lat, altitude]) => {
+      const coordinate: Coordinate = { lng, lat };
+      if (altitude !== undefined && isFinite(altitude)) {
+        if (altitudeMode === 'absolute') {
+          coordinate.height = altitude;
+          coordinate.altitudeReference = 'MSL';
+        } else if (altitudeMode === 'relativeToGround') {
+          coordinate.height = altitude;
+        }
+      }
+      return coordinate;
+    });
+}
+
+/**
+ * Every LineString in a KML document, named after its placemark
+ * LineStrings inside MultiGeometry are listed separately
+ */
+export function parseKml(text: string): KmlLine[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid KML');
+  }
+
+  const lines: KmlLine[] = [];
+  Array.from(doc.getElementsByTagNameNS('*', 'Placemark')).forEach((placemark, placemarkIndex) => {
+    const name = childByName(placemark, 'name')?.textContent?.trim() || `Placemark ${placemarkIndex + 1}`;
+    const lineStrings = Array.from(placemark.getElementsByTagNameNS('*', 'LineString'));
+
+    lineStrings.forEach((lineString, lineIndex) => {
+      const coordinatesText = childByName(lineString, 'coordinates')?.textContent ?? '';
+      const altitudeMode = childByName(lineString, 'altitudeMode')?.textContent?.trim() ?? 'clampToGround';
+      const coordinates = parseCoordinates(coordinatesText, altitudeMode);
+      if (coordinates.length < 2) return;
+
+      lines.push({
+        name: lineStrings.length > 1 ? `${name} (${lineIndex + 1})` : name,
+        coordinates
+      });
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Read the LineStrings of a .kml file or a .kmz archive (its doc.kml, or else its first .kml)
+ */
+export async function readKmlFile(file: File): Promise<KmlLine[]> {
+  if (!file.name.toLowerCase().endsWith('.kmz')) {
+    return parseKml(await file.text());
+  }
+
+  const files = await readZip(await file.arrayBuffer());
+  const kmlPath = files.has('doc.kml')
+    ? 'doc.kml'
+    : [...files.keys()].find(path => path.toLowerCase().endsWith('.kml'));
+  if (!kmlPath) {
+    throw new Error('The KMZ archive contains no KML document');
+  }
+  return parseKml(new TextDecoder().decode(files.get(kmlPath)!));
+}
+
+/**
+ * A flight line ready for KML export
+ * altitudes holds the altitude of each vertex above mean sea level (KML absolute altitudes refer to the geoid)
+ */
+export interface KmlExportLine {
+  name: string;
+  color: string;
+  points: Coordinate[];
+  altitudes: number[];
+}
+
+// KML colours are aabbggrr hex - convert a CSS #rrggbb colour at the given opacity
+function toKmlColor(color: string, alpha: string): string {
+  const hex = /^#[0-9a-f]{6}$/i.test(color) ? color.slice(1) : 'ff0000';
+  return `${alpha}${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`.toLowerCase();
+}
+
+function buildLinePlacemark(line: KmlExportLine): string {
+  const coordinates = line.points
+    .map((point, index) => `${point.lng.toFixed(8)},${point.lat.toFixed(8)},${line.altitudes[index].toFixed(2)}`)
+    .join(' ');
+
+  const waypoints = line.points.map((point, index) => `
+        <Placemark>
+          <name>${index + 1}</name>
+          <description>Altitude ${line.altitudes[index].toFixed(1)} m MSL${point.altitudeReference === 'MSL' ? ' (fixed altitude)' : ''}</description>
+          <styleUrl>#waypoint</styleUrl>
+          <Point>
+            <altitudeMode>absolute</altitudeMode>
+            <coordinates>${point.lng.toFixed(8)},${point.lat.toFixed(8)},${line.altitudes[index].toFixed(2)}</coordinates>
+          </Point>
+        </Placemark>`).join('');
+
+  return `
+    <Placemark>
+      <name>${escapeXml(line.name)}</name>
+      <Style>
+        <LineStyle>
+          <color>${toKmlColor(line.color, 'ff')}</color>
+          <width>3</width>
+        </LineStyle>
+        <PolyStyle>
+          <color>${toKmlColor(line.color, '40')}</color>
+        </PolyStyle>
+      </Style>
+      <LineString>
+        <extrude>1</extrude>
+        <altitudeMode>absolute</altitudeMode>
+        <coordinates>${coordinates}</coordinates>
+      </LineString>
+    </Placemark>
+    <Folder>
+      <name>${escapeXml(line.name)} Waypoints</name>${waypoints}
+    </Folder>`;
+}
+
+/**
+ * Build a KML document of flight lines at absolute altitudes
+ * Each line is a placemark in its own colour, extruded to the ground so the flight height
+ * is visible in Google Earth, with its vertices listed as numbered waypoints
+ */
+export function buildKml(name: string, lines: KmlExportLine[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="${KML_NAMESPACE}">
+  <Document>
+    <name>${escapeXml(name)}</name>
+    <Style id="waypoint">
+      <IconStyle>
+        <scale>0.8</scale>
+      </IconStyle>
+    </Style>${lines.map(buildLinePlacemark).join('')}
+  </Document>
+</kml>
+`;
+}
+
+/**
+ * Package a KML document as KMZ
+ */
+export function createKmz(kml: string): Blob {
+  return createZip([{ name: 'doc.kml', data: new TextEncoder().encode(kml) }]);
+}
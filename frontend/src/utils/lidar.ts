@@ -0,0 +1,259 @@
+import { Coordinate, ElevationPoint, SensorModel } from '../App';
+import { calculateBearing, calculateDestination, toLocalXY } from './geometry';
+
+/**
+ * Calculate the ground swath width of a scanning LiDAR
+ * @param agl Sensor height above the terrain in meters
+ * @param fovDegrees Full scan field of view in degrees
+ * @returns Swath width in meters
+ */
+export function calculateSwathWidth(agl: number, fovDegrees: number): number {
+  if (agl <= 0) return 0;
+  const halfAngle = ((fovDegrees / 2) * Math.PI) / 180;
+  return 2 * agl * Math.tan(halfAngle);
+}
+
+/**
+ * Calculate the distance between adjacent flight lines for a target sidelap
+ * @param agl Sensor height above the terrain in meters
+ * @param fovDegrees Full scan field of view in degrees
+ * @param sidelapPercent Desired overlap between adjacent swaths (0-100)
+ * @returns Line spacing in meters
+ */
+export function calculateLineSpacing(agl: number, fovDegrees: number, sidelapPercent: number): number {
+  return calculateSwathWidth(agl, fovDegrees) * (1 - sidelapPercent / 100);
+}
+
+/**
+ * Flight altitude (above the DTM vertical datum) at a profile sample
+ */
+export function getFlightAltitude(point: ElevationPoint, nominalFlightHeight: number): number {
+  return point.elevation + (point.flightHeight ?? nominalFlightHeight);
+}
+
+/**
+ * Effective sensor height above the terrain at a profile sample.
+ * Measured against the highest terrain within the search radius when it is available,
+ * because a ridge beside the line narrows the swath even if the terrain directly below does not.
+ */
+export function getEffectiveAGL(point: ElevationPoint, nominalFlightHeight: number): number {
+  const terrain = point.maxElevation !== undefined ? point.maxElevation : point.elevation;
+  return getFlightAltitude(point, nominalFlightHeight) - terrain;
+}
+
+/**
+ * Find the lowest effective AGL along a set of profile samples - this sample
+ * produces the narrowest swath and therefore governs the line spacing
+ */
+export function getMinimumEffectiveAGL(profile: ElevationPoint[], nominalFlightHeight: number): number {
+  if (profile.length === 0) {
+    return nominalFlightHeight;
+  }
+  return Math.min(...profile.map(p => getEffectiveAGL(p, nominalFlightHeight)));
+}
+
+/**
+ * Ground footprint of one flight segment, sampled at every profile point along it
+ */
+export interface SwathFootprint {
+  segmentIndex: number;
+  left: Coordinate[]; // Left swath edge, in flight direction
+  right: Coordinate[]; // Right swath edge, in flight direction
+  narrow: boolean[]; // True where the swath is noticeably narrower than planned
+}
+
+/**
+ * Uncovered strip of ground between the swaths of two adjacent flight lines
+ */
+export interface CoverageGap {
+  segmentIndex: number;
+  neighbourIndex: number;
+  from: Coordinate; // Edge of this segment's swath
+  to: Coordinate; // Edge of the neighbouring swath
+  width: number; // Gap width in meters
+}
+
+// A swath counts as narrowed when it is below this fraction of its planned width
+const SWATH_NARROWING_RATIO = 0.8;
+
+// Segments within this angle (degrees) of each other are treated as parallel strips
+const PARALLEL_TOLERANCE_DEGREES = 10;
+
+/**
+ * Split a path-wide elevation profile into the samples of each segment.
+ * The backend emits every vertex as a sample, so vertex samples close one segment and open the next.
+ * @returns One sample array per segment, or null if the profile does not match the path
+ */
+export function splitProfileBySegment(
+  profile: ElevationPoint[],
+  flightPath: Coordinate[]
+): ElevationPoint[][] | null {
+  if (flightPath.length < 2 || profile.length < 2) {
+    return null;
+  }
+
+  const isVertex = (point: ElevationPoint, vertex: Coordinate) =>
+    Math.abs(point.longitude - vertex.lng) < 1e-9 && Math.abs(point.latitude - vertex.lat) < 1e-9;
+
+  const segments: ElevationPoint[][] = [[]];
+  let segmentIndex = 0;
+
+  for (const point of profile) {
+    segments[segmentIndex].push(point);
+    if (segmentIndex < flightPath.length - 2 && isVertex(point, flightPath[segmentIndex + 1])) {
+      segmentIndex++;
+      segments.push([point]);
+    }
+  }
+
+  // Profile is stale (e.g. still loading for a previous path)
+  const lastPoint = profile[profile.length - 1];
+  if (segments.length !== flightPath.length - 1 || !isVertex(lastPoint, flightPath[flightPath.length - 1])) {
+    return null;
+  }
+
+  return segments;
+}
+
+/**
+ * Compute the LiDAR ground footprint of every flight segment and the coverage gaps between adjacent strips
+ * @param profile Elevation profile along the whole path
+ * @param flightPath Path vertices the profile was sampled for
+ * @param fovDegrees Full scan field of view in degrees
+ * @param nominalFlightHeight Default AGL for vertices without their own height
+ * @param lineJoins Segments joining the end of one flight line to the start of the next - they get no footprint
+ *   and are not treated as strips
+ */
+export function analyzeSwathCoverage(
+  profile: ElevationPoint[],
+  flightPath: Coordinate[],
+  fovDegrees: number,
+  nominalFlightHeight: number,
+  lineJoins: number[] = []
+): { footprints: SwathFootprint[]; gaps: CoverageGap[] } {
+  const segments = splitProfileBySegment(profile, flightPath);
+  if (!segments) {
+    return { footprints: [], gaps: [] };
+  }
+
+  const origin = flightPath[0];
+  const halfWidths: number[][] = [];
+  const footprints: SwathFootprint[] = segments.map((samples, segmentIndex) => {
+    const bearing = calculateBearing(flightPath[segmentIndex], flightPath[segmentIndex + 1]);
+    const left: Coordinate[] = [];
+    const right: Coordinate[] = [];
+    const narrow: boolean[] = [];
+    const halves: number[] = [];
+
+    samples.forEach(sample => {
+      const center: Coordinate = { lng: sample.longitude, lat: sample.latitude };
+      const halfWidth = calculateSwathWidth(getEffectiveAGL(sample, nominalFlightHeight), fovDegrees) / 2;
+      const plannedHalfWidth = calculateSwathWidth(sample.flightHeight ?? nominalFlightHeight, fovDegrees) / 2;
+      left.push(calculateDestination(center, bearing - Math.PI / 2, halfWidth));
+      right.push(calculateDestination(center, bearing + Math.PI / 2, halfWidth));
+      narrow.push(halfWidth < plannedHalfWidth * SWATH_NARROWING_RATIO);
+      halves.push(halfWidth);
+    });
+
+    halfWidths.push(halves);
+    return { segmentIndex, left, right, narrow };
+  });
+
+  // Segment geometry in a local metric plane for fast cross-track tests
+  const lines = segments.map((_, i) => {
+    const a = toLocalXY(origin, flightPath[i]);
+    const b = toLocalXY(origin, flightPath[i + 1]);
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const isStrip = length > 0 && !lineJoins.includes(i);
+    return { a, length, dir: isStrip ? { x: (b.x - a.x) / length, y: (b.y - a.y) / length } : null };
+  });
+
+  const isParallel = (i: number, j: number): boolean => {
+    const di = lines[i].dir;
+    const dj = lines[j].dir;
+    if (!di || !dj) return false;
+    const cosAngle = Math.abs(di.x * dj.x + di.y * dj.y);
+    return cosAngle >= Math.cos((PARALLEL_TOLERANCE_DEGREES * Math.PI) / 180);
+  };
+
+  const gaps: CoverageGap[] = [];
+
+  segments.forEach((samples, i) => {
+    if (!lines[i].dir) return;
+    const bearing = calculateBearing(flightPath[i], flightPath[i + 1]);
+
+    samples.forEach((sample, sampleIndex) => {
+      const p = toLocalXY(origin, { lng: sample.longitude, lat: sample.latitude });
+
+      // Nearest parallel strip on each side of this sample
+      const nearest: Record<'left' | 'right', { index: number; distance: number; t: number } | null> = {
+        left: null,
+        right: null
+      };
+
+      for (let j = 0; j < lines.length; j++) {
+        if (j === i || !isParallel(i, j)) continue;
+        const { a, dir, length } = lines[j];
+        const along = (p.x - a.x) * dir!.x + (p.y - a.y) * dir!.y;
+        const t = along / length;
+        if (t <= 0 || t >= 1) continue; // Strips do not overlap along-track here
+
+        const cross = dir!.x * (p.y - a.y) - dir!.y * (p.x - a.x);
+        // Orient relative to segment i so left/right are consistent for reversed strips
+        const sameDirection = lines[i].dir!.x * dir!.x + lines[i].dir!.y * dir!.y > 0;
+        const side = (cross > 0) === sameDirection ? 'right' : 'left';
+        const distance = Math.abs(cross);
+        if (!nearest[side] || distance < nearest[side]!.distance) {
+          nearest[side] = { index: j, distance, t };
+        }
+      }
+
+      (['left', 'right'] as const).forEach(side => {
+        const neighbour = nearest[side];
+        if (!neighbour) return;
+        const neighbourHalves = halfWidths[neighbour.index];
+        const neighbourHalf = neighbourHalves[Math.round(neighbour.t * (neighbourHalves.length - 1))];
+        const ownHalf = halfWidths[i][sampleIndex];
+        const gapWidth = neighbour.distance - ownHalf - neighbourHalf;
+        if (gapWidth <= 0) return;
+
+        const center: Coordinate = { lng: sample.longitude, lat: sample.latitude };
+        const perpendicular = side === 'right' ? bearing + Math.PI / 2 : bearing - Math.PI / 2;
+        gaps.push({
+          segmentIndex: i,
+          neighbourIndex: neighbour.index,
+          from: calculateDestination(center, perpendicular, ownHalf),
+          to: calculateDestination(center, perpendicular, ownHalf + gapWidth),
+          width: gapWidth
+        });
+      });
+    });
+  });
+
+  return { footprints: footprints.filter(footprint => !lineJoins.includes(footprint.segmentIndex)), gaps };
+}
+
+/**
+ * Calculate the average LiDAR point density on the ground
+ * @param pulseRateKHz Laser pulse repetition rate in kHz
+ * @param groundSpeed Aircraft ground speed in m/s
+ * @param swathWidth Ground swath width in meters
+ * @returns Point density in points per square meter
+ */
+export function calculatePointDensity(pulseRateKHz: number, groundSpeed: number, swathWidth: number): number {
+  if (groundSpeed <= 0 || swathWidth <= 0) return 0;
+  return (pulseRateKHz * 1000) / (groundSpeed * swathWidth);
+}
+
+/**
+ * Point density at a profile sample, from the swath width at the AGL directly below the aircraft
+ */
+export function getPointDensity(
+  point: ElevationPoint,
+  sensorModel: SensorModel,
+  groundSpeed: number,
+  nominalFlightHeight: number
+): number {
+  const agl = getFlightAltitude(point, nominalFlightHeight) - point.elevation;
+  return calculatePointDensity(sensorModel.pulseRate, groundSpeed, calculateSwathWidth(agl, sensorModel.fovDegrees));
+}
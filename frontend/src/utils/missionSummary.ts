@@ -0,0 +1,142 @@
+import { Coordinate, ElevationPoint, FlightLine } from '../App';
+import { calculateBearing, calculateDistance, calculateHeadingChange } from './geometry';
+import { getFlightAltitude } from './lidar';
+import { AircraftProfile } from './aircraft';
+import { GeneratedTurn } from './turns';
+
+export interface MissionSummaryOptions {
+  groundSpeed: number; // m/s
+  climbRate: number; // Best climb rate in m/s - steeper climbs take longer than the distance at ground speed
+  turnRadius: number; // m
+  turns: GeneratedTurn[] | null; // Generated turns between the lines, or null to estimate them from the turn radius
+  nominalFlightHeight: number;
+  aircraft: AircraftProfile;
+}
+
+export interface LineSummary {
+  id: string;
+  name: string;
+  color: string;
+  length: number; // m
+  time: number; // s
+  climb: number; // m
+  descent: number; // m
+}
+
+export interface MissionSummary {
+  lines: LineSummary[];
+  lineLength: number; // Total length of the flight lines in m
+  turnCount: number;
+  turnLength: number; // Total length of the turns between lines in m
+  turnTime: number; // s
+  flightTime: number; // Lines and turns, in s
+  climb: number; // Total climb in m
+  descent: number; // Total descent in m
+  energy: number; // Fuel or battery energy used, in the aircraft's unit
+  usableEnergy: number; // Capacity less the reserve
+}
+
+interface Leg {
+  time: number;
+  climb: number;
+  descent: number;
+}
+
+// Time and height change of flying a horizontal distance while the altitude changes by dz
+function flyLeg(distance: number, dz: number, options: MissionSummaryOptions): Leg {
+  const levelTime = distance / options.groundSpeed;
+  const climbTime = dz > 0 && options.climbRate > 0 ? dz / options.climbRate : 0;
+  return { time: Math.max(levelTime, climbTime), climb: Math.max(dz, 0), descent: Math.max(-dz, 0) };
+}
+
+/**
+ * Estimated length of the turn from the end of one line onto the start of the next: an arc of the
+ * turn radius onto the direct course to the next line, the straight leg, and an arc onto the next line
+ */
+export function estimateTurnLength(from: Coordinate[], to: Coordinate[], turnRadius: number): number {
+  const end = from[from.length - 1];
+  const start = to[0];
+  const distance = calculateDistance(end, start);
+  if (distance === 0) {
+    return 0;
+  }
+  const course = calculateBearing(end, start);
+  const outbound = calculateBearing(from[from.length - 2], end);
+  const inbound = calculateBearing(start, to[1]);
+  return distance + turnRadius * (calculateHeadingChange(outbound, course) + calculateHeadingChange(course, inbound));
+}
+
+/**
+ * Summarize a mission for quoting - line and turn lengths, flight time, climb and descent, and energy use
+ * @param lines Enabled lines with at least 2 points, in flight order
+ * @param profile Profile of the lines one after another (points without a line id belong to the first line)
+ */
+export function calculateMissionSummary(
+  lines: FlightLine[],
+  profile: ElevationPoint[],
+  options: MissionSummaryOptions
+): MissionSummary {
+  const lineSummaries: LineSummary[] = lines.map(line => {
+    const points = profile.filter(point => (point.lineId ?? lines[0].id) === line.id);
+    const summary: LineSummary = { id: line.id, name: line.name, color: line.color, length: 0, time: 0, climb: 0, descent: 0 };
+    for (let i = 1; i < points.length; i++) {
+      const distance = points[i].distance - points[i - 1].distance;
+      const dz = getFlightAltitude(points[i], options.nominalFlightHeight) - getFlightAltitude(points[i - 1], options.nominalFlightHeight);
+      const leg = flyLeg(distance, dz, options);
+      summary.length += distance;
+      summary.time += leg.time;
+      summary.climb += leg.climb;
+      summary.descent += leg.descent;
+    }
+    return summary;
+  });
+
+  // Turns from the end of each line onto the next, changing altitude between them
+  let turnLength = 0;
+  let turnTime = 0;
+  let turnClimb = 0;
+  let turnDescent = 0;
+  for (let i = 1; i < lines.length; i++) {
+    const length = options.turns?.[i - 1]?.length ?? estimateTurnLength(lines[i - 1].points, lines[i].points, options.turnRadius);
+    const end = profile.filter(point => point.lineId === lines[i - 1].id).pop();
+    const start = profile.find(point => point.lineId === lines[i].id);
+    const dz = end && start
+      ? getFlightAltitude(start, options.nominalFlightHeight) - getFlightAltitude(end, options.nominalFlightHeight)
+      : 0;
+    const leg = flyLeg(length, dz, options);
+    turnLength += length;
+    turnTime += leg.time;
+    turnClimb += leg.climb;
+    turnDescent += leg.descent;
+  }
+
+  const lineLength = lineSummaries.reduce((total, line) => total + line.length, 0);
+  const flightTime = lineSummaries.reduce((total, line) => total + line.time, 0) + turnTime;
+  const climb = lineSummaries.reduce((total, line) => total + line.climb, 0) + turnClimb;
+  const descent = lineSummaries.reduce((total, line) => total + line.descent, 0) + turnDescent;
+  const { aircraft } = options;
+
+  return {
+    lines: lineSummaries,
+    lineLength,
+    turnCount: Math.max(lines.length - 1, 0),
+    turnLength,
+    turnTime,
+    flightTime,
+    climb,
+    descent,
+    energy: aircraft.consumptionPerHour * flightTime / 3600 + aircraft.climbConsumption * climb / 100,
+    usableEnergy: aircraft.capacity * (1 - aircraft.reservePercent / 100)
+  };
+}
+
+/**
+ * Format a duration in seconds as h:mm:ss
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
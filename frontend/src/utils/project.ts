@@ -0,0 +1,211 @@
+import { Coordinate, FlightLine, FlightParameters, Mission, VerticalDatumSettings } from '../App';
+import { DEFAULT_VERTICAL_DATUM } from './verticalDatum';
+import { DEFAULT_AIRCRAFT_PROFILE } from './aircraft';
+
+/**
+ * Version of the project file format written by this build
+ * Bump it when the format changes and add a migration from the previous version below
+ */
+export const PROJECT_VERSION = 1;
+
+export const DEFAULT_FLIGHT_PARAMETERS: FlightParameters = {
+  nominalFlightHeight: 200,
+  safetyHeight: 140,
+  resolutionHeight: 270,
+  searchRadius: 50,
+  groundSpeed: 50,
+  climbRate: 3,
+  turnRadius: 450,
+  turnStyle: 'none',
+  runInLength: 300,
+  runOutLength: 100,
+  aircraft: DEFAULT_AIRCRAFT_PROFILE,
+  interpolationMethod: 'nearest',
+  sensorModel: {
+    fovDegrees: 60,
+    pulseRate: 300,
+    scanRate: 100
+  },
+  sidelapPercent: 30,
+  targetDensity: 8
+};
+
+/**
+ * A mission saved on the backend with everything needed to carry on planning it
+ */
+export interface MissionProject {
+  version: number;
+  name: string;
+  notes: string;
+  savedAt: string; // ISO timestamp
+  mission: Mission; // Flight lines with their per-vertex heights
+  parameters: FlightParameters;
+  verticalDatum: VerticalDatumSettings;
+  dtmSources: string[]; // Backend paths of the DTM mosaic, in load order
+  viewExtent: number[] | null; // Map view [minLng, minLat, maxLng, maxLat]
+}
+
+// Entry of the project list
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  version: number;
+  savedAt: string | null;
+  notes: string;
+  lineCount: number;
+  pointCount: number;
+}
+
+export interface LoadedProject {
+  project: MissionProject;
+  missingFiles: string[]; // DTM and geoid files of the project no longer on the backend
+}
+
+// Upgrades of older project files, keyed by the version they upgrade from - each returns the next version
+const MIGRATIONS: Record<number, (project: any) => any> = {};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+function readCoordinate(point: any): Coordinate | null {
+  if (!isNumber(point?.lat) || !isNumber(point?.lng)) return null;
+  const coordinate: Coordinate = { lat: point.lat, lng: point.lng };
+  if (isNumber(point.height)) coordinate.height = point.height;
+  if (point.altitudeReference === 'AGL' || point.altitudeReference === 'MSL') {
+    coordinate.altitudeReference = point.altitudeReference;
+  }
+  return coordinate;
+}
+
+function readLine(line: any, index: number): FlightLine {
+  const points: any[] = Array.isArray(line?.points) ? line.points : [];
+  return {
+    id: typeof line?.id === 'string' ? line.id : `line-${index + 1}`,
+    name: typeof line?.name === 'string' ? line.name : `Line ${index + 1}`,
+    color: typeof line?.color === 'string' ? line.color : '#ff0000',
+    defaultHeight: isNumber(line?.defaultHeight) ? line.defaultHeight : null,
+    enabled: line?.enabled !== false,
+    points: points.map(readCoordinate).filter((point): point is Coordinate => point !== null)
+  };
+}
+
+/**
+ * Read a saved mission, dropping invalid vertices and filling in line fields it lacks
+ */
+export function readMission(data: any): Mission {
+  const lines: FlightLine[] = Array.isArray(data?.lines) ? data.lines.map(readLine) : [];
+  return {
+    lines,
+    activeLineId: typeof data?.activeLineId === 'string' ? data.activeLineId : lines[0]?.id ?? ''
+  };
+}
+
+/**
+ * Bring a project file of any version up to PROJECT_VERSION, filling in fields it lacks with defaults
+ * @throws If the file is not a project, or was saved by a newer version of the planner
+ */
+export function migrateProject(data: any): MissionProject {
+  if (!data || typeof data !== 'object' || !Number.isInteger(data.version)) {
+    throw new Error('Not a mission project file');
+  }
+  if (data.version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version of the planner (format ${data.version}, this version reads up to ${PROJECT_VERSION})`);
+  }
+
+  let project = data;
+  while (project.version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[project.version];
+    if (!migrate) {
+      throw new Error(`No migration from project format ${project.version}`);
+    }
+    project = migrate(project);
+  }
+
+  const parameters = { ...DEFAULT_FLIGHT_PARAMETERS, ...project.parameters };
+
+  return {
+    version: PROJECT_VERSION,
+    name: String(project.name ?? ''),
+    notes: typeof project.notes === 'string' ? project.notes : '',
+    savedAt: typeof project.savedAt === 'string' ? project.savedAt : '',
+    mission: readMission(project.mission),
+    parameters: {
+      ...parameters,
+      sensorModel: { ...DEFAULT_FLIGHT_PARAMETERS.sensorModel, ...parameters.sensorModel },
+      aircraft: { ...DEFAULT_FLIGHT_PARAMETERS.aircraft, ...parameters.aircraft }
+    },
+    verticalDatum: { ...DEFAULT_VERTICAL_DATUM, ...project.verticalDatum },
+    dtmSources: Array.isArray(project.dtmSources) ? project.dtmSources.filter((source: unknown) => typeof source === 'string') : [],
+    viewExtent: Array.isArray(project.viewExtent) && project.viewExtent.length === 4 && project.viewExtent.every(isNumber)
+      ? project.viewExtent
+      : null
+  };
+}
+
+/**
+ * Summaries of the projects saved on the backend, most recently saved first
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const response = await fetch('/api/projects');
+  const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to list projects: ${response.status}`);
+  }
+  return data.projects;
+}
+
+/**
+ * Save a project on the backend under its name
+ * @param overwrite Replace a project saved under the same name
+ * @returns The saved project's summary, or null if the name is taken and overwrite is false
+ */
+export async function saveProject(project: MissionProject, overwrite: boolean): Promise<ProjectSummary | null> {
+  const response = await fetch('/api/projects', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ project, overwrite })
+  });
+  if (response.status === 409 && !overwrite) {
+    return null;
+  }
+  const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to save project: ${response.status}`);
+  }
+  return data.project;
+}
+
+/**
+ * Load a saved project, migrated to the current format
+ */
+export async function loadProject(id: string): Promise<LoadedProject> {
+  const response = await fetch(`/api/projects/${encodeURIComponent(id)}`);
+  const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to load project: ${response.status}`);
+  }
+  return { project: migrateProject(data.project), missingFiles: data.missingFiles ?? [] };
+}
+
+/**
+ * DTM and geoid files of a project kept in the browser that are no longer on the backend
+ */
+export async function findMissingFiles(project: MissionProject): Promise<string[]> {
+  const response = await fetch('/api/projects/missing-files', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ project: { dtmSources: project.dtmSources, verticalDatum: project.verticalDatum } })
+  });
+  const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to check project files: ${response.status}`);
+  }
+  return data.missingFiles;
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const response = await fetch(`/api/projects/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(data.error || `Failed to delete project: ${response.status}`);
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Coordinate } from '../App';
+import { fromLocalXY, toLocalXY } from './geometry';
+import { generateLawnmowerPattern } from './survey';
+
+const origin: Coordinate = { lng: 35, lat: 32 };
+
+// Polygons outlined in meters east/north of the origin
+const SHAPES: Record<string, [number, number][]> = {
+  square: [[0, 0], [400, 0], [400, 400], [0, 400]],
+  U: [[0, 0], [600, 0], [600, 400], [400, 400], [400, 100], [200, 100], [200, 400], [0, 400]],
+  H: [[0, 0], [200, 0], [200, 150], [400, 150], [400, 0], [600, 0], [600, 400], [400, 400], [400, 250], [200, 250], [200, 400], [0, 400]],
+  E: [[0, 0], [1000, 0], [1000, 400], [800, 400], [800, 100], [600, 100], [600, 400], [400, 400], [400, 100], [200, 100], [200, 400], [0, 400]],
+  sawtooth: [[0, 0], [600, 0], [600, 400], [500, 250], [400, 400], [300, 250], [200, 400], [100, 250], [0, 400]]
+};
+
+const toPolygon = (shape: [number, number][]) => shape.map(([x, y]) => fromLocalXY(origin, x, y));
+
+// Point in polygon by the even-odd rule, counting points within a millimetre of an edge as inside
+function isInside(point: { x: number; y: number }, polygon: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / (dx * dx + dy * dy)));
+    if (Math.hypot(point.x - (a.x + dx * t), point.y - (a.y + dy * t)) < 1e-3) {
+      return true;
+    }
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < a.x + ((point.y - a.y) / dy) * dx) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Check a path every half metre
+function pathStaysInside(path: Coordinate[], polygon: Coordinate[]): boolean {
+  const local = polygon.map(p => toLocalXY(origin, p));
+  const points = path.map(p => toLocalXY(origin, p));
+  return points.slice(1).every((b, i) => {
+    const a = points[i];
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / 0.5));
+    return Array.from({ length: steps + 1 }, (_, k) => k / steps)
+      .every(t => isInside({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, local));
+  });
+}
+
+describe('generateLawnmowerPattern', () => {
+  it('joins the strips of a convex polygon directly', () => {
+    const pattern = generateLawnmowerPattern(toPolygon(SHAPES.square), 0, 50);
+    expect(pattern).toHaveLength(8);
+    expect(pattern.every(strip => strip.length === 2)).toBe(true);
+  });
+
+  for (const [name, shape] of Object.entries(SHAPES)) {
+    for (const heading of [0, 30, 90, 135, 270]) {
+      it(`keeps the strips and transits of the ${name} shape at ${heading}° inside it`, () => {
+        const polygon = toPolygon(shape);
+        const pattern = generateLawnmowerPattern(polygon, heading, 40);
+        expect(pattern.length).toBeGreaterThan(0);
+
+        pattern.forEach((strip, i) => {
+          expect(pathStaysInside(strip.slice(0, 2), polygon)).toBe(true);
+          // From the end of the strip through its bends to the start of the next
+          const transit = i + 1 < pattern.length ? [...strip.slice(1), pattern[i + 1][0]] : strip.slice(1);
+          expect(pathStaysInside(transit, polygon)).toBe(true);
+        });
+      });
+    }
+  }
+});
@@ -0,0 +1,292 @@
+import { Coordinate } from '../App';
+import { toLocalXY, fromLocalXY, calculateBearing, calculateDistance } from './geometry';
+
+// A point in the rotated (u = along-track, v = cross-track) plane, in meters
+interface PlanePoint {
+  u: number;
+  v: number;
+}
+
+// A strip across the polygon, in the rotated plane
+interface Strip {
+  v: number;
+  uStart: number;
+  uEnd: number;
+}
+
+// Points closer than this to an edge count as on the polygon boundary, in meters
+const BOUNDARY_TOLERANCE = 1e-6;
+
+const overlapsStrip = (strip: Strip, [uStart, uEnd]: [number, number]) => uStart < strip.uEnd && strip.uStart < uEnd;
+
+function distanceToSegment(point: PlanePoint, a: PlanePoint, b: PlanePoint): number {
+  const du = b.u - a.u;
+  const dv = b.v - a.v;
+  const lengthSq = du * du + dv * dv;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((point.u - a.u) * du + (point.v - a.v) * dv) / lengthSq)) : 0;
+  return Math.hypot(point.u - (a.u + du * t), point.v - (a.v + dv * t));
+}
+
+// Whether a point lies inside the polygon or on its boundary (even-odd rule)
+function insidePolygon(point: PlanePoint, polygon: PlanePoint[]): boolean {
+  let inside = false;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    if (distanceToSegment(point, a, b) < BOUNDARY_TOLERANCE) {
+      return true;
+    }
+    if ((a.v > point.v) !== (b.v > point.v) && point.u < a.u + ((point.v - a.v) / (b.v - a.v)) * (b.u - a.u)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether the straight segment between two points stays inside the polygon - running along or
+ * touching its boundary counts as inside
+ */
+function segmentInsidePolygon(a: PlanePoint, b: PlanePoint, polygon: PlanePoint[]): boolean {
+  const du = b.u - a.u;
+  const dv = b.v - a.v;
+  const lengthSq = du * du + dv * dv;
+
+  // Cut the segment where it crosses an edge or passes a vertex; each piece between two cuts is
+  // then wholly inside or wholly outside, which its midpoint tells
+  const cuts = [0, 1];
+  for (let i = 0; i < polygon.length; i++) {
+    const p = polygon[i];
+    const q = polygon[(i + 1) % polygon.length];
+    const t = lengthSq > 0 ? ((p.u - a.u) * du + (p.v - a.v) * dv) / lengthSq : 0;
+    if (t > 0 && t < 1) cuts.push(t);
+
+    const eu = q.u - p.u;
+    const ev = q.v - p.v;
+    const denominator = du * ev - dv * eu;
+    if (denominator !== 0) {
+      const s = ((p.u - a.u) * ev - (p.v - a.v) * eu) / denominator;
+      const r = ((p.u - a.u) * dv - (p.v - a.v) * du) / denominator;
+      if (s > 0 && s < 1 && r >= 0 && r <= 1) cuts.push(s);
+    }
+  }
+  cuts.sort((x, y) => x - y);
+  return cuts.slice(1).every((t, i) => {
+    const mid = (cuts[i] + t) / 2;
+    return insidePolygon({ u: a.u + du * mid, v: a.v + dv * mid }, polygon);
+  });
+}
+
+/**
+ * Shortest path between two points inside the polygon, bending only at polygon vertices
+ * @param visible Which vertices see each other along a straight line inside the polygon
+ * @returns The points of the path, from and to included - the straight line when no path is found
+ */
+function pathInsidePolygon(from: PlanePoint, to: PlanePoint, polygon: PlanePoint[], visible: boolean[][]): PlanePoint[] {
+  if (segmentInsidePolygon(from, to, polygon)) {
+    return [from, to];
+  }
+
+  // Dijkstra over the vertices, with the destination as the last node
+  const n = polygon.length;
+  const nodes = [...polygon, to];
+  const distance = nodes.map(node => segmentInsidePolygon(from, node, polygon) ? Math.hypot(node.u - from.u, node.v - from.v) : Infinity);
+  distance[n] = Infinity;
+  const previous: number[] = nodes.map(() => -1);
+  const done = nodes.map(() => false);
+  const seesDestination = polygon.map(vertex => segmentInsidePolygon(vertex, to, polygon));
+
+  for (;;) {
+    let current = -1;
+    distance.forEach((d, i) => {
+      if (!done[i] && d < Infinity && (current < 0 || d < distance[current])) current = i;
+    });
+    if (current < 0) {
+      return [from, to];
+    }
+    if (current === n) break;
+    done[current] = true;
+
+    nodes.forEach((node, i) => {
+      const linked = i === n ? seesDestination[current] : visible[current][i];
+      const d = distance[current] + Math.hypot(node.u - nodes[current].u, node.v - nodes[current].v);
+      if (!done[i] && linked && d < distance[i]) {
+        distance[i] = d;
+        previous[i] = current;
+      }
+    });
+  }
+
+  const path = [to];
+  for (let i = previous[n]; i >= 0; i = previous[i]) {
+    path.unshift(polygon[i]);
+  }
+  return [from, ...path];
+}
+
+const pathLength = (path: PlanePoint[]) =>
+  path.reduce((total, point, i) => i === 0 ? 0 : total + Math.hypot(point.u - path[i - 1].u, point.v - path[i - 1].v), 0);
+
+/**
+ * Generate a lawnmower (boustrophedon) flight pattern covering a polygon
+ * A concave polygon can be crossed by one scan line several times, so it is split into cells
+ * with one strip per scan line, and each cell is covered before moving on to the nearest
+ * neighbouring one. Where the straight way from one strip to the next would leave the polygon,
+ * the strip is extended along the shortest path inside it, bending round the polygon's corners
+ * @param polygon Polygon vertices (not closed - the last vertex connects back to the first)
+ * @param headingDegrees Direction of the flight lines in degrees from north (0-180 is enough, 180 flips direction)
+ * @param lineSpacing Distance in meters between adjacent flight lines
+ * @returns The strips in flight order, each its start and end point followed by the bends of
+ *          the transit to the next strip, if it needs any
+ */
+export function generateLawnmowerPattern(
+  polygon: Coordinate[],
+  headingDegrees: number,
+  lineSpacing: number
+): Coordinate[][] {
+  if (polygon.length < 3 || lineSpacing <= 0) {
+    return [];
+  }
+
+  // Work in a local metric plane centred on the polygon
+  const origin: Coordinate = {
+    lng: polygon.reduce((sum, p) => sum + p.lng, 0) / polygon.length,
+    lat: polygon.reduce((sum, p) => sum + p.lat, 0) / polygon.length
+  };
+
+  // Along-track unit vector (flight direction) and cross-track unit vector (right of it)
+  const heading = (headingDegrees * Math.PI) / 180;
+  const along = { x: Math.sin(heading), y: Math.cos(heading) };
+  const across = { x: Math.cos(heading), y: -Math.sin(heading) };
+
+  // Rotate polygon into (u = along-track, v = cross-track) coordinates
+  const rotated = polygon.map(p => {
+    const { x, y } = toLocalXY(origin, p);
+    return {
+      u: x * along.x + y * along.y,
+      v: x * across.x + y * across.y
+    };
+  });
+
+  const minV = Math.min(...rotated.map(p => p.v));
+  const maxV = Math.max(...rotated.map(p => p.v));
+
+  const toCoordinate = (u: number, v: number): Coordinate =>
+    fromLocalXY(origin, u * along.x + v * across.x, u * along.y + v * across.y);
+
+  // Cells of strips on consecutive scan lines; a cell ends where the polygon splits or merges,
+  // and borders the cells before and after the split or merge
+  const cells: Strip[][] = [];
+  const neighbours = new Map<Strip[], Set<Strip[]>>();
+  let openCells: Strip[][] = [];
+
+  // First line is placed half a spacing inside the polygon edge so its swath covers the boundary
+  for (let v = minV + lineSpacing / 2; v < maxV; v += lineSpacing) {
+    // Intersect the scan line with every polygon edge (half-open rule avoids double-counting vertices)
+    const intersections: number[] = [];
+    for (let i = 0; i < rotated.length; i++) {
+      const a = rotated[i];
+      const b = rotated[(i + 1) % rotated.length];
+      if ((a.v <= v && v < b.v) || (b.v <= v && v < a.v)) {
+        const t = (v - a.v) / (b.v - a.v);
+        intersections.push(a.u + (b.u - a.u) * t);
+      }
+    }
+    intersections.sort((a, b) => a - b);
+
+    // Pair up entry/exit points - concave polygons can yield several pieces per scan line
+    const pieces: [number, number][] = [];
+    for (let i = 0; i + 1 < intersections.length; i += 2) {
+      if (intersections[i + 1] - intersections[i] > 1e-6) {
+        pieces.push([intersections[i], intersections[i + 1]]);
+      }
+    }
+
+    // A piece continues a cell when each is the only one overlapping the other, otherwise it starts a new cell
+    openCells = pieces.map(piece => {
+      const strip: Strip = { v, uStart: piece[0], uEnd: piece[1] };
+      const matches = openCells.filter(cell => overlapsStrip(cell[cell.length - 1], piece));
+      if (matches.length === 1 && pieces.filter(other => overlapsStrip(matches[0][matches[0].length - 1], other)).length === 1) {
+        matches[0].push(strip);
+        return matches[0];
+      }
+      const cell = [strip];
+      cells.push(cell);
+      neighbours.set(cell, new Set(matches));
+      matches.forEach(match => neighbours.get(match)!.add(cell));
+      return cell;
+    });
+  }
+
+  // Vertices that see each other inside the polygon, for the transits between strips
+  const visible = rotated.map(a => rotated.map(b => segmentInsidePolygon(a, b, rotated)));
+  const transit = (from: PlanePoint, to: PlanePoint) => pathInsidePolygon(from, to, rotated, visible);
+
+  // Cover the cells one after another, each a neighbour of the last one where possible. The pattern
+  // starts in a cell bordering only one other, away from it; later cells are entered at the strip
+  // end nearest the previous cell's exit by way of the polygon
+  const ordered: [PlanePoint, PlanePoint][] = [];
+  const remaining = [...cells];
+  let current: Strip[] | null = null;
+  let position: PlanePoint = { u: 0, v: 0 };
+  while (remaining.length > 0) {
+    let best: { cell: Strip[]; strips: Strip[]; flipFirst: boolean; distance: number };
+    if (!current) {
+      const cell = cells.find(c => neighbours.get(c)!.size <= 1) ?? cells[0];
+      const [neighbour] = neighbours.get(cell)!;
+      const towardsNeighbour = neighbour !== undefined && cells.indexOf(neighbour) < cells.indexOf(cell);
+      best = { cell, strips: towardsNeighbour ? [...cell].reverse() : cell, flipFirst: false, distance: 0 };
+    } else {
+      const adjacent = remaining.filter(cell => neighbours.get(current!)!.has(cell));
+      const candidates = adjacent.length > 0 ? adjacent : remaining;
+      best = { cell: candidates[0], strips: candidates[0], flipFirst: false, distance: Infinity };
+      for (const cell of candidates) {
+        for (const strips of [cell, [...cell].reverse()]) {
+          for (const flipFirst of [false, true]) {
+            const entry = { u: flipFirst ? strips[0].uEnd : strips[0].uStart, v: strips[0].v };
+            const distance = pathLength(transit(position, entry));
+            if (distance < best.distance) {
+              best = { cell, strips, flipFirst, distance };
+            }
+          }
+        }
+      }
+    }
+    remaining.splice(remaining.indexOf(best.cell), 1);
+    current = best.cell;
+
+    // Alternate direction on every other line so strips are joined by short turns
+    best.strips.forEach((strip, i) => {
+      const reverse = (i % 2 === 1) !== best.flipFirst;
+      const [uFrom, uTo] = reverse ? [strip.uEnd, strip.uStart] : [strip.uStart, strip.uEnd];
+      ordered.push([{ u: uFrom, v: strip.v }, { u: uTo, v: strip.v }]);
+      position = { u: uTo, v: strip.v };
+    });
+  }
+
+  // Each strip carries the bends of its transit to the next, so flying the strips in order stays inside
+  return ordered.map(([start, end], i) => {
+    const bends = i + 1 < ordered.length ? transit(end, ordered[i + 1][0]).slice(1, -1) : [];
+    return [start, end, ...bends].map(point => toCoordinate(point.u, point.v));
+  });
+}
+
+/**
+ * Suggest a flight line heading for a polygon - the bearing of its longest edge,
+ * which minimises the number of strips (and therefore turns) for elongated blocks
+ * @returns Heading in degrees from north in the range [0, 180)
+ */
+export function suggestSurveyHeading(polygon: Coordinate[]): number {
+  let longest = 0;
+  let heading = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const length = calculateDistance(a, b);
+    if (length > longest) {
+      longest = length;
+      heading = (calculateBearing(a, b) * 180) / Math.PI;
+    }
+  }
+  return ((heading % 180) + 180) % 180;
+}
@@ -0,0 +1,132 @@
+import { Coordinate, ElevationPoint } from '../App';
+import { splitProfileBySegment } from './lidar';
+
+export interface TerrainFollowingOptions {
+  minAGL: number; // Lowest allowed height above the DTM in meters
+  maxAGL: number; // Highest allowed height above the DTM in meters
+  maxGradientPercent: number; // Maximum climb/descent gradient in percent (rise over run)
+}
+
+export interface TerrainFollowingResult {
+  path: Coordinate[];
+  insertedCount: number; // Vertices added between the original ones
+  bandViolations: number; // Samples where the gradient limit forces the aircraft above maxAGL
+}
+
+interface PathSample {
+  distance: number;
+  elevation: number;
+  lng: number;
+  lat: number;
+  isVertex: boolean;
+}
+
+/**
+ * Generate vertex heights for terrain-following flight.
+ *
+ * First the lowest altitude profile that stays at least minAGL above every DTM sample
+ * while never climbing or descending steeper than the gradient limit is computed.
+ * The per-vertex AGL is then fitted to that profile piecewise-linearly, inserting extra
+ * vertices wherever a straight run would drift from it by more than a quarter of the AGL band
+ * (at least 2 m). The gradient limit is therefore approximate: between vertices the flown
+ * profile may be steeper than the limit by up to that drift.
+ * Original vertices are always kept, and all get an AGL height - vertices set to MSL lose
+ * their altitude reference (callers should confirm this with the user).
+ *
+ * @param flightPath Path vertices
+ * @param profile Elevation profile sampled along the path
+ * @returns Path with heights set on every vertex, or null if the profile does not match the path
+ */
+export function generateTerrainFollowingPath(
+  flightPath: Coordinate[],
+  profile: ElevationPoint[],
+  options: TerrainFollowingOptions
+): TerrainFollowingResult | null {
+  const segments = splitProfileBySegment(profile, flightPath);
+  if (!segments) {
+    return null;
+  }
+
+  const { minAGL, maxAGL, maxGradientPercent } = options;
+  const gradient = maxGradientPercent / 100;
+  const tolerance = Math.max(2, (maxAGL - minAGL) / 4);
+
+  // Flatten segments into one sample list (vertex samples are shared between segments)
+  const samples: PathSample[] = [];
+  segments.forEach((segmentSamples, segmentIndex) => {
+    segmentSamples.forEach((point, i) => {
+      if (segmentIndex > 0 && i === 0) return;
+      samples.push({
+        distance: point.distance,
+        elevation: point.elevation,
+        lng: point.longitude,
+        lat: point.latitude,
+        isVertex: i === 0 || i === segmentSamples.length - 1
+      });
+    });
+  });
+
+  // Lowest altitude satisfying the AGL floor, then limit descent (forward) and climb (backward) gradients
+  const altitude = samples.map(s => s.elevation + minAGL);
+  for (let i = 1; i < samples.length; i++) {
+    const run = samples[i].distance - samples[i - 1].distance;
+    altitude[i] = Math.max(altitude[i], altitude[i - 1] - gradient * run);
+  }
+  for (let i = samples.length - 2; i >= 0; i--) {
+    const run = samples[i + 1].distance - samples[i].distance;
+    altitude[i] = Math.max(altitude[i], altitude[i + 1] - gradient * run);
+  }
+
+  // Target AGL at each sample; above maxAGL the gradient limit wins over the band
+  let bandViolations = 0;
+  const targetAGL = samples.map((s, i) => {
+    const agl = altitude[i] - s.elevation;
+    if (agl > maxAGL + 1e-6) {
+      bandViolations++;
+    }
+    return agl;
+  });
+
+  // Check that a straight AGL run between two samples tracks the target profile
+  const fitsRun = (start: number, end: number): boolean => {
+    const span = samples[end].distance - samples[start].distance;
+    for (let m = start + 1; m < end; m++) {
+      const t = span > 0 ? (samples[m].distance - samples[start].distance) / span : 0;
+      const agl = targetAGL[start] + (targetAGL[end] - targetAGL[start]) * t;
+      if (Math.abs(agl - targetAGL[m]) > tolerance || agl < minAGL) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const path: Coordinate[] = [];
+  let insertedCount = 0;
+  let anchor = 0;
+  path.push({ ...flightPath[0], height: targetAGL[0], altitudeReference: 'AGL' });
+  let vertexIndex = 1;
+
+  while (anchor < samples.length - 1) {
+    // Never skip past the next original vertex
+    let nextVertexSample = anchor + 1;
+    while (!samples[nextVertexSample].isVertex) {
+      nextVertexSample++;
+    }
+
+    let end = anchor + 1;
+    while (end < nextVertexSample && fitsRun(anchor, end + 1)) {
+      end++;
+    }
+
+    if (end === nextVertexSample) {
+      path.push({ ...flightPath[vertexIndex], height: targetAGL[end], altitudeReference: 'AGL' });
+      vertexIndex++;
+    } else {
+      path.push({ lng: samples[end].lng, lat: samples[end].lat, height: targetAGL[end] });
+      insertedCount++;
+    }
+    anchor = end;
+  }
+
+  return { path, insertedCount, bandViolations };
+}
@@ -0,0 +1,226 @@
+import { Coordinate, FlightLine } from '../App';
+import { calculateBearing, calculateDestination, calculateDistance } from './geometry';
+
+/**
+ * How the turns between consecutive flight lines are shaped:
+ * - dubins: shortest Dubins path - arc, straight, arc or three arcs
+ * - racetrack: both arcs turn the same way with a straight between them, e.g. a U-turn onto an adjacent strip
+ * - teardrop: turns away from the next line, back round through more than a half circle and onto it -
+ *   for lines closer together than the turn diameter
+ */
+export type TurnStyle = 'none' | 'dubins' | 'racetrack' | 'teardrop';
+
+export const TURN_STYLE_LABELS: Record<TurnStyle, string> = {
+  none: 'Off',
+  dubins: 'Dubins (shortest)',
+  racetrack: 'Racetrack',
+  teardrop: 'Teardrop'
+};
+
+export interface TurnOptions {
+  style: TurnStyle;
+  turnRadius: number; // m
+  runInLength: number; // Straight flown on the next line's heading before its first point, in m
+  runOutLength: number; // Straight flown on the line's heading past its last point, in m
+}
+
+/**
+ * Turn flown from the end of one line onto the start of the next - not a flight line, so it's
+ * left out of swath coverage and the elevation profile
+ */
+export interface GeneratedTurn {
+  fromLineId: string;
+  toLineId: string;
+  points: Coordinate[]; // From the last point of one line to the first point of the next
+  length: number; // m
+}
+
+// Turn direction: 1 turns right (clockwise), -1 turns left
+type TurnDirection = 1 | -1;
+
+interface Arc {
+  centre: Coordinate;
+  startHeading: number; // Heading of the aircraft as it enters the arc
+  sweep: number; // Radians turned, always positive
+  direction: TurnDirection;
+}
+
+interface TurnPath {
+  length: number;
+  points: Coordinate[];
+}
+
+// Sample arcs at least every 10°
+const ARC_STEP = Math.PI / 18;
+
+const normalizeAngle = (angle: number) => ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+
+// Centre of the circle turned around from a position and heading - on the right of the heading for a right turn
+const turnCentre = (position: Coordinate, heading: number, radius: number, direction: TurnDirection) =>
+  calculateDestination(position, heading + direction * Math.PI / 2, radius);
+
+// Radians turned from one heading to another in the turn direction
+const turnSweep = (from: number, to: number, direction: TurnDirection) => normalizeAngle(direction * (to - from));
+
+// Join arcs into a path; seen from the centre, the aircraft lies a quarter turn back from its heading
+function toTurnPath(arcs: Arc[], radius: number, straight: number): TurnPath {
+  const points: Coordinate[] = [];
+  let length = straight;
+  for (const arc of arcs) {
+    const steps = Math.max(1, Math.ceil(arc.sweep / ARC_STEP));
+    const startBearing = arc.startHeading - arc.direction * Math.PI / 2;
+    for (let i = 0; i <= steps; i++) {
+      points.push(calculateDestination(arc.centre, startBearing + arc.direction * arc.sweep * i / steps, radius));
+    }
+    length += radius * arc.sweep;
+  }
+  return { length, points };
+}
+
+/**
+ * Arc, straight, arc from one position and heading to another
+ * @returns null when the arcs turn opposite ways and their circles are too close for a straight between them
+ */
+function arcStraightArc(
+  start: Coordinate,
+  startHeading: number,
+  end: Coordinate,
+  endHeading: number,
+  radius: number,
+  first: TurnDirection,
+  second: TurnDirection
+): TurnPath | null {
+  const centre1 = turnCentre(start, startHeading, radius, first);
+  const centre2 = turnCentre(end, endHeading, radius, second);
+  const centreDistance = calculateDistance(centre1, centre2);
+
+  // The straight follows the outer tangent of arcs turning the same way, the inner tangent of arcs turning opposite ways
+  let heading = calculateBearing(centre1, centre2);
+  let straight = centreDistance;
+  if (first !== second) {
+    if (centreDistance < 2 * radius) {
+      return null;
+    }
+    straight = Math.sqrt(centreDistance * centreDistance - 4 * radius * radius);
+    heading += first * Math.atan2(2 * radius, straight);
+  }
+
+  return toTurnPath([
+    { centre: centre1, startHeading, sweep: turnSweep(startHeading, heading, first), direction: first },
+    { centre: centre2, startHeading: heading, sweep: turnSweep(heading, endHeading, second), direction: second }
+  ], radius, straight);
+}
+
+/**
+ * Three arcs from one position and heading to another, the middle one turning the other way
+ * @returns Both paths around the middle circle, or none when the outer circles are more than two diameters apart
+ */
+function arcArcArc(
+  start: Coordinate,
+  startHeading: number,
+  end: Coordinate,
+  endHeading: number,
+  radius: number,
+  outer: TurnDirection
+): TurnPath[] {
+  const centre1 = turnCentre(start, startHeading, radius, outer);
+  const centre2 = turnCentre(end, endHeading, radius, outer);
+  const centreDistance = calculateDistance(centre1, centre2);
+  if (centreDistance > 4 * radius) {
+    return [];
+  }
+
+  // The middle circle touches both outer circles, so its centre is two radii from each of theirs
+  const centreBearing = calculateBearing(centre1, centre2);
+  const offset = Math.acos(centreDistance / (4 * radius));
+  return [offset, -offset].map(angle => {
+    const middle = calculateDestination(centre1, centreBearing + angle, 2 * radius);
+    const heading1 = calculateBearing(centre1, middle) + outer * Math.PI / 2;
+    const heading2 = calculateBearing(middle, centre2) - outer * Math.PI / 2;
+    const inner: TurnDirection = outer === 1 ? -1 : 1;
+    return toTurnPath([
+      { centre: centre1, startHeading, sweep: turnSweep(startHeading, heading1, outer), direction: outer },
+      { centre: middle, startHeading: heading1, sweep: turnSweep(heading1, heading2, inner), direction: inner },
+      { centre: centre2, startHeading: heading2, sweep: turnSweep(heading2, endHeading, outer), direction: outer }
+    ], radius, 0);
+  });
+}
+
+// Candidate paths of a style from the end of the run-out to the start of the run-in
+function turnPaths(
+  style: Exclude<TurnStyle, 'none'>,
+  start: Coordinate,
+  startHeading: number,
+  end: Coordinate,
+  endHeading: number,
+  radius: number
+): TurnPath[] {
+  const straightPaths = (pairs: [TurnDirection, TurnDirection][]) => pairs
+    .map(([first, second]) => arcStraightArc(start, startHeading, end, endHeading, radius, first, second))
+    .filter((path): path is TurnPath => path !== null);
+  const threeArcPaths = () => [
+    ...arcArcArc(start, startHeading, end, endHeading, radius, 1),
+    ...arcArcArc(start, startHeading, end, endHeading, radius, -1)
+  ];
+
+  switch (style) {
+    case 'racetrack':
+      return straightPaths([[1, 1], [-1, -1]]);
+    case 'teardrop':
+      return threeArcPaths();
+    default:
+      return [...straightPaths([[1, 1], [-1, -1], [1, -1], [-1, 1]]), ...threeArcPaths()];
+  }
+}
+
+/**
+ * Generate the turn from the end of one line onto the start of the next: the run-out on the line's
+ * heading, the shortest path of the style onto the run-in, and the run-in on the next line's heading
+ * Falls back to the shortest Dubins path when no path of the style fits
+ */
+function generateTurn(from: Coordinate[], to: Coordinate[], options: TurnOptions): TurnPath {
+  const end = from[from.length - 1];
+  const start = to[0];
+  const outbound = calculateBearing(from[from.length - 2], end);
+  const inbound = calculateBearing(start, to[1]);
+
+  const runOutEnd = calculateDestination(end, outbound, options.runOutLength);
+  const runInStart = calculateDestination(start, inbound + Math.PI, options.runInLength);
+  const runLength = options.runOutLength + options.runInLength;
+
+  if (options.turnRadius <= 0 || options.style === 'none') {
+    return {
+      length: runLength + calculateDistance(runOutEnd, runInStart),
+      points: [end, runOutEnd, runInStart, start]
+    };
+  }
+
+  const shortest = (paths: TurnPath[]) => paths.reduce<TurnPath | null>(
+    (best, path) => !best || path.length < best.length ? path : best,
+    null
+  );
+  const path = shortest(turnPaths(options.style, runOutEnd, outbound, runInStart, inbound, options.turnRadius))
+    ?? shortest(turnPaths('dubins', runOutEnd, outbound, runInStart, inbound, options.turnRadius))!;
+
+  // Arcs meeting without a straight between them, and a run-out or run-in of 0 m, repeat a point (to round-off)
+  const points = [end, ...path.points, start];
+  return {
+    length: runLength + path.length,
+    points: points.filter((point, i) => i === 0 || calculateDistance(points[i - 1], point) >= 1)
+  };
+}
+
+/**
+ * Generate the turns between consecutive lines
+ * @param lines Enabled lines with at least 2 points, in flight order
+ * @returns No turns when the style is 'none'
+ */
+export function generateTurns(lines: FlightLine[], options: TurnOptions): GeneratedTurn[] {
+  if (options.style === 'none') {
+    return [];
+  }
+  return lines.slice(1).map((line, i) => {
+    const { length, points } = generateTurn(lines[i].points, line.points, options);
+    return { fromLineId: lines[i].id, toLineId: line.id, points, length };
+  });
+}
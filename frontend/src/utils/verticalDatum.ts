@@ -0,0 +1,106 @@
+import { ElevationPoint, VerticalDatum, VerticalDatumSettings } from '../App';
+
+export const VERTICAL_DATUM_LABELS: Record<VerticalDatum, string> = {
+  orthometric: 'Orthometric',
+  ellipsoidal: 'Ellipsoidal'
+};
+
+export const DEFAULT_VERTICAL_DATUM: VerticalDatumSettings = {
+  dtmDatum: 'orthometric',
+  outputDatum: 'orthometric',
+  geoidSource: null
+};
+
+/**
+ * Offset to add to a height in one datum to express it in another
+ * (ellipsoidal height = orthometric height + geoid undulation)
+ * @returns null when the datums differ and the undulation is unknown
+ */
+export function getDatumOffset(
+  from: VerticalDatum,
+  to: VerticalDatum,
+  undulation: number | null | undefined
+): number | null {
+  if (from === to) return 0;
+  if (undulation === null || undulation === undefined) return null;
+  return to === 'ellipsoidal' ? undulation : -undulation;
+}
+
+/**
+ * Express the absolute heights of a profile (ground and min/max elevation) in the output datum
+ * Flight heights are above ground and stay as they are. When any point lacks a geoid undulation
+ * the profile is returned in the DTM datum and flagged, rather than mixing datums
+ */
+export function convertProfileDatum(
+  profile: ElevationPoint[],
+  settings: VerticalDatumSettings
+): { profile: ElevationPoint[]; datum: VerticalDatum; datumUnavailable: boolean } {
+  const { dtmDatum, outputDatum } = settings;
+  if (dtmDatum === outputDatum) {
+    return { profile, datum: dtmDatum, datumUnavailable: false };
+  }
+
+  const offsets = profile.map(point => getDatumOffset(dtmDatum, outputDatum, point.geoidUndulation));
+  if (offsets.some(offset => offset === null)) {
+    return { profile, datum: dtmDatum, datumUnavailable: true };
+  }
+
+  return {
+    profile: profile.map((point, index) => {
+      const offset = offsets[index]!;
+      return {
+        ...point,
+        elevation: point.elevation + offset,
+        ...(point.minElevation !== undefined && { minElevation: point.minElevation + offset }),
+        ...(point.maxElevation !== undefined && { maxElevation: point.maxElevation + offset })
+      };
+    }),
+    datum: outputDatum,
+    datumUnavailable: false
+  };
+}
+
+/**
+ * Geoid undulations at the given points from an uploaded geoid grid (null outside the grid)
+ */
+export async function fetchGeoidUndulations(
+  geoidSource: string,
+  points: { lng: number; lat: number }[]
+): Promise<(number | null)[]> {
+  const filename = geoidSource.split('/').pop();
+  const response = await fetch(`/api/geoid/${filename}/undulations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ coordinates: points.map(point => [point.lng, point.lat]) })
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || `Failed to sample geoid grid: ${response.status}`);
+  }
+  const { undulations } = await response.json();
+  return undulations;
+}
+
+/**
+ * Offsets converting heights at the given points from one datum to another
+ * @throws When the datums differ and the geoid grid is missing or doesn't cover every point
+ */
+export async function fetchDatumOffsets(
+  from: VerticalDatum,
+  to: VerticalDatum,
+  geoidSource: string | null,
+  points: { lng: number; lat: number }[]
+): Promise<number[]> {
+  if (from === to) {
+    return points.map(() => 0);
+  }
+  if (!geoidSource) {
+    throw new Error('no geoid grid is loaded');
+  }
+  const undulations = await fetchGeoidUndulations(geoidSource, points);
+  const offsets = undulations.map(undulation => getDatumOffset(from, to, undulation));
+  if (offsets.some(offset => offset === null)) {
+    throw new Error('the flight path leaves the geoid grid');
+  }
+  return offsets as number[];
+}
@@ -0,0 +1,186 @@
+import { AltitudeReference, VerticalDatum } from '../App';
+
+export type WaypointFormat = 'plan' | 'waypoints' | 'gpx' | 'csv';
+
+// mavlink formats give absolute altitudes above mean sea level, so they take orthometric heights only
+export const WAYPOINT_FORMATS: Record<WaypointFormat, { label: string; extension: string; mimeType: string; mavlink: boolean }> = {
+  plan: { label: 'QGroundControl Plan', extension: 'plan', mimeType: 'application/json', mavlink: true },
+  waypoints: { label: 'Mission Planner (.waypoints)', extension: 'waypoints', mimeType: 'text/plain', mavlink: true },
+  gpx: { label: 'GPX Route', extension: 'gpx', mimeType: 'application/gpx+xml', mavlink: false },
+  csv: { label: 'CSV Waypoints', extension: 'csv', mimeType: 'text/csv', mavlink: false }
+};
+
+/**
+ * A flight line vertex ready for export
+ * altitude is in the export frame - above the ground for AGL, above the datum for MSL
+ */
+export interface Waypoint {
+  line: string; // Name of the flight line the vertex belongs to
+  lat: number;
+  lng: number;
+  altitude: number;
+  groundElevation: number;
+}
+
+/**
+ * Altitude frame and datum of an export
+ * groundElevation of the waypoints is always above the datum
+ */
+export interface WaypointFrame {
+  reference: AltitudeReference;
+  datum: VerticalDatum;
+}
+
+// MAVLink MAV_CMD_NAV_WAYPOINT and the MAV_FRAME values for each altitude reference
+// MAV_FRAME_GLOBAL (also used for the home position) is above mean sea level - an orthometric height
+const MAV_CMD_NAV_WAYPOINT = 16;
+const MAV_FRAME_GLOBAL = 0;
+const MAV_FRAME_GLOBAL_TERRAIN_ALT = 10;
+const MAV_FRAME: Record<AltitudeReference, number> = {
+  MSL: MAV_FRAME_GLOBAL,
+  AGL: MAV_FRAME_GLOBAL_TERRAIN_ALT
+};
+
+// QGroundControl vehicle type for fixed wing aircraft (MAV_TYPE_FIXED_WING)
+const MAV_TYPE_FIXED_WING = 1;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function frameLabel(frame: WaypointFrame): string {
+  return frame.reference === 'AGL' ? 'AGL' : `MSL, ${frame.datum}`;
+}
+
+/**
+ * QGroundControl .plan mission - the planned home position is the ground below the first waypoint
+ * @param cruiseSpeed Ground speed in m/s
+ */
+function buildQgcPlan(waypoints: Waypoint[], frame: WaypointFrame, cruiseSpeed: number): string {
+  const [home] = waypoints;
+  const plan = {
+    fileType: 'Plan',
+    version: 1,
+    groundStation: 'QGroundControl',
+    mission: {
+      version: 2,
+      firmwareType: 0,
+      vehicleType: MAV_TYPE_FIXED_WING,
+      cruiseSpeed,
+      hoverSpeed: cruiseSpeed,
+      plannedHomePosition: [home.lat, home.lng, Number(home.groundElevation.toFixed(2))],
+      items: waypoints.map((waypoint, index) => ({
+        type: 'SimpleItem',
+        autoContinue: true,
+        command: MAV_CMD_NAV_WAYPOINT,
+        doJumpId: index + 1,
+        frame: MAV_FRAME[frame.reference],
+        params: [0, 0, 0, null, waypoint.lat, waypoint.lng, Number(waypoint.altitude.toFixed(2))]
+      }))
+    },
+    geoFence: { version: 2, circles: [], polygons: [] },
+    rallyPoints: { version: 2, points: [] }
+  };
+  return JSON.stringify(plan, null, 2);
+}
+
+/**
+ * Mission Planner / QGC WPL 110 waypoint list
+ * Row 0 is the home position (absolute altitude), followed by one NAV_WAYPOINT per vertex:
+ * index, current, frame, command, param1-4, latitude, longitude, altitude, autocontinue
+ */
+function buildWaypointList(waypoints: Waypoint[], frame: WaypointFrame): string {
+  const [home] = waypoints;
+  const row = (index: number, mavFrame: number, lat: number, lng: number, altitude: number) =>
+    [index, index === 0 ? 1 : 0, mavFrame, MAV_CMD_NAV_WAYPOINT, 0, 0, 0, 0, lat.toFixed(8), lng.toFixed(8), altitude.toFixed(2), 1].join('\t');
+
+  const rows = [
+    'QGC WPL 110',
+    row(0, MAV_FRAME_GLOBAL, home.lat, home.lng, home.groundElevation),
+    ...waypoints.map((waypoint, index) =>
+      row(index + 1, MAV_FRAME[frame.reference], waypoint.lat, waypoint.lng, waypoint.altitude)
+    )
+  ];
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * GPX document with one route per flight line and one rtept per vertex; <ele> holds the altitude in the export frame
+ */
+function buildGpxRoute(waypoints: Waypoint[], frame: WaypointFrame): string {
+  // Consecutive waypoints of the same line form a route
+  const routes: { name: string; waypoints: Waypoint[] }[] = [];
+  waypoints.forEach(waypoint => {
+    const route = routes[routes.length - 1];
+    if (route && route.name === waypoint.line) {
+      route.waypoints.push(waypoint);
+    } else {
+      routes.push({ name: waypoint.line, waypoints: [waypoint] });
+    }
+  });
+
+  const description = escapeXml(`Altitudes in meters ${frameLabel(frame)}`);
+  const content = routes.map(route => {
+    const points = route.waypoints.map((waypoint, index) => `
+    <rtept lat="${waypoint.lat.toFixed(8)}" lon="${waypoint.lng.toFixed(8)}">
+      <ele>${waypoint.altitude.toFixed(2)}</ele>
+      <name>WP${index + 1}</name>
+    </rtept>`).join('');
+    return `
+  <rte>
+    <name>${escapeXml(route.name)}</name>
+    <desc>${description}</desc>${points}
+  </rte>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="LiDAR Mission Planner" xmlns="http://www.topografix.com/GPX/1/1">${content}
+</gpx>
+`;
+}
+
+function buildCsv(waypoints: Waypoint[], frame: WaypointFrame): string {
+  const headers = [
+    'Waypoint',
+    'Line',
+    'Latitude',
+    'Longitude',
+    `Altitude (m ${frameLabel(frame)})`,
+    `Ground Elevation (m, ${frame.datum})`
+  ];
+  const rows = waypoints.map((waypoint, index) => [
+    index + 1,
+    `"${waypoint.line.replace(/"/g, '""')}"`,
+    waypoint.lat.toFixed(8),
+    waypoint.lng.toFixed(8),
+    waypoint.altitude.toFixed(2),
+    waypoint.groundElevation.toFixed(2)
+  ].join(','));
+  return [headers.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Serialise waypoints in an autopilot or exchange format
+ * @param cruiseSpeed Ground speed in m/s, recorded in formats that carry one
+ */
+export function buildWaypointFile(
+  format: WaypointFormat,
+  waypoints: Waypoint[],
+  frame: WaypointFrame,
+  cruiseSpeed: number
+): string {
+  switch (format) {
+    case 'plan':
+      return buildQgcPlan(waypoints, frame, cruiseSpeed);
+    case 'waypoints':
+      return buildWaypointList(waypoints, frame);
+    case 'gpx':
+      return buildGpxRoute(waypoints, frame);
+    case 'csv':
+      return buildCsv(waypoints, frame);
+  }
+}